@@ -0,0 +1,503 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import styles from './annotations.module.css';
+import {
+  createId,
+  currentShape,
+  exportAnnotations,
+  importAnnotationFile,
+  loadAnnotations,
+  loadAuthor,
+  mergeAnnotations,
+  nextNumber,
+  saveAnnotations,
+  saveAuthor,
+  selectorFor,
+  viewportFor,
+  type Annotation,
+  type AnnotationAnchor,
+  type AnnotationShape,
+  type ViewportName,
+} from './annotations';
+
+export interface AnnotationOverlayProps {
+  /** The prototype's slug. Notes are saved under it. */
+  prototype: string;
+  /** Called by the panel's Close button */
+  onClose: () => void;
+}
+
+type Mode = 'browse' | 'pin' | 'rect';
+
+const MODES: { mode: Mode; label: string; hint: string }[] = [
+  { mode: 'browse', label: 'Browse', hint: 'Use the prototype normally and open existing notes' },
+  { mode: 'pin', label: 'Pin', hint: 'Click anywhere to pin a note there' },
+  { mode: 'rect', label: 'Box', hint: 'Drag to outline an area' },
+];
+
+// Boxes smaller than this are probably a slipped click, not a drag
+const MIN_BOX_SIZE = 8;
+
+const boxBetween = (a: { x: number; y: number }, b: { x: number; y: number }): AnnotationShape => ({
+  kind: 'rect',
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y),
+});
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+/**
+ * Design review mode: drop numbered pins or draw boxes on top of a
+ * prototype, and discuss each one in a small comment thread.
+ *
+ * Pins and boxes sit in page coordinates, so they scroll with the page. A pin
+ * dropped on an element follows that element when the layout moves. Notes
+ * are saved per prototype and per viewport size (see annotations.ts), and
+ * the panel swaps to the matching set when the window is resized across a
+ * size boundary.
+ */
+export function AnnotationOverlay({ prototype, onClose }: AnnotationOverlayProps) {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+  const [viewport, setViewport] = useState<ViewportName>('desktop');
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [mode, setMode] = useState<Mode>('pin');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draftBox, setDraftBox] = useState<AnnotationShape | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+  const [author, setAuthor] = useState('');
+  const [reply, setReply] = useState('');
+  const [status, setStatus] = useState('');
+
+  const selected = annotations.find((a) => a.id === selectedId);
+  const visible = annotations.filter((a) => showResolved || !a.resolved || a.id === selectedId);
+  const resolvedCount = annotations.filter((a) => a.resolved).length;
+
+  useEffect(() => {
+    setAuthor(loadAuthor());
+  }, []);
+
+  // Track the window size. Crossing a size boundary switches to that size's notes.
+  // Anything that resizes the page (the window, images loading...) also moves anchored pins.
+  useEffect(() => {
+    const measure = () => {
+      setSize({ width: window.innerWidth, height: window.innerHeight });
+      setViewport(viewportFor(window.innerWidth));
+    };
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(document.body);
+    window.addEventListener('resize', measure);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', measure);
+    };
+  }, []);
+
+  useEffect(() => {
+    setAnnotations(loadAnnotations(prototype, viewport));
+    setSelectedId(null);
+  }, [prototype, viewport]);
+
+  // Every change is saved straight away
+  const update = (next: Annotation[]) => {
+    setAnnotations(next);
+    if (!saveAnnotations(prototype, viewport, next)) {
+      setStatus("This browser won't save notes. Export them to keep them.");
+    }
+  };
+
+  // A note with no comments is only kept while its thread is open
+  const withoutEmpty = (list: Annotation[], keepId?: string | null) =>
+    list.filter((a) => a.comments.length > 0 || a.id === keepId);
+
+  const openThread = (id: string | null) => {
+    setSelectedId(id);
+    setReply('');
+    if (annotations.some((a) => a.comments.length === 0 && a.id !== id)) update(withoutEmpty(annotations, id));
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape') return;
+      if (selectedId) openThread(null);
+      else setMode('browse');
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const create = (shape: AnnotationShape, anchor?: AnnotationAnchor) => {
+    const kept = withoutEmpty(annotations);
+    const annotation: Annotation = {
+      id: createId(),
+      number: nextNumber(kept),
+      shape,
+      anchor,
+      comments: [],
+      resolved: false,
+    };
+    setStatus('');
+    update([...kept, annotation]);
+    setSelectedId(annotation.id);
+    setReply('');
+  };
+
+  // Pins remember the element under them, skipping the overlay itself and the frame's toolbar
+  const dropPin = (clientX: number, clientY: number) => {
+    const target = document
+      .elementsFromPoint(clientX, clientY)
+      .find((element) => !rootRef.current?.contains(element) && !element.closest('[data-annotation-ignore]'));
+    let anchor: AnnotationAnchor | undefined;
+    if (target && target !== document.body && target !== document.documentElement) {
+      const rect = target.getBoundingClientRect();
+      anchor = {
+        selector: selectorFor(target),
+        fx: rect.width ? (clientX - rect.left) / rect.width : 0,
+        fy: rect.height ? (clientY - rect.top) / rect.height : 0,
+      };
+    }
+    create({ kind: 'pin', x: clientX + window.scrollX, y: clientY + window.scrollY }, anchor);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStart.current = { x: event.pageX, y: event.pageY };
+    if (mode === 'rect') setDraftBox(boxBetween(dragStart.current, dragStart.current));
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (mode !== 'rect' || !dragStart.current) return;
+    setDraftBox(boxBetween(dragStart.current, { x: event.pageX, y: event.pageY }));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current;
+    dragStart.current = null;
+    setDraftBox(null);
+    if (!start) return;
+    if (mode === 'pin') {
+      dropPin(event.clientX, event.clientY);
+      return;
+    }
+    const box = boxBetween(start, { x: event.pageX, y: event.pageY });
+    if (box.kind === 'rect' && box.width >= MIN_BOX_SIZE && box.height >= MIN_BOX_SIZE) create(box);
+  };
+
+  const changeSelected = (change: (annotation: Annotation) => Annotation) => {
+    update(annotations.map((a) => (a.id === selectedId ? change(a) : a)));
+  };
+
+  const handleReply = (event?: React.FormEvent) => {
+    event?.preventDefault();
+    const text = reply.trim();
+    if (!text) return;
+    changeSelected((a) => ({
+      ...a,
+      comments: [...a.comments, { id: createId(), author: author.trim(), text, created: new Date().toISOString() }],
+    }));
+    setReply('');
+  };
+
+  const handleResolve = () => {
+    if (!selected) return;
+    changeSelected((a) => ({ ...a, resolved: !a.resolved }));
+    // Resolving is usually the last thing done with a note
+    if (!selected.resolved) setSelectedId(null);
+  };
+
+  const handleDelete = () => {
+    update(annotations.filter((a) => a.id !== selectedId));
+    setSelectedId(null);
+  };
+
+  const handleClear = () => {
+    if (!window.confirm(`Delete all ${annotations.length} notes for this ${viewport} size?`)) return;
+    update([]);
+    setSelectedId(null);
+    setStatus('Cleared');
+  };
+
+  const handleExport = () => {
+    const notes = withoutEmpty(annotations);
+    if (notes.length === 0) {
+      setStatus('Nothing to export yet');
+      return;
+    }
+    exportAnnotations(prototype, viewport, notes);
+    setStatus(`Exported ${notes.length} notes`);
+  };
+
+  // Notes go back to the size they were made at, which might not be the current one
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = await importAnnotationFile(file, prototype);
+      const target = imported.viewport ?? viewport;
+      if (target === viewport) {
+        setStatus(`Imported ${imported.annotations.length} notes`);
+        update(mergeAnnotations(annotations, imported.annotations));
+      } else {
+        const merged = mergeAnnotations(loadAnnotations(prototype, target), imported.annotations);
+        if (!saveAnnotations(prototype, target, merged)) {
+          throw new Error(`This browser won't save notes, so ${target} notes can't be imported here`);
+        }
+        setStatus(`Imported ${imported.annotations.length} ${target} notes. Resize the window to ${target} size to see them.`);
+      }
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Couldn't import that file");
+    }
+  };
+
+  const handleAuthorChange = (name: string) => {
+    setAuthor(name);
+    saveAuthor(name);
+  };
+
+  const scrollToNote = (annotation: Annotation) => {
+    const shape = currentShape(annotation);
+    window.scrollTo({ top: Math.max(0, shape.y - window.innerHeight / 3), behavior: 'smooth' });
+    openThread(annotation.id);
+  };
+
+  const selectedShape = selected ? currentShape(selected) : null;
+  // The thread opens beside its note, kept inside the window horizontally
+  const threadPosition = selectedShape && {
+    left: Math.max(8, Math.min(selectedShape.x + 20, window.scrollX + size.width - 300)),
+    top: selectedShape.y,
+  };
+
+  return (
+    <div ref={rootRef} className={styles.root}>
+      {mode !== 'browse' && (
+        <div
+          className={`${styles.capture} ${mode === 'pin' ? styles.capturePin : styles.captureBox}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => {
+            dragStart.current = null;
+            setDraftBox(null);
+          }}
+          aria-hidden="true"
+        />
+      )}
+
+      <div className={styles.layer}>
+        {visible.map((annotation) => {
+          const shape = currentShape(annotation);
+          const classes = [
+            styles.marker,
+            annotation.resolved ? styles.resolved : '',
+            annotation.id === selectedId ? styles.selected : '',
+          ].join(' ');
+          const label = `Note ${annotation.number}${annotation.resolved ? ' (resolved)' : ''}`;
+          if (shape.kind === 'pin') {
+            return (
+              <button
+                key={annotation.id}
+                type="button"
+                className={`${classes} ${styles.pin}`}
+                style={{ left: shape.x, top: shape.y }}
+                aria-label={label}
+                onClick={() => openThread(annotation.id === selectedId ? null : annotation.id)}
+              >
+                {annotation.number}
+              </button>
+            );
+          }
+          return (
+            <div
+              key={annotation.id}
+              className={`${classes} ${styles.box}`}
+              style={{ left: shape.x, top: shape.y, width: shape.width, height: shape.height }}
+            >
+              <button
+                type="button"
+                className={styles.boxBadge}
+                aria-label={label}
+                onClick={() => openThread(annotation.id === selectedId ? null : annotation.id)}
+              >
+                {annotation.number}
+              </button>
+            </div>
+          );
+        })}
+
+        {draftBox?.kind === 'rect' && (
+          <div
+            className={`${styles.box} ${styles.draft}`}
+            style={{ left: draftBox.x, top: draftBox.y, width: draftBox.width, height: draftBox.height }}
+          />
+        )}
+
+        {selected && threadPosition && (
+          <section className={styles.thread} style={threadPosition} aria-label={`Note ${selected.number}`}>
+            <header className={styles.threadHeader}>
+              <span className={styles.threadNumber}>#{selected.number}</span>
+              {selected.resolved && <span className={styles.resolvedBadge}>Resolved</span>}
+              <button
+                type="button"
+                className={styles.iconButton}
+                aria-label="Close note"
+                onClick={() => openThread(null)}
+              >
+                ×
+              </button>
+            </header>
+
+            {selected.comments.length > 0 && (
+              <ol className={styles.comments}>
+                {selected.comments.map((comment) => (
+                  <li key={comment.id} className={styles.comment}>
+                    <p className={styles.commentMeta}>
+                      <strong className={styles.commentAuthor}>{comment.author || 'Anonymous'}</strong> ·{' '}
+                      <time dateTime={comment.created}>{formatDate(comment.created)}</time>
+                    </p>
+                    <p className={styles.commentText}>{comment.text}</p>
+                  </li>
+                ))}
+              </ol>
+            )}
+
+            <form className={styles.replyForm} onSubmit={handleReply}>
+              <textarea
+                className={styles.textarea}
+                value={reply}
+                onChange={(event) => setReply(event.target.value)}
+                onKeyDown={(event) => {
+                  // Ctrl/Cmd + Enter sends, plain Enter starts a new line
+                  if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) handleReply();
+                }}
+                placeholder={selected.comments.length ? 'Reply…' : 'What should change here?'}
+                aria-label="Comment"
+                rows={3}
+                autoFocus
+              />
+              <div className={styles.threadActions}>
+                <button type="submit" className={styles.primaryButton} disabled={!reply.trim()}>
+                  {selected.comments.length ? 'Reply' : 'Comment'}
+                </button>
+                {selected.comments.length > 0 && (
+                  <button type="button" className={styles.textButton} onClick={handleResolve}>
+                    {selected.resolved ? 'Reopen' : 'Resolve'}
+                  </button>
+                )}
+                <button type="button" className={`${styles.textButton} ${styles.danger}`} onClick={handleDelete}>
+                  Delete
+                </button>
+              </div>
+            </form>
+          </section>
+        )}
+      </div>
+
+      <aside className={styles.panel} aria-label="Review notes">
+        <header className={styles.panelHeader}>
+          <h2 className={styles.panelTitle}>Review notes</h2>
+          <button type="button" className={styles.iconButton} aria-label="Close review notes" onClick={onClose}>
+            ×
+          </button>
+        </header>
+        <p className={styles.viewport}>
+          {viewport} size · {size.width}×{size.height}
+        </p>
+
+        <div className={styles.modes} role="group" aria-label="Tool">
+          {MODES.map((m) => (
+            <button
+              key={m.mode}
+              type="button"
+              className={`${styles.modeButton} ${mode === m.mode ? styles.active : ''}`}
+              aria-pressed={mode === m.mode}
+              title={m.hint}
+              onClick={() => setMode(m.mode)}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+
+        <label className={styles.field}>
+          <span className={styles.fieldLabel}>Your name</span>
+          <input
+            className={styles.input}
+            value={author}
+            onChange={(event) => handleAuthorChange(event.target.value)}
+            placeholder="Shown on your comments"
+          />
+        </label>
+
+        {visible.some((a) => a.comments.length > 0) ? (
+          <ol className={styles.noteList}>
+            {visible
+              .filter((a) => a.comments.length > 0)
+              .map((annotation) => (
+                <li key={annotation.id}>
+                  <button
+                    type="button"
+                    className={`${styles.noteButton} ${annotation.resolved ? styles.resolved : ''}`}
+                    onClick={() => scrollToNote(annotation)}
+                  >
+                    <span className={styles.noteNumber}>{annotation.number}</span>
+                    <span className={styles.noteText}>{annotation.comments[0].text}</span>
+                    {annotation.comments.length > 1 && (
+                      <span className={styles.replyCount}>+{annotation.comments.length - 1}</span>
+                    )}
+                  </button>
+                </li>
+              ))}
+          </ol>
+        ) : (
+          <p className={styles.empty}>{MODES.find((m) => m.mode === mode)?.hint}.</p>
+        )}
+
+        <label className={styles.toggle}>
+          <input
+            type="checkbox"
+            className={styles.checkbox}
+            checked={showResolved}
+            onChange={(event) => setShowResolved(event.target.checked)}
+          />
+          Show resolved ({resolvedCount})
+        </label>
+
+        <div className={styles.panelActions}>
+          <button type="button" className={styles.textButton} onClick={handleExport}>
+            Export
+          </button>
+          <label className={styles.textButton}>
+            Import
+            <input
+              type="file"
+              accept="application/json,.json"
+              className={styles.fileInput}
+              onChange={(event) => {
+                handleImport(event.target.files?.[0]);
+                event.target.value = '';
+              }}
+            />
+          </label>
+          <button
+            type="button"
+            className={`${styles.textButton} ${styles.danger}`}
+            onClick={handleClear}
+            disabled={annotations.length === 0}
+          >
+            Clear
+          </button>
+        </div>
+
+        <p className={styles.status} role="status">
+          {status}
+        </p>
+      </aside>
+    </div>
+  );
+}
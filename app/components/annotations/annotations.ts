@@ -0,0 +1,254 @@
+// Design review notes: numbered pins and rectangles with a comment thread each.
+//
+// Notes are saved in the browser (localStorage), separately for every
+// prototype and every viewport size, because a layout that works on a laptop
+// can be the thing being criticised on a phone. Reviewers hand their notes
+// over as a JSON file: export on one machine, import on the other.
+
+import { downloadBlob } from '../../lib/download';
+
+/** A note either points at one spot or outlines an area. Positions are page pixels. */
+export type AnnotationShape =
+  | { kind: 'pin'; x: number; y: number }
+  | { kind: 'rect'; x: number; y: number; width: number; height: number };
+
+/**
+ * A pin dropped on an element also remembers which element, and where on it
+ * (as fractions of its size), so it stays put if the layout shifts around.
+ */
+export interface AnnotationAnchor {
+  selector: string;
+  fx: number;
+  fy: number;
+}
+
+export interface AnnotationComment {
+  id: string;
+  author: string;
+  text: string;
+  /** ISO date */
+  created: string;
+}
+
+export interface Annotation {
+  id: string;
+  /** Shown on the pin, counting up from 1 */
+  number: number;
+  shape: AnnotationShape;
+  anchor?: AnnotationAnchor;
+  comments: AnnotationComment[];
+  resolved: boolean;
+}
+
+/** Viewport sizes that get their own set of notes, by width */
+export const VIEWPORTS = [
+  { name: 'phone', maxWidth: 639 },
+  { name: 'tablet', maxWidth: 1023 },
+  { name: 'laptop', maxWidth: 1439 },
+  { name: 'desktop', maxWidth: Infinity },
+] as const;
+
+export type ViewportName = (typeof VIEWPORTS)[number]['name'];
+
+export const viewportFor = (width: number): ViewportName =>
+  VIEWPORTS.find((viewport) => width <= viewport.maxWidth)!.name;
+
+export const createId = () => Math.random().toString(36).slice(2, 10);
+
+export const nextNumber = (annotations: Annotation[]) =>
+  annotations.reduce((highest, a) => Math.max(highest, a.number), 0) + 1;
+
+// ----- Pinning to elements -----
+
+/**
+ * A CSS selector that finds `element` again later, e.g. "main > div:nth-of-type(2) > button".
+ * It stops early at an element with an id, since ids are unique.
+ */
+export function selectorFor(element: Element): string {
+  const parts: string[] = [];
+  let current: Element | null = element;
+  while (current && current !== document.body && current !== document.documentElement) {
+    if (current.id) {
+      parts.unshift(`#${CSS.escape(current.id)}`);
+      break;
+    }
+    const tag = current.tagName.toLowerCase();
+    const sameTag = current.parentElement
+      ? [...current.parentElement.children].filter((child) => child.tagName === current!.tagName)
+      : [];
+    parts.unshift(sameTag.length > 1 ? `${tag}:nth-of-type(${sameTag.indexOf(current) + 1})` : tag);
+    current = current.parentElement;
+  }
+  return parts.join(' > ');
+}
+
+/** Where a note's pin or box is now, following its element if it has one */
+export function currentShape(annotation: Annotation): AnnotationShape {
+  const { shape, anchor } = annotation;
+  if (shape.kind !== 'pin' || !anchor) return shape;
+  let element: Element | null = null;
+  try {
+    element = document.querySelector(anchor.selector);
+  } catch {
+    // A selector that no longer parses just falls back to the saved position
+  }
+  if (!element) return shape;
+  const rect = element.getBoundingClientRect();
+  return {
+    kind: 'pin',
+    x: rect.left + window.scrollX + rect.width * anchor.fx,
+    y: rect.top + window.scrollY + rect.height * anchor.fy,
+  };
+}
+
+// ----- localStorage -----
+
+const STORAGE_PREFIX = 'prototypes:annotations';
+const AUTHOR_KEY = `${STORAGE_PREFIX}:author`;
+
+const storageKey = (prototype: string, viewport: ViewportName) => `${STORAGE_PREFIX}:${prototype}:${viewport}`;
+
+export function loadAnnotations(prototype: string, viewport: ViewportName): Annotation[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(storageKey(prototype, viewport)) ?? '[]');
+    return parseAnnotations(saved);
+  } catch {
+    return [];
+  }
+}
+
+/** False if the browser wouldn't save them (storage blocked or full) */
+export function saveAnnotations(prototype: string, viewport: ViewportName, annotations: Annotation[]) {
+  const key = storageKey(prototype, viewport);
+  try {
+    if (annotations.length === 0) localStorage.removeItem(key);
+    else localStorage.setItem(key, JSON.stringify(annotations));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function loadAuthor() {
+  try {
+    return localStorage.getItem(AUTHOR_KEY) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+export function saveAuthor(author: string) {
+  try {
+    localStorage.setItem(AUTHOR_KEY, author);
+  } catch {
+    // Not worth a warning: the name is still used for the rest of this visit
+  }
+}
+
+// ----- Reading saved and imported notes -----
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isObject = (value: unknown): value is Record<string, unknown> => Boolean(value) && typeof value === 'object';
+
+function parseShape(raw: unknown): AnnotationShape | null {
+  if (!isObject(raw) || !isNumber(raw.x) || !isNumber(raw.y)) return null;
+  if (raw.kind === 'pin') return { kind: 'pin', x: raw.x, y: raw.y };
+  if (raw.kind === 'rect' && isNumber(raw.width) && isNumber(raw.height)) {
+    return { kind: 'rect', x: raw.x, y: raw.y, width: raw.width, height: raw.height };
+  }
+  return null;
+}
+
+function parseComment(raw: unknown): AnnotationComment | null {
+  if (!isObject(raw) || typeof raw.text !== 'string') return null;
+  return {
+    id: typeof raw.id === 'string' ? raw.id : createId(),
+    author: typeof raw.author === 'string' ? raw.author : '',
+    text: raw.text,
+    created: typeof raw.created === 'string' ? raw.created : new Date().toISOString(),
+  };
+}
+
+function parseAnnotation(raw: unknown): Annotation | null {
+  if (!isObject(raw)) return null;
+  const shape = parseShape(raw.shape);
+  if (!shape || typeof raw.id !== 'string' || !isNumber(raw.number)) return null;
+  const rawAnchor = raw.anchor;
+  const anchor =
+    isObject(rawAnchor) && typeof rawAnchor.selector === 'string' && isNumber(rawAnchor.fx) && isNumber(rawAnchor.fy)
+      ? { selector: rawAnchor.selector, fx: rawAnchor.fx, fy: rawAnchor.fy }
+      : undefined;
+  const comments = Array.isArray(raw.comments) ? raw.comments.flatMap((c) => parseComment(c) ?? []) : [];
+  return { id: raw.id, number: raw.number, shape, anchor, comments, resolved: raw.resolved === true };
+}
+
+/** Keeps every note that can be read, quietly skipping broken ones */
+export function parseAnnotations(raw: unknown): Annotation[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((item) => parseAnnotation(item) ?? []);
+}
+
+// ----- Files -----
+
+/** What an exported file looks like */
+export interface AnnotationExport {
+  format: 'prototype-annotations';
+  version: 1;
+  prototype: string;
+  viewport: ViewportName;
+  /** The exact window size the notes were made at, for reference */
+  size: { width: number; height: number };
+  exported: string;
+  annotations: Annotation[];
+}
+
+export function exportAnnotations(prototype: string, viewport: ViewportName, annotations: Annotation[]) {
+  const file: AnnotationExport = {
+    format: 'prototype-annotations',
+    version: 1,
+    prototype,
+    viewport,
+    size: { width: window.innerWidth, height: window.innerHeight },
+    exported: new Date().toISOString(),
+    annotations,
+  };
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `${prototype}-${viewport}-notes.json`);
+}
+
+/**
+ * Reads an exported file. Throws an Error with a message to show the user if
+ * it isn't one, or if it was made for a different prototype.
+ */
+export async function importAnnotationFile(file: File, prototype: string) {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} isn't a JSON file`);
+  }
+  if (!isObject(data) || data.format !== 'prototype-annotations') {
+    throw new Error(`${file.name} isn't an exported notes file`);
+  }
+  if (data.prototype !== prototype) {
+    throw new Error(`Those notes are for "${String(data.prototype)}", not this prototype`);
+  }
+  const viewport = VIEWPORTS.find((v) => v.name === data.viewport)?.name;
+  return { viewport, annotations: parseAnnotations(data.annotations) };
+}
+
+/**
+ * Adds imported notes to the current ones. A note that's already here (same
+ * id) is replaced by the imported copy. Imported notes keep their numbers
+ * unless another note has it, in which case they get the next free one.
+ */
+export function mergeAnnotations(current: Annotation[], imported: Annotation[]) {
+  const merged = current.filter((a) => !imported.some((i) => i.id === a.id));
+  for (const annotation of imported) {
+    // A file that lists a note twice only adds it once
+    if (merged.some((a) => a.id === annotation.id)) continue;
+    const taken = merged.some((a) => a.number === annotation.number);
+    merged.push(taken ? { ...annotation, number: nextNumber(merged) } : annotation);
+  }
+  return merged.sort((a, b) => a.number - b.number);
+}
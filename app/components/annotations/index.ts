@@ -0,0 +1,27 @@
+// Design review notes: numbered pins and boxes with comment threads, laid
+// over a prototype and saved per prototype and viewport size.
+//
+// The shared frame already turns this on for every prototype (the ✎ button,
+// or press c). To use it somewhere else:
+//
+//   <AnnotationOverlay prototype="my-prototype" onClose={() => setReviewing(false)} />
+
+export { AnnotationOverlay } from './AnnotationOverlay';
+export type { AnnotationOverlayProps } from './AnnotationOverlay';
+export {
+  exportAnnotations,
+  importAnnotationFile,
+  loadAnnotations,
+  mergeAnnotations,
+  saveAnnotations,
+  viewportFor,
+  VIEWPORTS,
+} from './annotations';
+export type {
+  Annotation,
+  AnnotationAnchor,
+  AnnotationComment,
+  AnnotationExport,
+  AnnotationShape,
+  ViewportName,
+} from './annotations';
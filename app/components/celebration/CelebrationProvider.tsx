@@ -0,0 +1,46 @@
+'use client';
+
+import { createContext, useContext } from 'react';
+import { ConfettiEffect, EFFECT_PRESETS } from './effects';
+
+export interface CelebrationDefaults {
+  /** Named effects celebrate() can play: the presets plus any added by the provider */
+  effects: ConfettiEffect[];
+  /** Play a chime with every celebration */
+  sound: boolean;
+  /** Buzz the phone with every celebration, where the browser can */
+  haptics: boolean;
+}
+
+const DEFAULTS: CelebrationDefaults = { effects: EFFECT_PRESETS, sound: false, haptics: false };
+
+const CelebrationContext = createContext<CelebrationDefaults>(DEFAULTS);
+
+/** The effects and settings from the nearest CelebrationProvider (or the defaults without one) */
+export const useCelebrationDefaults = () => useContext(CelebrationContext);
+
+/**
+ * Optional: adds your own named effects and turns sound or haptics on for
+ * every useCelebration() inside it. Without a provider, the hook plays the
+ * preset effects silently.
+ */
+export function CelebrationProvider({
+  children,
+  effects = [],
+  sound = false,
+  haptics = false,
+}: {
+  children: React.ReactNode;
+  effects?: ConfettiEffect[];
+  sound?: boolean;
+  haptics?: boolean;
+}) {
+  // Effects added here replace presets with the same name
+  const names = new Set(effects.map((effect) => effect.name));
+  const value: CelebrationDefaults = {
+    effects: [...EFFECT_PRESETS.filter((preset) => !names.has(preset.name)), ...effects],
+    sound,
+    haptics,
+  };
+  return <CelebrationContext.Provider value={value}>{children}</CelebrationContext.Provider>;
+}
@@ -0,0 +1,281 @@
+// Confetti effects: every canvas-confetti option, a few ways of firing them,
+// named presets, and a code snippet export.
+//
+// An effect is plain JSON (so it can be saved, copied or turned into code).
+// Shapes are stored as what you'd type - shape names, emoji, an SVG path -
+// and only turned into canvas-confetti shapes when the effect is fired.
+
+import confetti from 'canvas-confetti';
+
+export type BasicShape = 'square' | 'circle' | 'star';
+
+/**
+ * How an effect is fired:
+ * - burst: one burst from the origin (e.g. the button that was clicked)
+ * - fireworks: bursts at random spots in the sky for `duration` seconds
+ * - sideCannons: streams from the left and right edges for `duration` seconds
+ * - snow: flakes drifting down from the top for `duration` seconds
+ */
+export type EffectPattern = 'burst' | 'fireworks' | 'sideCannons' | 'snow';
+
+export interface ConfettiSettings {
+  /** Per burst; for sideCannons and snow, per animation frame */
+  particleCount: number;
+  spread: number;
+  angle: number;
+  startVelocity: number;
+  decay: number;
+  gravity: number;
+  drift: number;
+  ticks: number;
+  scalar: number;
+  flat: boolean;
+  colors: string[];
+  shapes: BasicShape[];
+  /** Emoji or text to use as confetti, e.g. '🎉✨' (each character is its own shape) */
+  emoji: string;
+  /** An SVG path to use as a confetti shape, e.g. a heart */
+  path: string;
+}
+
+export interface ConfettiEffect {
+  name: string;
+  pattern: EffectPattern;
+  /** Seconds, for every pattern except burst */
+  duration: number;
+  settings: ConfettiSettings;
+}
+
+export const PATTERNS: { value: EffectPattern; label: string }[] = [
+  { value: 'burst', label: 'BURST' },
+  { value: 'fireworks', label: 'FIREWORKS' },
+  { value: 'sideCannons', label: 'CANNONS' },
+  { value: 'snow', label: 'SNOW' },
+];
+
+export const BASIC_SHAPES: BasicShape[] = ['square', 'circle', 'star'];
+
+// canvas-confetti's own defaults
+const DEFAULT_SETTINGS: ConfettiSettings = {
+  particleCount: 50,
+  spread: 45,
+  angle: 90,
+  startVelocity: 45,
+  decay: 0.9,
+  gravity: 1,
+  drift: 0,
+  ticks: 200,
+  scalar: 1,
+  flat: false,
+  colors: ['#26ccff', '#a25afd', '#ff5e7e', '#88ff5a', '#fcff42'],
+  shapes: ['square', 'circle'],
+  emoji: '',
+  path: '',
+};
+
+const HEART_PATH =
+  'M167 72c19,-38 37,-56 75,-56 42,0 76,33 76,75 0,76 -76,151 -151,227 -76,-76 -151,-151 -151,-227 0,-42 33,-75 75,-75 38,0 57,18 76,56z';
+
+export const EFFECT_PRESETS: ConfettiEffect[] = [
+  {
+    // The prototype's original burst
+    name: 'Classic',
+    pattern: 'burst',
+    duration: 0,
+    settings: {
+      ...DEFAULT_SETTINGS,
+      particleCount: 100,
+      spread: 100,
+      colors: ['#FF69B4', '#00FFFF', '#9932CC'],
+      shapes: ['square'],
+    },
+  },
+  {
+    name: 'Fireworks',
+    pattern: 'fireworks',
+    duration: 3,
+    settings: { ...DEFAULT_SETTINGS, particleCount: 60, spread: 360, startVelocity: 30, ticks: 60 },
+  },
+  {
+    name: 'Side cannons',
+    pattern: 'sideCannons',
+    duration: 1.5,
+    settings: { ...DEFAULT_SETTINGS, particleCount: 3, spread: 55, colors: ['#bb0000', '#ffffff'] },
+  },
+  {
+    name: 'Snow',
+    pattern: 'snow',
+    duration: 4,
+    settings: {
+      ...DEFAULT_SETTINGS,
+      particleCount: 1,
+      startVelocity: 0,
+      gravity: 0.4,
+      drift: 0.3,
+      ticks: 300,
+      scalar: 0.8,
+      flat: true,
+      colors: ['#ffffff', '#dff3ff'],
+      shapes: ['circle'],
+    },
+  },
+  {
+    name: 'Emoji',
+    pattern: 'burst',
+    duration: 0,
+    settings: { ...DEFAULT_SETTINGS, particleCount: 30, spread: 90, scalar: 2, flat: true, emoji: '🎉✨🦄' },
+  },
+  {
+    name: 'Hearts',
+    pattern: 'burst',
+    duration: 0,
+    settings: { ...DEFAULT_SETTINGS, particleCount: 40, spread: 80, colors: ['#ff4d6d', '#ff8fab'], path: HEART_PATH },
+  },
+];
+
+/** Where a burst starts, as fractions of the viewport (0..1), like canvas-confetti's origin */
+export interface Origin {
+  x: number;
+  y: number;
+}
+
+/** The middle of an element, as a confetti origin */
+export function originFromElement(element: Element): Origin {
+  const rect = element.getBoundingClientRect();
+  return {
+    x: (rect.left + rect.width / 2) / window.innerWidth,
+    y: (rect.top + rect.height / 2) / window.innerHeight,
+  };
+}
+
+/** Splits text into characters, keeping emoji like 🧑‍🚀 in one piece */
+const splitCharacters = (text: string) =>
+  [...new Intl.Segmenter().segment(text)].map((part) => part.segment).filter((part) => part.trim() !== '');
+
+// The settings as canvas-confetti options (turning emoji and paths into shapes)
+function toOptions({ emoji, path, shapes, ...settings }: ConfettiSettings): confetti.Options {
+  const custom = [
+    ...splitCharacters(emoji).map((text) => confetti.shapeFromText({ text, scalar: settings.scalar })),
+    ...(path.trim() ? [confetti.shapeFromPath({ path: path.trim() })] : []),
+  ];
+  return { ...settings, shapes: custom.length > 0 ? custom : shapes };
+}
+
+// With reduced motion: one small, slow, short burst and nothing that keeps going
+function calmed(effect: ConfettiEffect): ConfettiEffect {
+  return {
+    ...effect,
+    pattern: 'burst',
+    settings: {
+      ...effect.settings,
+      particleCount: Math.min(effect.settings.particleCount, 20),
+      spread: Math.min(effect.settings.spread, 60),
+      startVelocity: Math.min(effect.settings.startVelocity, 20),
+      ticks: Math.min(effect.settings.ticks, 80),
+      flat: true,
+    },
+  };
+}
+
+const random = (min: number, max: number) => Math.random() * (max - min) + min;
+
+/**
+ * Fires an effect. Bursts start at `origin`; the other patterns use the
+ * whole screen. Returns a function that stops the effect early (handy when a
+ * component unmounts). Confetti already in the air finishes falling, and
+ * confetti from other effects isn't touched.
+ */
+export function fireEffect(effect: ConfettiEffect, origin: Origin, { reducedMotion = false } = {}) {
+  const { pattern, duration, settings } = reducedMotion ? calmed(effect) : effect;
+  const options = toOptions(settings);
+  const end = Date.now() + duration * 1000;
+  let frame: number | undefined;
+  let interval: ReturnType<typeof setInterval> | undefined;
+
+  switch (pattern) {
+    case 'burst':
+      confetti({ ...options, origin });
+      break;
+    case 'fireworks':
+      interval = setInterval(() => {
+        if (Date.now() > end) return clearInterval(interval);
+        confetti({ ...options, origin: { x: random(0.1, 0.9), y: random(0.1, 0.5) } });
+      }, 250);
+      break;
+    case 'sideCannons': {
+      const fire = () => {
+        confetti({ ...options, angle: 60, origin: { x: 0, y: 0.65 } });
+        confetti({ ...options, angle: 120, origin: { x: 1, y: 0.65 } });
+        if (Date.now() < end) frame = requestAnimationFrame(fire);
+      };
+      fire();
+      break;
+    }
+    case 'snow': {
+      const fall = () => {
+        confetti({ ...options, origin: { x: Math.random(), y: random(-0.2, 0) } });
+        if (Date.now() < end) frame = requestAnimationFrame(fall);
+      };
+      fall();
+      break;
+    }
+  }
+
+  return () => {
+    if (frame !== undefined) cancelAnimationFrame(frame);
+    clearInterval(interval);
+  };
+}
+
+// ----- Code export -----
+
+// The options as code; emoji and paths become shapeFromText / shapeFromPath calls
+function optionsCode({ emoji, path, shapes, ...settings }: ConfettiSettings) {
+  const custom = [
+    ...splitCharacters(emoji).map(
+      (text) => `confetti.shapeFromText({ text: ${JSON.stringify(text)}, scalar: ${settings.scalar} })`
+    ),
+    ...(path.trim() ? [`confetti.shapeFromPath({ path: ${JSON.stringify(path.trim())} })`] : []),
+  ];
+  const lines = Object.entries(settings).map(([key, value]) => `  ${key}: ${JSON.stringify(value)},`);
+  lines.push(custom.length > 0 ? `  shapes: [\n    ${custom.join(',\n    ')},\n  ],` : `  shapes: ${JSON.stringify(shapes)},`);
+  return `{\n${lines.join('\n')}\n}`;
+}
+
+const PATTERN_CODE: Record<EffectPattern, string> = {
+  burst: `  confetti({ ...options, origin });`,
+  fireworks: `  const end = Date.now() + DURATION;
+  const interval = setInterval(() => {
+    if (Date.now() > end) return clearInterval(interval);
+    confetti({ ...options, origin: { x: 0.1 + Math.random() * 0.8, y: 0.1 + Math.random() * 0.4 } });
+  }, 250);`,
+  sideCannons: `  const end = Date.now() + DURATION;
+  (function fire() {
+    confetti({ ...options, angle: 60, origin: { x: 0, y: 0.65 } });
+    confetti({ ...options, angle: 120, origin: { x: 1, y: 0.65 } });
+    if (Date.now() < end) requestAnimationFrame(fire);
+  })();`,
+  snow: `  const end = Date.now() + DURATION;
+  (function fall() {
+    confetti({ ...options, origin: { x: Math.random(), y: Math.random() * -0.2 } });
+    if (Date.now() < end) requestAnimationFrame(fall);
+  })();`,
+};
+
+/** A self-contained snippet that fires the effect, to paste into another prototype */
+export function effectToSnippet(effect: ConfettiEffect) {
+  const burst = effect.pattern === 'burst';
+  return `import confetti from 'canvas-confetti';
+
+// "${effect.name}" confetti, made in the confetti button prototype's effects studio.
+// Call celebrate() from a click handler${burst ? '; pass an origin (0..1 across the screen) to move the burst' : ''}.
+${burst ? '' : `const DURATION = ${Math.round(effect.duration * 1000)};\n\n`}export function celebrate(${burst ? 'origin = { x: 0.5, y: 0.6 }' : ''}) {
+  // Skip the animation for people who asked their system for less motion
+  if (window.matchMedia('(prefers-reduced-motion: reduce)').matches) return;
+
+  const options = ${optionsCode(effect.settings).replace(/\n/g, '\n  ')};
+
+${PATTERN_CODE[effect.pattern]}
+}
+`;
+}
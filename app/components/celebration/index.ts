@@ -0,0 +1,23 @@
+// Confetti celebrations for any prototype.
+//
+//   const { celebrate, celebrating } = useCelebration();
+//   celebrate('Fireworks');
+//
+// Effects are plain objects (see effects.ts); the confetti button prototype
+// has a studio to design new ones. Wrap a prototype in <CelebrationProvider>
+// to add your own effects or turn on sound and haptics everywhere.
+
+export { useCelebration } from './useCelebration';
+export type { CelebrationOptions, CelebrateOptions } from './useCelebration';
+export { CelebrationProvider } from './CelebrationProvider';
+export { useReducedMotion } from './useReducedMotion';
+export {
+  EFFECT_PRESETS,
+  PATTERNS,
+  BASIC_SHAPES,
+  fireEffect,
+  originFromElement,
+  effectToSnippet,
+} from './effects';
+export type { ConfettiEffect, ConfettiSettings, EffectPattern, BasicShape, Origin } from './effects';
+export { playChime, vibrate } from './sound';
@@ -0,0 +1,38 @@
+// A short rising chime for celebrations, made with Web Audio so there's no
+// sound file to load. Browsers only allow audio after the visitor has
+// interacted with the page, so call it from a click (or similar) handler.
+
+let context: AudioContext | null = null;
+
+// C6, E6, G6: a quick major arpeggio
+const CHIME_NOTES = [1046.5, 1318.5, 1568];
+const NOTE_GAP = 0.07;
+const NOTE_LENGTH = 0.25;
+const VOLUME = 0.15;
+
+export function playChime() {
+  if (typeof AudioContext === 'undefined') return;
+  const audio = (context ??= new AudioContext());
+  if (audio.state === 'suspended') audio.resume();
+
+  const start = audio.currentTime;
+  CHIME_NOTES.forEach((frequency, index) => {
+    const time = start + index * NOTE_GAP;
+    const oscillator = audio.createOscillator();
+    const gain = audio.createGain();
+    oscillator.type = 'sine';
+    oscillator.frequency.value = frequency;
+    // Quick attack, then fade out so the note doesn't click
+    gain.gain.setValueAtTime(0, time);
+    gain.gain.linearRampToValueAtTime(VOLUME, time + 0.01);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + NOTE_LENGTH);
+    oscillator.connect(gain).connect(audio.destination);
+    oscillator.start(time);
+    oscillator.stop(time + NOTE_LENGTH);
+  });
+}
+
+/** A short buzz on phones that support it; does nothing elsewhere */
+export function vibrate(pattern: number | number[] = [30, 40, 30]) {
+  if (typeof navigator !== 'undefined' && 'vibrate' in navigator) navigator.vibrate(pattern);
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { ConfettiEffect, Origin, fireEffect, originFromElement } from './effects';
+import { useCelebrationDefaults } from './CelebrationProvider';
+import { useReducedMotion } from './useReducedMotion';
+import { playChime, vibrate } from './sound';
+
+export interface CelebrationOptions {
+  /** How long `celebrating` stays true, for a button's animation class (ms) */
+  animationMs?: number;
+  /** Celebrations closer together than this are ignored (ms) */
+  throttleMs?: number;
+  /** Override the provider's sound and haptics settings */
+  sound?: boolean;
+  haptics?: boolean;
+}
+
+export interface CelebrateOptions {
+  /** Burst from the middle of this element (e.g. the button that was clicked) */
+  from?: Element | null;
+  /** Or from this point, as fractions of the screen (0..1) */
+  origin?: Origin;
+}
+
+const DEFAULT_EFFECT = 'Classic';
+const DEFAULT_ORIGIN: Origin = { x: 0.5, y: 0.6 };
+
+/**
+ * Confetti for any event. Call `celebrate('Fireworks')` (or pass an effect
+ * from the confetti studio) and use `celebrating` to add an animation class
+ * while it plays:
+ *
+ *   const { celebrate, celebrating } = useCelebration();
+ *   <button
+ *     className={celebrating ? styles.pop : ''}
+ *     onClick={(e) => celebrate('Emoji', { from: e.currentTarget })}
+ *   />
+ *
+ * Quick repeat calls are throttled, reduced motion is respected, and any
+ * effect still running stops when the component unmounts.
+ */
+export function useCelebration({ animationMs = 300, throttleMs = 500, sound, haptics }: CelebrationOptions = {}) {
+  const defaults = useCelebrationDefaults();
+  const reducedMotion = useReducedMotion();
+  const [celebrating, setCelebrating] = useState(false);
+  const lastCelebration = useRef(0);
+  const animationTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  // Stops the effect this hook last fired
+  const stopEffect = useRef<(() => void) | undefined>(undefined);
+
+  useEffect(
+    () => () => {
+      clearTimeout(animationTimer.current);
+      stopEffect.current?.();
+    },
+    []
+  );
+
+  /** Plays an effect by name (or an effect object). Returns false if it was throttled or not found. */
+  const celebrate = (effect: string | ConfettiEffect = DEFAULT_EFFECT, { from, origin }: CelebrateOptions = {}) => {
+    const now = Date.now();
+    if (now - lastCelebration.current < throttleMs) return false;
+
+    const chosen = typeof effect === 'string' ? defaults.effects.find((e) => e.name === effect) : effect;
+    if (!chosen) return false;
+    lastCelebration.current = now;
+
+    const start = from ? originFromElement(from) : origin ?? DEFAULT_ORIGIN;
+    // A new celebration takes over from one that's still going (its confetti keeps falling)
+    stopEffect.current?.();
+    stopEffect.current = fireEffect(chosen, start, { reducedMotion });
+    if (sound ?? defaults.sound) playChime();
+    if (haptics ?? defaults.haptics) vibrate();
+
+    setCelebrating(true);
+    clearTimeout(animationTimer.current);
+    animationTimer.current = setTimeout(() => setCelebrating(false), animationMs);
+    return true;
+  };
+
+  return { celebrate, celebrating, reducedMotion, effects: defaults.effects };
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { useRef } from 'react';
+import styles from './controls.module.css';
+import { usePointerDrag } from './usePointerDrag';
+import { ControlRange, clamp, formatValue, positionToValue, valueForKey, valueToPosition } from './scale';
+import type { KnobProps } from './Knob';
+
+export interface FaderProps extends Omit<KnobProps, 'children'> {
+  orientation?: 'vertical' | 'horizontal';
+}
+
+// Dragging with Shift held moves this many times slower
+const FINE_FACTOR = 10;
+
+/**
+ * A straight slider, like a mixing desk fader. Press anywhere on the track
+ * to jump there, then drag (hold Shift for fine adjustment). Double-click and
+ * the keyboard work the same as on a Knob.
+ */
+export function Fader({
+  value,
+  onChange,
+  min,
+  max,
+  label,
+  defaultValue,
+  taper,
+  step,
+  unit = '',
+  precision,
+  format,
+  className = '',
+  orientation = 'vertical',
+}: FaderProps) {
+  const range: ControlRange = { min, max, taper, step };
+  const position = valueToPosition(value, range);
+  const initialValue = useRef(value).current;
+  const trackRef = useRef<HTMLDivElement>(null);
+  const dragPosition = useRef(position);
+  const vertical = orientation === 'vertical';
+
+  const { dragging, handlers } = usePointerDrag({
+    onStart: (event) => {
+      const rect = trackRef.current?.getBoundingClientRect();
+      // Fine adjustment starts from where the fader is, instead of jumping
+      if (!rect || event.shiftKey) {
+        dragPosition.current = position;
+        return;
+      }
+      dragPosition.current = vertical
+        ? clamp((rect.bottom - event.clientY) / rect.height, 0, 1)
+        : clamp((event.clientX - rect.left) / rect.width, 0, 1);
+      onChange(positionToValue(dragPosition.current, range));
+    },
+    onDrag: (dx, dy, event) => {
+      const rect = trackRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      const moved = vertical ? -dy / rect.height : dx / rect.width;
+      const scale = event.shiftKey ? 1 / FINE_FACTOR : 1;
+      dragPosition.current = clamp(dragPosition.current + moved * scale, 0, 1);
+      onChange(positionToValue(dragPosition.current, range));
+    },
+  });
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    const next = valueForKey(event.key, value, range, event.shiftKey);
+    if (next === null) return;
+    event.preventDefault();
+    onChange(next);
+  };
+
+  const display = format ? format(value) : formatValue(value, unit, precision);
+  const percent = `${position * 100}%`;
+
+  return (
+    <div className={`${styles.fader} ${vertical ? styles.vertical : styles.horizontal} ${className}`}>
+      <div
+        ref={trackRef}
+        role="slider"
+        tabIndex={0}
+        aria-label={label}
+        aria-orientation={orientation}
+        aria-valuemin={min}
+        aria-valuemax={max}
+        aria-valuenow={value}
+        aria-valuetext={display}
+        className={`${styles.faderTrack} ${dragging ? styles.dragging : ''}`}
+        onDoubleClick={() => onChange(defaultValue ?? initialValue)}
+        onKeyDown={handleKeyDown}
+        {...handlers}
+      >
+        <div className={styles.faderFill} style={vertical ? { height: percent } : { width: percent }} />
+        <div className={styles.faderThumb} style={vertical ? { bottom: percent } : { left: percent }} />
+      </div>
+      <div className={styles.label}>{label}</div>
+      <div className={styles.value}>{display}</div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import { useRef } from 'react';
+import styles from './controls.module.css';
+import { usePointerDrag } from './usePointerDrag';
+import { ControlRange, Taper, clamp, formatValue, positionToValue, valueForKey, valueToPosition } from './scale';
+
+export interface KnobProps {
+  value: number;
+  onChange: (value: number) => void;
+  min: number;
+  max: number;
+  /** Shown under the knob, and read out by screen readers */
+  label: string;
+  /** Double-click goes back to this (defaults to the value the knob started with) */
+  defaultValue?: number;
+  taper?: Taper;
+  step?: number;
+  unit?: string;
+  /** Decimals to show; picked from the size of the value when left out */
+  precision?: number;
+  /** Custom value display, instead of the number and unit */
+  format?: (value: number) => string;
+  className?: string;
+  /** Extra content after the label (e.g. a badge) */
+  children?: React.ReactNode;
+}
+
+// Pixels of dragging for the full range, normally and with Shift held for fine adjustment
+const DRAG_PIXELS = 200;
+const FINE_DRAG_PIXELS = 2000;
+
+/**
+ * A rotary knob. Drag up/right to turn it up (hold Shift for fine
+ * adjustment), double-click to reset, or focus it and use the keyboard like
+ * any slider: arrows, Page Up/Down, Home/End.
+ */
+export function Knob({
+  value,
+  onChange,
+  min,
+  max,
+  label,
+  defaultValue,
+  taper,
+  step,
+  unit = '',
+  precision,
+  format,
+  className = '',
+  children,
+}: KnobProps) {
+  const range: ControlRange = { min, max, taper, step };
+  const position = valueToPosition(value, range);
+  const initialValue = useRef(value).current;
+  // Where the drag has got to, before snapping to a step
+  const dragPosition = useRef(position);
+
+  const { dragging, handlers } = usePointerDrag({
+    onStart: () => {
+      dragPosition.current = position;
+    },
+    onDrag: (dx, dy, event) => {
+      const pixels = event.shiftKey ? FINE_DRAG_PIXELS : DRAG_PIXELS;
+      dragPosition.current = clamp(dragPosition.current + (dx - dy) / pixels, 0, 1);
+      onChange(positionToValue(dragPosition.current, range));
+    },
+  });
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    const next = valueForKey(event.key, value, range, event.shiftKey);
+    if (next === null) return;
+    event.preventDefault();
+    onChange(next);
+  };
+
+  const display = format ? format(value) : formatValue(value, unit, precision);
+  const rotation = position * 270 - 135; // -135 to 135 degrees
+
+  return (
+    <div className={`${styles.knob} ${className}`}>
+      <div
+        role="slider"
+        tabIndex={0}
+        aria-label={label}
+        aria-valuemin={min}
+        aria-valuemax={max}
+        aria-valuenow={value}
+        aria-valuetext={display}
+        className={`${styles.knobBody} ${dragging ? styles.dragging : ''}`}
+        style={{ transform: `rotate(${rotation}deg)` }}
+        onDoubleClick={() => onChange(defaultValue ?? initialValue)}
+        onKeyDown={handleKeyDown}
+        {...handlers}
+      >
+        <div className={styles.knobIndicator} />
+      </div>
+      <div className={styles.label}>
+        {label}
+        {children}
+      </div>
+      <div className={styles.value}>{display}</div>
+    </div>
+  );
+}
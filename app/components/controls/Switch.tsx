@@ -0,0 +1,36 @@
+'use client';
+
+import styles from './controls.module.css';
+
+export interface SwitchProps {
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  label: string;
+  /** Text inside the switch for each state, e.g. 'ON' / 'OFF' */
+  onText?: string;
+  offText?: string;
+  className?: string;
+}
+
+/**
+ * An on/off toggle. It's a real button with role="switch", so Space and
+ * Enter flip it and screen readers announce "on" or "off".
+ */
+export function Switch({ checked, onChange, label, onText = 'ON', offText = 'OFF', className = '' }: SwitchProps) {
+  return (
+    <div className={`${styles.switch} ${className}`}>
+      <button
+        type="button"
+        role="switch"
+        aria-checked={checked}
+        aria-label={label}
+        className={`${styles.switchButton} ${checked ? styles.on : ''}`}
+        onClick={() => onChange(!checked)}
+      >
+        <span className={styles.switchLight} aria-hidden="true" />
+        {checked ? onText : offText}
+      </button>
+      <div className={styles.label}>{label}</div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { useRef } from 'react';
+import styles from './controls.module.css';
+import { usePointerDrag } from './usePointerDrag';
+import { ControlRange, clamp, formatValue, positionToValue, valueForKey, valueToPosition } from './scale';
+
+export interface XYPadProps {
+  x: number;
+  y: number;
+  onChange: (x: number, y: number) => void;
+  xRange: ControlRange;
+  yRange: ControlRange;
+  label: string;
+  xLabel?: string;
+  yLabel?: string;
+  xUnit?: string;
+  yUnit?: string;
+  /** Double-click goes back to these (default: the values the pad started with) */
+  defaultX?: number;
+  defaultY?: number;
+  className?: string;
+}
+
+// Dragging with Shift held moves this many times slower
+const FINE_FACTOR = 10;
+
+/**
+ * Two values on one square: left/right is X, up/down is Y. Press anywhere to
+ * jump there and drag around (hold Shift for fine adjustment). From the
+ * keyboard, Left/Right change X and Up/Down change Y.
+ */
+export function XYPad({
+  x,
+  y,
+  onChange,
+  xRange,
+  yRange,
+  label,
+  xLabel = 'X',
+  yLabel = 'Y',
+  xUnit = '',
+  yUnit = '',
+  defaultX,
+  defaultY,
+  className = '',
+}: XYPadProps) {
+  const padRef = useRef<HTMLDivElement>(null);
+  const initial = useRef({ x, y }).current;
+  const xPosition = valueToPosition(x, xRange);
+  const yPosition = valueToPosition(y, yRange);
+  const dragPosition = useRef({ x: xPosition, y: yPosition });
+
+  const update = () => {
+    onChange(positionToValue(dragPosition.current.x, xRange), positionToValue(dragPosition.current.y, yRange));
+  };
+
+  const { dragging, handlers } = usePointerDrag({
+    onStart: (event) => {
+      const rect = padRef.current?.getBoundingClientRect();
+      if (!rect || event.shiftKey) {
+        dragPosition.current = { x: xPosition, y: yPosition };
+        return;
+      }
+      dragPosition.current = {
+        x: clamp((event.clientX - rect.left) / rect.width, 0, 1),
+        y: clamp((rect.bottom - event.clientY) / rect.height, 0, 1),
+      };
+      update();
+    },
+    onDrag: (dx, dy, event) => {
+      const rect = padRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      const scale = event.shiftKey ? 1 / FINE_FACTOR : 1;
+      dragPosition.current = {
+        x: clamp(dragPosition.current.x + (dx / rect.width) * scale, 0, 1),
+        y: clamp(dragPosition.current.y - (dy / rect.height) * scale, 0, 1),
+      };
+      update();
+    },
+  });
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    const horizontal = event.key === 'ArrowLeft' || event.key === 'ArrowRight';
+    const vertical = event.key === 'ArrowUp' || event.key === 'ArrowDown' || event.key.startsWith('Page');
+    if (horizontal) {
+      const next = valueForKey(event.key, x, xRange, event.shiftKey);
+      if (next !== null) onChange(next, y);
+    } else if (vertical) {
+      const next = valueForKey(event.key, y, yRange, event.shiftKey);
+      if (next !== null) onChange(x, next);
+    } else if (event.key === 'Home') {
+      onChange(xRange.min, yRange.min);
+    } else if (event.key === 'End') {
+      onChange(xRange.max, yRange.max);
+    } else {
+      return;
+    }
+    event.preventDefault();
+  };
+
+  const xText = `${xLabel} ${formatValue(x, xUnit)}`;
+  const yText = `${yLabel} ${formatValue(y, yUnit)}`;
+
+  return (
+    <div className={`${styles.xyPad} ${className}`}>
+      <div
+        ref={padRef}
+        role="slider"
+        tabIndex={0}
+        aria-label={label}
+        aria-roledescription="2D slider"
+        aria-valuemin={xRange.min}
+        aria-valuemax={xRange.max}
+        aria-valuenow={x}
+        aria-valuetext={`${xText}, ${yText}`}
+        className={`${styles.xyArea} ${dragging ? styles.dragging : ''}`}
+        onDoubleClick={() => onChange(defaultX ?? initial.x, defaultY ?? initial.y)}
+        onKeyDown={handleKeyDown}
+        {...handlers}
+      >
+        <div className={styles.xyCrosshair} style={{ left: `${xPosition * 100}%` }} />
+        <div className={`${styles.xyCrosshair} ${styles.xyCrosshairHorizontal}`} style={{ bottom: `${yPosition * 100}%` }} />
+        <div className={styles.xyThumb} style={{ left: `${xPosition * 100}%`, bottom: `${yPosition * 100}%` }} />
+      </div>
+      <div className={styles.label}>{label}</div>
+      <div className={styles.value}>
+        {xText} · {yText}
+      </div>
+    </div>
+  );
+}
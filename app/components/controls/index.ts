@@ -0,0 +1,29 @@
+// Knobs, faders, switches and XY pads for any prototype.
+//
+// They all work with mouse, touch and pen (pointer events), can be used from
+// the keyboard, and tell screen readers what they are and what value they're
+// set to. Colours and sizes come from CSS variables, so a prototype can
+// restyle them from its own CSS, e.g.
+//
+//   .synth {
+//     --control-accent: #00ff88;
+//     --control-knob-size: 68px;
+//   }
+
+export { Knob } from './Knob';
+export type { KnobProps } from './Knob';
+export { Fader } from './Fader';
+export type { FaderProps } from './Fader';
+export { Switch } from './Switch';
+export type { SwitchProps } from './Switch';
+export { XYPad } from './XYPad';
+export type { XYPadProps } from './XYPad';
+export { usePointerDrag } from './usePointerDrag';
+export {
+  formatValue,
+  positionToValue,
+  valueToPosition,
+  snapToStep,
+  valueForKey,
+} from './scale';
+export type { Taper, ControlRange } from './scale';
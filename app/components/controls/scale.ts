@@ -0,0 +1,116 @@
+// The maths shared by every control: where a value sits on the control
+// (its "position", 0 at the start and 1 at the end), and how to show it.
+
+/**
+ * How values are spread along a control:
+ * - linear: evenly (the default)
+ * - log: every step multiplies the value by the same amount, so 100 → 200 Hz
+ *   takes as much turning as 1000 → 2000 Hz. Best for frequencies. Needs min > 0.
+ * - exp: most of the travel goes to the small values, for fine control of
+ *   short times (e.g. envelope attack) while still reaching the long ones
+ */
+export type Taper = 'linear' | 'log' | 'exp';
+
+export interface ControlRange {
+  min: number;
+  max: number;
+  taper?: Taper;
+  /** Only allow multiples of this (e.g. 1 for whole numbers) */
+  step?: number;
+}
+
+// The curve used by the 'exp' taper
+const EXP_POWER = 3;
+
+export const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Rounds to the nearest allowed step, without floating point noise like 0.30000000000000004 */
+export function snapToStep(value: number, { min, max, step }: ControlRange) {
+  if (!step) return clamp(value, min, max);
+  const decimals = (String(step).split('.')[1] ?? '').length;
+  const snapped = min + Math.round((value - min) / step) * step;
+  return clamp(Number(snapped.toFixed(decimals)), min, max);
+}
+
+/** 0..1 → value */
+export function positionToValue(position: number, range: ControlRange) {
+  const { min, max, taper = 'linear' } = range;
+  const p = clamp(position, 0, 1);
+  let value: number;
+  if (taper === 'log' && min > 0) {
+    value = min * Math.pow(max / min, p);
+  } else if (taper === 'exp') {
+    value = min + (max - min) * Math.pow(p, EXP_POWER);
+  } else {
+    value = min + (max - min) * p;
+  }
+  return snapToStep(value, range);
+}
+
+/** value → 0..1 */
+export function valueToPosition(value: number, { min, max, taper = 'linear' }: ControlRange) {
+  if (max === min) return 0;
+  const v = clamp(value, min, max);
+  if (taper === 'log' && min > 0) {
+    return Math.log(v / min) / Math.log(max / min);
+  }
+  const linear = (v - min) / (max - min);
+  return taper === 'exp' ? Math.pow(linear, 1 / EXP_POWER) : linear;
+}
+
+/**
+ * A value ready to show, e.g. 1500 'Hz' → '1.50kHz', 0.25 's' → '250ms', 42.3 '%' → '42%'.
+ * Without a `precision`, bigger numbers get fewer decimals.
+ */
+export function formatValue(value: number, unit = '', precision?: number) {
+  let scaled = value;
+  let shownUnit = unit;
+  if (unit === 'Hz' && Math.abs(value) >= 1000) {
+    scaled = value / 1000;
+    shownUnit = 'kHz';
+  } else if (unit === 's' && Math.abs(value) < 1) {
+    scaled = value * 1000;
+    shownUnit = 'ms';
+  }
+
+  const size = Math.abs(scaled);
+  const autoPrecision = unit === '%' || size >= 100 ? 0 : size >= 10 ? 1 : 2;
+  const text = scaled.toFixed(precision ?? autoPrecision);
+  // Don't show "-0" for values that round to zero
+  return `${/^-0(\.0+)?$/.test(text) ? text.slice(1) : text}${shownUnit}`;
+}
+
+// How far one key press moves a control, as a fraction of its travel
+const KEY_STEP = 0.01;
+const PAGE_STEP = 0.1;
+const FINE_KEY_STEP = 0.001;
+
+/**
+ * The value after pressing `key`, like a native slider: arrows move a little
+ * (less with Shift held), Page Up/Down a lot, Home/End jump to the ends.
+ * Returns null for keys a slider doesn't use.
+ */
+export function valueForKey(key: string, value: number, range: ControlRange, fine = false): number | null {
+  if (key === 'Home') return range.min;
+  if (key === 'End') return range.max;
+
+  const directions: Record<string, number> = {
+    ArrowUp: 1,
+    ArrowRight: 1,
+    ArrowDown: -1,
+    ArrowLeft: -1,
+    PageUp: 10,
+    PageDown: -10,
+  };
+  const direction = directions[key];
+  if (direction === undefined) return null;
+
+  const size = Math.abs(direction) === 10 ? PAGE_STEP : fine ? FINE_KEY_STEP : KEY_STEP;
+  const next = positionToValue(valueToPosition(value, range) + Math.sign(direction) * size, range);
+
+  // A key press should always do something, even when the step is bigger than one nudge
+  if (next === value && range.step) {
+    return snapToStep(value + Math.sign(direction) * range.step, range);
+  }
+  return next;
+}
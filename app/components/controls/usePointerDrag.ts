@@ -0,0 +1,55 @@
+'use client';
+
+import { useRef, useState } from 'react';
+
+interface DragCallbacks {
+  /** The pointer went down on the control */
+  onStart?: (event: React.PointerEvent<HTMLElement>) => void;
+  /** The pointer moved by (dx, dy) pixels since the last move */
+  onDrag: (dx: number, dy: number, event: React.PointerEvent<HTMLElement>) => void;
+  /** The button or finger was released (or the browser took the pointer away) */
+  onEnd?: () => void;
+}
+
+/**
+ * Dragging with pointer events, so mouse, pen and touch all work the same way.
+ * The pointer is "captured", which keeps the drag going even when it leaves
+ * the control (or the window) until the button or finger is released.
+ *
+ * Spread `handlers` onto the element being dragged.
+ */
+export function usePointerDrag({ onStart, onDrag, onEnd }: DragCallbacks) {
+  const [dragging, setDragging] = useState(false);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+
+  const end = (event: React.PointerEvent<HTMLElement>) => {
+    if (!lastPoint.current) return;
+    lastPoint.current = null;
+    setDragging(false);
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+    }
+    onEnd?.();
+  };
+
+  const handlers = {
+    onPointerDown: (event: React.PointerEvent<HTMLElement>) => {
+      // Main button only (left click, a finger or the pen tip)
+      if (event.button !== 0) return;
+      event.currentTarget.setPointerCapture(event.pointerId);
+      lastPoint.current = { x: event.clientX, y: event.clientY };
+      setDragging(true);
+      onStart?.(event);
+    },
+    onPointerMove: (event: React.PointerEvent<HTMLElement>) => {
+      const last = lastPoint.current;
+      if (!last) return;
+      lastPoint.current = { x: event.clientX, y: event.clientY };
+      onDrag(event.clientX - last.x, event.clientY - last.y, event);
+    },
+    onPointerUp: end,
+    onPointerCancel: end,
+  };
+
+  return { dragging, handlers };
+}
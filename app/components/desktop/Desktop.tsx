@@ -0,0 +1,238 @@
+'use client';
+
+import { createContext, useContext, useEffect, useRef, useState } from 'react';
+import styles from './desktop.module.css';
+import { DraggableWindow, WindowStackProvider, useWindowOrder } from '../window';
+
+export interface DesktopWindowOptions {
+  /** Opening a window with an id that's already open brings that window back instead */
+  id: string;
+  title: string;
+  content: React.ReactNode;
+  width?: number;
+  height?: number;
+}
+
+interface OpenWindow extends DesktopWindowOptions {
+  minimized: boolean;
+  maximized: boolean;
+  /** Where it first opened, so new windows cascade instead of piling up */
+  offset: number;
+}
+
+interface DesktopValue {
+  windows: OpenWindow[];
+  open: (options: DesktopWindowOptions) => void;
+  close: (id: string) => void;
+  minimize: (id: string) => void;
+  toggleMaximize: (id: string) => void;
+}
+
+const DesktopContext = createContext<DesktopValue | null>(null);
+
+/** Opens and closes windows from anything inside a <Desktop> */
+export function useDesktop() {
+  const desktop = useContext(DesktopContext);
+  if (!desktop) throw new Error('useDesktop must be used inside a <Desktop>');
+  return desktop;
+}
+
+// How far each new window opens from the one before, and after how many it starts over
+const CASCADE_STEP = 28;
+const CASCADE_COUNT = 8;
+
+/**
+ * Keys pressed inside an iframe never reach the page around it, so a page
+ * shown in a desktop window posts this to its parent when Ctrl+` is pressed
+ * ({ type, backwards }). PrototypeFrame does it for every prototype.
+ */
+export const SWITCH_WINDOW_MESSAGE = 'desktop:switch-window';
+
+// Focusing the title bar also brings the window to the front (see DraggableWindow)
+function focusWindow(id: string) {
+  document
+    .querySelector<HTMLElement>(`[data-window-id="${CSS.escape(id)}"] [data-window-bar]`)
+    ?.focus();
+}
+
+export interface DesktopProps {
+  /** Desktop icons, wallpaper content... shown behind the windows */
+  children?: React.ReactNode;
+  /** Shown at the start of the taskbar, e.g. a back link */
+  taskbarStart?: React.ReactNode;
+  className?: string;
+}
+
+/**
+ * A retro desktop: windows you can open, close, minimize, maximize and drag
+ * around, with a taskbar listing them. Ctrl+` brings the next window to the
+ * front (Ctrl+Shift+` goes the other way).
+ *
+ * Anything inside can call useDesktop().open({ id, title, content }) to open
+ * a window. Restyle it by setting --desktop-primary, --desktop-secondary,
+ * --desktop-light and --desktop-background on `className`.
+ */
+export function Desktop(props: DesktopProps) {
+  return (
+    <WindowStackProvider>
+      <DesktopShell {...props} />
+    </WindowStackProvider>
+  );
+}
+
+function DesktopShell({ children, taskbarStart, className = '' }: DesktopProps) {
+  const [windows, setWindows] = useState<OpenWindow[]>([]);
+  const openedCount = useRef(0);
+  const stack = useWindowOrder()!;
+  const windowsRef = useRef(windows);
+  windowsRef.current = windows;
+
+  const setWindow = (id: string, change: Partial<OpenWindow>) => {
+    setWindows((current) => current.map((w) => (w.id === id ? { ...w, ...change } : w)));
+  };
+
+  const visibleOrder = () =>
+    stack.order.filter((id) => windowsRef.current.some((w) => w.id === id && !w.minimized));
+  const frontId = visibleOrder().at(-1);
+
+  const desktop: DesktopValue = {
+    windows,
+    open: (options) => {
+      if (windowsRef.current.some((w) => w.id === options.id)) {
+        setWindow(options.id, { minimized: false });
+        stack.focus(options.id);
+        return;
+      }
+      const offset = openedCount.current++ % CASCADE_COUNT;
+      setWindows((current) => [...current, { ...options, minimized: false, maximized: false, offset }]);
+    },
+    close: (id) => setWindows((current) => current.filter((w) => w.id !== id)),
+    minimize: (id) => {
+      setWindow(id, { minimized: true });
+      stack.sendToBack(id);
+    },
+    toggleMaximize: (id) => {
+      const target = windowsRef.current.find((w) => w.id === id);
+      if (target) setWindow(id, { maximized: !target.maximized });
+    },
+  };
+
+  // Ctrl+` cycles through the open windows, like switching windows in an app.
+  // Returns false if there's nothing to switch to.
+  const switchWindow = (backwards: boolean) => {
+    const visible = visibleOrder();
+    if (visible.length < 2) return false;
+    if (backwards) {
+      // Send the front window to the back; the one behind it comes forward
+      stack.sendToBack(visible[visible.length - 1]);
+      focusWindow(visible[visible.length - 2]);
+    } else {
+      focusWindow(visible[0]);
+    }
+    return true;
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!event.ctrlKey || event.code !== 'Backquote') return;
+      if (switchWindow(event.shiftKey)) event.preventDefault();
+    };
+    // The same shortcut pressed inside a window's iframe (see SWITCH_WINDOW_MESSAGE)
+    const handleMessage = (event: MessageEvent) => {
+      if (event.origin !== window.location.origin || event.data?.type !== SWITCH_WINDOW_MESSAGE) return;
+      switchWindow(Boolean(event.data.backwards));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('message', handleMessage);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('message', handleMessage);
+    };
+  });
+
+  const handleTaskClick = (w: OpenWindow) => {
+    if (w.minimized) {
+      setWindow(w.id, { minimized: false });
+      stack.focus(w.id);
+    } else if (w.id === frontId) {
+      desktop.minimize(w.id);
+    } else {
+      focusWindow(w.id);
+    }
+  };
+
+  return (
+    <DesktopContext.Provider value={desktop}>
+      <div className={`${styles.desktop} ${className}`}>
+        <div className={styles.screen}>
+          {children}
+          {windows.map((w) => (
+            <DraggableWindow
+              key={w.id}
+              id={w.id}
+              storageKey={`desktop:${w.id}`}
+              defaultRect={{
+                x: CASCADE_STEP * (w.offset + 1),
+                y: CASCADE_STEP * (w.offset + 1),
+                width: w.width ?? null,
+                height: w.height ?? null,
+              }}
+              maximized={w.maximized}
+              onBarDoubleClick={() => desktop.toggleMaximize(w.id)}
+              className={`${styles.window} ${w.id === frontId ? styles.front : ''} ${w.minimized ? styles.minimized : ''}`}
+              barClassName={styles.windowBar}
+              contentClassName={styles.windowContent}
+              title={<span className={styles.windowTitle}>{w.title}</span>}
+              actions={
+                <>
+                  <button
+                    type="button"
+                    className={styles.windowButton}
+                    onClick={() => desktop.minimize(w.id)}
+                    aria-label={`Minimize ${w.title}`}
+                  >
+                    _
+                  </button>
+                  <button
+                    type="button"
+                    className={styles.windowButton}
+                    onClick={() => desktop.toggleMaximize(w.id)}
+                    aria-label={`${w.maximized ? 'Restore' : 'Maximize'} ${w.title}`}
+                  >
+                    {w.maximized ? '❐' : '□'}
+                  </button>
+                  <button
+                    type="button"
+                    className={styles.windowButton}
+                    onClick={() => desktop.close(w.id)}
+                    aria-label={`Close ${w.title}`}
+                  >
+                    ×
+                  </button>
+                </>
+              }
+            >
+              {w.content}
+            </DraggableWindow>
+          ))}
+        </div>
+
+        <nav className={styles.taskbar} aria-label="Open windows">
+          {taskbarStart}
+          {windows.map((w) => (
+            <button
+              key={w.id}
+              type="button"
+              className={`${styles.taskButton} ${w.id === frontId ? styles.active : ''}`}
+              aria-pressed={w.id === frontId}
+              onClick={() => handleTaskClick(w)}
+            >
+              {w.title}
+            </button>
+          ))}
+          {windows.length > 1 && <span className={styles.taskHint}>Ctrl+` to switch</span>}
+        </nav>
+      </div>
+    </DesktopContext.Provider>
+  );
+}
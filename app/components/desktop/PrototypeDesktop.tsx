@@ -0,0 +1,53 @@
+'use client';
+
+import Link from 'next/link';
+import styles from './desktop.module.css';
+import { Desktop, useDesktop } from './Desktop';
+import type { PrototypeEntry } from '../../lib/prototypes';
+
+/**
+ * Every prototype as an icon on one desktop. Clicking an icon opens the
+ * prototype in its own window (an iframe, so each one runs on its own page
+ * with its own styles), and several can be open side by side.
+ */
+export function PrototypeDesktop({ prototypes, exitHref }: { prototypes: PrototypeEntry[]; exitHref: string }) {
+  return (
+    <Desktop
+      taskbarStart={
+        <Link href={exitHref} className={styles.taskButton}>
+          ☜ Grid
+        </Link>
+      }
+    >
+      <PrototypeIcons prototypes={prototypes} />
+    </Desktop>
+  );
+}
+
+function PrototypeIcons({ prototypes }: { prototypes: PrototypeEntry[] }) {
+  const desktop = useDesktop();
+
+  const openPrototype = (prototype: PrototypeEntry) =>
+    desktop.open({
+      id: prototype.slug,
+      title: prototype.title,
+      width: 720,
+      height: 480,
+      content: <iframe className={styles.frame} src={prototype.path} title={prototype.title} />,
+    });
+
+  return (
+    <ul className={styles.icons}>
+      {prototypes.map((prototype) => (
+        <li key={prototype.slug}>
+          <button type="button" className={styles.icon} onClick={() => openPrototype(prototype)}>
+            <span className={styles.iconImage} aria-hidden="true">
+              🗔
+            </span>
+            <span className={styles.iconLabel}>{prototype.title}</span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
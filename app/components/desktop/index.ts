@@ -0,0 +1,13 @@
+// A retro desktop with windows and a taskbar.
+//
+// Wrap any content in <Desktop>, then open windows from inside it with
+// useDesktop(). Windows can be dragged, resized, minimized, maximized and
+// cycled with Ctrl+`. A page inside a window's iframe has to forward Ctrl+`
+// with postMessage (see SWITCH_WINDOW_MESSAGE); prototypes already do.
+//
+//   const desktop = useDesktop();
+//   desktop.open({ id: 'notes', title: 'Notes', content: <Notes /> });
+
+export { Desktop, useDesktop, SWITCH_WINDOW_MESSAGE } from './Desktop';
+export type { DesktopProps, DesktopWindowOptions } from './Desktop';
+export { PrototypeDesktop } from './PrototypeDesktop';
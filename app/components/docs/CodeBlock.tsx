@@ -0,0 +1,40 @@
+import styles from './docs.module.css';
+import { Language, highlightLines } from './highlight';
+
+export interface CodeBlockProps {
+  code: string;
+  language: Language;
+  /** Numbers down the left side, handy when talking about "line 12" */
+  lineNumbers?: boolean;
+}
+
+/** Read-only code with syntax highlighting */
+export function CodeBlock({ code, language, lineNumbers = false }: CodeBlockProps) {
+  const lines = highlightLines(code.replace(/\n$/, ''), language);
+
+  return (
+    <pre className={`${styles.code} ${lineNumbers ? styles.numbered : ''}`}>
+      <code>
+        {lines.map((tokens, index) => (
+          <span key={index} className={styles.line}>
+            {lineNumbers && (
+              <span className={styles.lineNumber} aria-hidden="true">
+                {index + 1}
+              </span>
+            )}
+            {tokens.map((token, i) =>
+              token.type === 'plain' ? (
+                token.text
+              ) : (
+                <span key={i} className={styles[token.type]}>
+                  {token.text}
+                </span>
+              )
+            )}
+            {'\n'}
+          </span>
+        ))}
+      </code>
+    </pre>
+  );
+}
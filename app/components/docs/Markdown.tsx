@@ -0,0 +1,184 @@
+import styles from './docs.module.css';
+import { CodeBlock } from './CodeBlock';
+import { languageFor } from './highlight';
+
+export interface MarkdownProps {
+  source: string;
+  /** Turns a relative path from the document into an address, or null if it can't be shown */
+  resolveUrl?: UrlResolver;
+}
+
+type UrlResolver = (path: string) => string | null;
+
+/**
+ * Shows a Markdown document, such as a prototype's README.md.
+ *
+ * It understands the parts READMEs usually use: headings, paragraphs,
+ * bulleted and numbered lists, quotes, horizontal rules, code blocks (with
+ * highlighting), `code`, **bold**, *italic*, links and images. Anything else
+ * shows up as plain text. Raw HTML is never rendered, so a README can't
+ * break the page.
+ *
+ * Relative paths, like `images/sketch.png`, are turned into real addresses
+ * by `resolveUrl`. Ones it can't place (or all of them, without it) show a
+ * note instead of a broken link.
+ */
+export function Markdown({ source, resolveUrl }: MarkdownProps) {
+  return <div className={styles.markdown}>{parseBlocks(source, resolveUrl)}</div>;
+}
+
+/**
+ * Where a link or image should point, or null if it shouldn't be shown.
+ * Web pages, email and files in /public are used as they are. Other schemes
+ * (javascript:, data:...) are never allowed; anything else is a relative path.
+ */
+function safeUrl(url: string, resolveUrl?: UrlResolver) {
+  if (/^(https?:|mailto:|\/|#)/i.test(url)) return url;
+  if (/^[a-z][a-z\d+.-]*:/i.test(url)) return null;
+  return resolveUrl?.(url) ?? null;
+}
+
+/** Turns the inline parts of one line or paragraph (code, bold, links...) into elements */
+function renderInline(text: string, resolveUrl?: UrlResolver, keyPrefix = ''): React.ReactNode[] {
+  const pattern = /`([^`]+)`|(!?)\[([^\]]*)\]\(([^)\s]+)\)|\*\*(.+?)\*\*|\*(.+?)\*|\b_(.+?)_\b/g;
+  const nodes: React.ReactNode[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    const [whole, code, bang, label, url, bold, star, underscore] = match;
+    const index = match.index ?? 0;
+    const key = `${keyPrefix}${index}`;
+    if (index > last) nodes.push(text.slice(last, index));
+    last = index + whole.length;
+
+    if (code !== undefined) {
+      nodes.push(<code key={key} className={styles.inlineCode}>{code}</code>);
+    } else if (url !== undefined) {
+      const href = safeUrl(url, resolveUrl);
+      if (href === null) {
+        // Say what was left out, so the README's author can see why it's missing
+        nodes.push(
+          <span key={key} className={styles.unavailable} title={`${url} can't be shown here`}>
+            {bang ? `[image: ${label || url}]` : renderInline(label, resolveUrl, `${key}-`)}
+            {` (${url} isn't available)`}
+          </span>
+        );
+      } else if (bang) {
+        nodes.push(<img key={key} src={href} alt={label} className={styles.image} />);
+      } else {
+        nodes.push(
+          <a key={key} href={href} className={styles.link}>
+            {renderInline(label, resolveUrl, `${key}-`)}
+          </a>
+        );
+      }
+    } else if (bold !== undefined) {
+      nodes.push(<strong key={key}>{renderInline(bold, resolveUrl, `${key}-`)}</strong>);
+    } else {
+      nodes.push(<em key={key}>{renderInline(star ?? underscore, resolveUrl, `${key}-`)}</em>);
+    }
+  }
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+}
+
+/** Splits the document into blocks (headings, lists, code...) and renders each one */
+function parseBlocks(source: string, resolveUrl?: UrlResolver): React.ReactNode[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: React.ReactNode[] = [];
+  let i = 0;
+
+  const startsBlock = (line: string) => /^(#{1,6}\s|```|>|\s*([-*+]|\d+\.)\s|\s*(---|\*\*\*)\s*$)/.test(line);
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const key = `block-${i}`;
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // ```tsx ... ``` code blocks
+    const fence = line.match(/^```\s*(\S*)/);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].startsWith('```')) code.push(lines[i++]);
+      i++;
+      blocks.push(<CodeBlock key={key} code={code.join('\n')} language={languageFor(fence[1])} />);
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      // README headings start one level down, so the page keeps a single <h1>
+      const level = Math.min(6, heading[1].length + 1);
+      const Heading = `h${level}` as 'h2';
+      blocks.push(
+        <Heading key={key} className={styles.heading}>
+          {renderInline(heading[2], resolveUrl)}
+        </Heading>
+      );
+      i++;
+      continue;
+    }
+
+    if (/^\s*(---|\*\*\*)\s*$/.test(line)) {
+      blocks.push(<hr key={key} className={styles.rule} />);
+      i++;
+      continue;
+    }
+
+    if (line.startsWith('>')) {
+      const quote: string[] = [];
+      while (i < lines.length && lines[i].startsWith('>')) quote.push(lines[i++].replace(/^>\s?/, ''));
+      blocks.push(
+        <blockquote key={key} className={styles.quote}>
+          {parseBlocks(quote.join('\n'), resolveUrl)}
+        </blockquote>
+      );
+      continue;
+    }
+
+    const listItem = /^\s*([-*+]|\d+\.)\s+(.*)$/;
+    const firstItem = line.match(listItem);
+    if (firstItem) {
+      const ordered = /\d/.test(firstItem[1]);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const item = lines[i].match(listItem);
+        if (item) {
+          items.push(item[2]);
+        } else if (lines[i].trim() && /^\s+/.test(lines[i]) && items.length > 0) {
+          // An indented line carries on the item above
+          items[items.length - 1] += ` ${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      const List = ordered ? 'ol' : 'ul';
+      blocks.push(
+        <List key={key} className={styles.list}>
+          {items.map((item, index) => (
+            <li key={index}>{renderInline(item, resolveUrl)}</li>
+          ))}
+        </List>
+      );
+      continue;
+    }
+
+    // Anything else is a paragraph, running until a blank line or another kind of block
+    const paragraph: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) paragraph.push(lines[i++].trim());
+    blocks.push(
+      <p key={key} className={styles.paragraph}>
+        {renderInline(paragraph.join(' '), resolveUrl)}
+      </p>
+    );
+  }
+
+  return blocks;
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { useState } from 'react';
+import styles from './docs.module.css';
+import { CodeBlock } from './CodeBlock';
+import { languageFor } from './highlight';
+
+export interface SourceFile {
+  /** File name shown on its tab, e.g. 'page.tsx' */
+  name: string;
+  code: string;
+}
+
+/**
+ * Several source files side by side as tabs, highlighted and numbered,
+ * with a button to copy the open one. Read-only: it's for learning from
+ * someone else's code, not editing it.
+ */
+export function SourceViewer({ files }: { files: SourceFile[] }) {
+  const [openName, setOpenName] = useState(files[0]?.name);
+  const [copyMessage, setCopyMessage] = useState('');
+  const open = files.find((file) => file.name === openName) ?? files[0];
+
+  if (!open) return <p className={styles.empty}>No source files to show.</p>;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(open.code);
+      setCopyMessage(`Copied ${open.name}`);
+    } catch {
+      setCopyMessage('Select the code and copy it by hand');
+    }
+  };
+
+  return (
+    <div className={styles.viewer}>
+      <div className={styles.tabs} role="tablist" aria-label="Source files">
+        {files.map((file) => (
+          <button
+            key={file.name}
+            type="button"
+            role="tab"
+            aria-selected={file === open}
+            className={`${styles.tab} ${file === open ? styles.selected : ''}`}
+            onClick={() => {
+              setOpenName(file.name);
+              setCopyMessage('');
+            }}
+          >
+            {file.name}
+          </button>
+        ))}
+        <span className={styles.tabsEnd}>
+          {copyMessage && <span role="status">{copyMessage}</span>}
+          <button type="button" className={styles.copyButton} onClick={handleCopy}>
+            Copy
+          </button>
+        </span>
+      </div>
+      <div role="tabpanel" aria-label={open.name} className={styles.panel}>
+        <CodeBlock code={open.code} language={languageFor(open.name)} lineNumbers />
+      </div>
+    </div>
+  );
+}
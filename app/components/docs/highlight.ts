@@ -0,0 +1,114 @@
+// A small syntax highlighter for the languages prototypes are written in.
+//
+// It isn't a real parser: each language is a list of patterns (comments,
+// strings, keywords...) tried in order at every position, and whatever
+// matches first gets a colour. That's enough to make code easy to read,
+// and it means no extra dependency to install.
+
+export type TokenType =
+  | 'plain'
+  | 'comment'
+  | 'string'
+  | 'keyword'
+  | 'number'
+  | 'tag'
+  | 'function'
+  | 'property'
+  | 'selector'
+  | 'variable';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+export type Language = 'tsx' | 'css' | 'json' | 'plain';
+
+type Rule = [TokenType, RegExp];
+
+const TS_KEYWORDS =
+  'as|async|await|break|case|catch|class|const|continue|default|delete|do|else|export|extends|false|finally|for|from|function|if|implements|import|in|instanceof|interface|let|new|null|of|return|static|super|switch|this|throw|true|try|type|typeof|undefined|var|void|while|yield';
+
+// Every pattern is "sticky" (the y flag): it only matches right at the current position
+const RULES: Record<Exclude<Language, 'plain'>, Rule[]> = {
+  tsx: [
+    ['comment', /\/\/[^\n]*|\/\*[\s\S]*?\*\//y],
+    ['string', /'(?:\\.|[^'\\\n])*'|"(?:\\.|[^"\\\n])*"|`(?:\\.|[^`\\])*`/y],
+    // JSX tags, but not generics like useState<number> (those follow a name). Closing tags can follow anything.
+    ['tag', /(?<=^|[\s(>{=?:&|])<[A-Za-z][\w.]*|<\/[A-Za-z][\w.]*/y],
+    ['keyword', new RegExp(`\\b(?:${TS_KEYWORDS})\\b`, 'y')],
+    ['number', /\b\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?\b/y],
+    ['function', /\b[A-Za-z_$][\w$]*(?=\s*\()/y],
+    ['plain', /[A-Za-z_$][\w$]*/y],
+  ],
+  css: [
+    ['comment', /\/\*[\s\S]*?\*\//y],
+    ['string', /'(?:\\.|[^'\\\n])*'|"(?:\\.|[^"\\\n])*"/y],
+    ['keyword', /@[\w-]+|!important/y],
+    ['variable', /--[\w-]+/y],
+    ['property', /[\w-]+(?=\s*:[^:{;]*;)/y],
+    ['number', /#[0-9a-fA-F]{3,8}\b|-?\b\d+(?:\.\d+)?(?:px|rem|em|%|vh|vw|s|ms|deg|fr)?\b/y],
+    ['selector', /[.#][\w-]+|::?[\w-]+/y],
+    ['function', /[\w-]+(?=\()/y],
+    ['plain', /[\w-]+/y],
+  ],
+  json: [
+    ['property', /"(?:\\.|[^"\\\n])*"(?=\s*:)/y],
+    ['string', /"(?:\\.|[^"\\\n])*"/y],
+    ['keyword', /\b(?:true|false|null)\b/y],
+    ['number', /-?\b\d+(?:\.\d+)?(?:e[+-]?\d+)?\b/y],
+  ],
+};
+
+/** Picks a language from a file name or a Markdown code fence label (e.g. 'ts', 'jsx') */
+export function languageFor(nameOrLabel: string): Language {
+  const extension = nameOrLabel.toLowerCase().split('.').pop() ?? '';
+  if (['ts', 'tsx', 'js', 'jsx', 'mjs', 'typescript', 'javascript'].includes(extension)) return 'tsx';
+  if (extension === 'css') return 'css';
+  if (extension === 'json') return 'json';
+  return 'plain';
+}
+
+/** Splits code into coloured tokens */
+export function tokenize(code: string, language: Language): Token[] {
+  if (language === 'plain') return [{ type: 'plain', text: code }];
+  const rules = RULES[language];
+  const tokens: Token[] = [];
+  let plain = '';
+  let index = 0;
+
+  while (index < code.length) {
+    let matched = false;
+    for (const [type, pattern] of rules) {
+      pattern.lastIndex = index;
+      const match = pattern.exec(code);
+      if (!match || match[0].length === 0) continue;
+      if (type === 'plain') {
+        plain += match[0];
+      } else {
+        if (plain) tokens.push({ type: 'plain', text: plain });
+        plain = '';
+        tokens.push({ type, text: match[0] });
+      }
+      index += match[0].length;
+      matched = true;
+      break;
+    }
+    // Nothing special here (spaces, brackets...): keep it as plain text
+    if (!matched) plain += code[index++];
+  }
+  if (plain) tokens.push({ type: 'plain', text: plain });
+  return tokens;
+}
+
+/** Tokens grouped into lines, for showing line numbers. Tokens that span lines are split. */
+export function highlightLines(code: string, language: Language): Token[][] {
+  const lines: Token[][] = [[]];
+  for (const token of tokenize(code, language)) {
+    token.text.split('\n').forEach((part, i) => {
+      if (i > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ type: token.type, text: part });
+    });
+  }
+  return lines;
+}
@@ -0,0 +1,17 @@
+// Reading about a prototype: its README and its code.
+//
+// Markdown shows a README, CodeBlock shows a highlighted snippet and
+// SourceViewer puts several files side by side as tabs. Highlighting covers
+// TypeScript/TSX, CSS and JSON, without any extra packages.
+//
+//   <Markdown source={readme} resolveUrl={(path) => `/files/${path}`} />
+//   <SourceViewer files={[{ name: 'page.tsx', code }]} />
+
+export { Markdown } from './Markdown';
+export type { MarkdownProps } from './Markdown';
+export { CodeBlock } from './CodeBlock';
+export type { CodeBlockProps } from './CodeBlock';
+export { SourceViewer } from './SourceViewer';
+export type { SourceFile } from './SourceViewer';
+export { tokenize, highlightLines, languageFor } from './highlight';
+export type { Token, TokenType, Language } from './highlight';
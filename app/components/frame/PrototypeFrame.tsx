@@ -0,0 +1,235 @@
+'use client';
+
+import Link from 'next/link';
+import { usePathname, useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import styles from './frame.module.css';
+import { AnnotationOverlay } from '../annotations';
+import { SWITCH_WINDOW_MESSAGE } from '../desktop';
+import type { PrototypeEntry } from '../../lib/prototypes';
+
+export interface PrototypeFrameProps {
+  /** Every prototype, in the order prev/next should walk through them */
+  prototypes: PrototypeEntry[];
+  children: React.ReactNode;
+}
+
+const SHORTCUTS = [
+  { keys: ['['], action: 'Previous prototype' },
+  { keys: [']'], action: 'Next prototype' },
+  { keys: ['i'], action: 'Show or hide the info drawer' },
+  { keys: ['c'], action: 'Turn review notes on or off' },
+  { keys: ['?'], action: 'Show these shortcuts' },
+  { keys: ['Esc'], action: 'Close the drawer or this list, or stop adding notes' },
+];
+
+// Typing in a text box should never trigger a shortcut
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * The same controls around every prototype: a back button to the home page,
+ * previous/next buttons that walk through the registry, an info drawer with
+ * the prototype's title and description, review notes (see
+ * components/annotations) and a list of keyboard shortcuts.
+ *
+ * It's added by app/prototypes/layout.tsx, so prototypes don't need to do
+ * anything. To go without it (e.g. a full-screen piece with its own
+ * navigation), set `frame: false` in the prototype's meta.ts. It also stays
+ * out of the way when a prototype is shown inside another page's iframe,
+ * like the desktop view on the home page.
+ */
+export function PrototypeFrame({ prototypes, children }: PrototypeFrameProps) {
+  const pathname = usePathname();
+  const router = useRouter();
+  const index = prototypes.findIndex((p) => p.path === pathname);
+  const prototype = prototypes[index];
+  const [drawerOpen, setDrawerOpen] = useState(false);
+  const [shortcutsOpen, setShortcutsOpen] = useState(false);
+  const [reviewing, setReviewing] = useState(false);
+  // null until we know whether we're in an iframe, so embedded prototypes never flash the frame
+  const [embedded, setEmbedded] = useState<boolean | null>(null);
+
+  // Wraps around, so "next" on the newest prototype goes back to the oldest
+  const previous = prototypes[(index - 1 + prototypes.length) % prototypes.length];
+  const next = prototypes[(index + 1) % prototypes.length];
+  const framed = Boolean(prototype) && prototype.frame !== false && embedded === false;
+
+  useEffect(() => {
+    setEmbedded(window.self !== window.top);
+  }, []);
+
+  // Inside a desktop window, Ctrl+` belongs to the desktop around us: pass it on
+  useEffect(() => {
+    if (!embedded) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!event.ctrlKey || event.code !== 'Backquote') return;
+      event.preventDefault();
+      window.parent.postMessage({ type: SWITCH_WINDOW_MESSAGE, backwards: event.shiftKey }, window.location.origin);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [embedded]);
+
+  // Moving to another prototype closes the drawer
+  useEffect(() => {
+    setDrawerOpen(false);
+    setShortcutsOpen(false);
+  }, [pathname]);
+
+  useEffect(() => {
+    if (!framed) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Leave keys alone if the prototype already used them, or they're part of a browser shortcut
+      if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey || isTyping(event.target)) {
+        return;
+      }
+      if (event.key === 'Escape') {
+        setDrawerOpen(false);
+        setShortcutsOpen(false);
+        return;
+      }
+      const actions: Record<string, () => void> = {
+        '[': () => router.push(previous.path),
+        ']': () => router.push(next.path),
+        i: () => setDrawerOpen((open) => !open),
+        c: () => setReviewing((on) => !on),
+        '?': () => setShortcutsOpen((open) => !open),
+      };
+      const action = actions[event.key];
+      if (!action) return;
+      event.preventDefault();
+      action();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [framed, previous, next, router]);
+
+  if (!framed) return <>{children}</>;
+
+  return (
+    <>
+      {children}
+
+      {/* Keyed by prototype so each one loads its own notes */}
+      {reviewing && (
+        <AnnotationOverlay key={prototype.slug} prototype={prototype.slug} onClose={() => setReviewing(false)} />
+      )}
+
+      <nav className={styles.toolbar} aria-label="Prototype navigation" data-annotation-ignore>
+        <Link href="/" className={styles.button} title="All prototypes">
+          ←<span className={styles.buttonLabel}>All</span>
+        </Link>
+        <Link
+          href={previous.path}
+          className={styles.button}
+          title={`Previous: ${previous.title} ([)`}
+          aria-label={`Previous prototype: ${previous.title}`}
+        >
+          ‹
+        </Link>
+        <Link
+          href={next.path}
+          className={styles.button}
+          title={`Next: ${next.title} (])`}
+          aria-label={`Next prototype: ${next.title}`}
+        >
+          ›
+        </Link>
+        <button
+          type="button"
+          className={`${styles.button} ${drawerOpen ? styles.active : ''}`}
+          aria-expanded={drawerOpen}
+          aria-controls="prototype-frame-drawer"
+          title="About this prototype (i)"
+          onClick={() => setDrawerOpen((open) => !open)}
+        >
+          i
+        </button>
+        <button
+          type="button"
+          className={`${styles.button} ${reviewing ? styles.active : ''}`}
+          aria-pressed={reviewing}
+          title="Review notes (c)"
+          aria-label="Review notes"
+          onClick={() => setReviewing((on) => !on)}
+        >
+          ✎
+        </button>
+        <button
+          type="button"
+          className={styles.button}
+          title="Keyboard shortcuts (?)"
+          aria-label="Keyboard shortcuts"
+          onClick={() => setShortcutsOpen(true)}
+        >
+          ?
+        </button>
+      </nav>
+
+      <aside
+        id="prototype-frame-drawer"
+        className={`${styles.drawer} ${drawerOpen ? styles.open : ''}`}
+        aria-label={`About ${prototype.title}`}
+        hidden={!drawerOpen}
+        data-annotation-ignore
+      >
+        <p className={styles.position}>
+          {index + 1} of {prototypes.length}
+        </p>
+        <h2 className={styles.drawerTitle}>{prototype.title}</h2>
+        <p className={styles.drawerDescription}>{prototype.description}</p>
+        <p className={styles.drawerMeta}>
+          {prototype.author} · <time dateTime={prototype.created}>{prototype.created}</time>
+        </p>
+        {prototype.tags.length > 0 && (
+          <ul className={styles.drawerTags}>
+            {prototype.tags.map((tag) => (
+              <li key={tag} className={styles.drawerTag}>
+                {tag}
+              </li>
+            ))}
+          </ul>
+        )}
+        <Link href={`${prototype.path}/about`} className={styles.drawerLink}>
+          README &amp; code →
+        </Link>
+        <Link href={`${prototype.path}/preview`} className={styles.drawerLink}>
+          Preview on devices →
+        </Link>
+      </aside>
+
+      {shortcutsOpen && (
+        <div className={styles.overlay} onClick={() => setShortcutsOpen(false)}>
+          <div
+            role="dialog"
+            aria-modal="true"
+            aria-label="Keyboard shortcuts"
+            className={styles.shortcuts}
+            onClick={(event) => event.stopPropagation()}
+          >
+            <h2 className={styles.drawerTitle}>Keyboard shortcuts</h2>
+            <dl className={styles.shortcutList}>
+              {SHORTCUTS.map((shortcut) => (
+                <div key={shortcut.action} className={styles.shortcut}>
+                  <dt>
+                    {shortcut.keys.map((key) => (
+                      <kbd key={key} className={styles.key}>
+                        {key}
+                      </kbd>
+                    ))}
+                  </dt>
+                  <dd className={styles.shortcutAction}>{shortcut.action}</dd>
+                </div>
+              ))}
+            </dl>
+            <button type="button" className={styles.closeButton} onClick={() => setShortcutsOpen(false)} autoFocus>
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,8 @@
+// The shared frame around every prototype: back button, previous/next,
+// an info drawer and a keyboard shortcut list.
+//
+// app/prototypes/layout.tsx already puts it around every prototype page.
+// A prototype can leave it out by adding `frame: false` to its meta.ts.
+
+export { PrototypeFrame } from './PrototypeFrame';
+export type { PrototypeFrameProps } from './PrototypeFrame';
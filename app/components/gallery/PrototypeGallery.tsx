@@ -0,0 +1,170 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useRef, useState } from 'react';
+import styles from './gallery.module.css';
+import {
+  GALLERY_SORTS,
+  GallerySort,
+  GalleryFilters,
+  DEFAULT_GALLERY_FILTERS,
+  filterPrototypes,
+  galleryParamsToString,
+  tagCounts,
+} from './filters';
+import type { PrototypeEntry } from '../../lib/prototypes';
+
+export interface PrototypeGalleryProps {
+  prototypes: PrototypeEntry[];
+  /** Filters read from the URL, so a shared link opens on the same view */
+  initialFilters?: GalleryFilters;
+}
+
+/**
+ * The home page grid: a search box, tag chips to filter by and a sort
+ * order, above a card for every prototype that matches. Every change is
+ * written back to the URL, so a filtered view can be bookmarked or shared.
+ */
+export function PrototypeGallery({ prototypes, initialFilters = DEFAULT_GALLERY_FILTERS }: PrototypeGalleryProps) {
+  const [filters, setFilters] = useState(initialFilters);
+  const tags = tagCounts(prototypes);
+  const shown = filterPrototypes(prototypes, filters);
+  const filtered = galleryParamsToString(filters) !== '';
+
+  // replaceState (not push), so typing a search doesn't fill up the back button
+  useEffect(() => {
+    const query = galleryParamsToString(filters);
+    const url = query ? `?${query}` : window.location.pathname;
+    window.history.replaceState(window.history.state, '', url);
+  }, [filters]);
+
+  const toggleTag = (tag: string) => {
+    setFilters((current) => ({
+      ...current,
+      tags: current.tags.includes(tag) ? current.tags.filter((t) => t !== tag) : [...current.tags, tag],
+    }));
+  };
+
+  return (
+    <>
+      <div className={styles.toolbar}>
+        <input
+          type="search"
+          className={styles.search}
+          placeholder="Search prototypes…"
+          value={filters.query}
+          onChange={(e) => setFilters((current) => ({ ...current, query: e.target.value }))}
+          aria-label="Search prototypes"
+        />
+        <label className={styles.sort}>
+          Sort
+          <select
+            value={filters.sort}
+            onChange={(e) => setFilters((current) => ({ ...current, sort: e.target.value as GallerySort }))}
+          >
+            {GALLERY_SORTS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className={styles.chips} role="group" aria-label="Filter by tag">
+        {tags.map(({ tag, count }) => (
+          <button
+            key={tag}
+            type="button"
+            className={`${styles.chip} ${filters.tags.includes(tag) ? styles.selected : ''}`}
+            aria-pressed={filters.tags.includes(tag)}
+            onClick={() => toggleTag(tag)}
+          >
+            {tag} <span className={styles.chipCount}>{count}</span>
+          </button>
+        ))}
+        {filtered && (
+          <button type="button" className={styles.clear} onClick={() => setFilters(DEFAULT_GALLERY_FILTERS)}>
+            Clear
+          </button>
+        )}
+      </div>
+
+      <p className={styles.count} role="status">
+        {shown.length === prototypes.length
+          ? `${prototypes.length} prototypes`
+          : `${shown.length} of ${prototypes.length} prototypes`}
+      </p>
+
+      {shown.length === 0 ? (
+        <p className={styles.empty}>Nothing matches. Try fewer words or tags.</p>
+      ) : (
+        <section className={styles.grid}>
+          {shown.map((prototype) => (
+            <article key={prototype.slug} className={styles.card}>
+              {/* The whole card opens the prototype; the About link sits on top of it */}
+              <Link href={prototype.path} className={styles.cardLink}>
+                <Thumbnail src={prototype.thumbnail} title={prototype.title} />
+                <h3>{prototype.title}</h3>
+                <p>{prototype.description}</p>
+              </Link>
+              <div className={styles.cardFooter}>
+                <ul className={styles.cardTags}>
+                  {prototype.tags.map((tag) => (
+                    <li key={tag}>{tag}</li>
+                  ))}
+                </ul>
+                <Link href={`${prototype.path}/about`} className={styles.aboutLink}>
+                  About &amp; code
+                </Link>
+              </div>
+            </article>
+          ))}
+        </section>
+      )}
+    </>
+  );
+}
+
+/**
+ * A card's preview image. GIFs and animated WebPs hold still on their first
+ * frame and only play while the card is hovered or focused (and never when
+ * the system asks for reduced motion), so a page of them isn't distracting.
+ */
+function Thumbnail({ src, title }: { src?: string; title: string }) {
+  const imageRef = useRef<HTMLImageElement>(null);
+  const stillRef = useRef<HTMLCanvasElement>(null);
+  const [hasStill, setHasStill] = useState(false);
+
+  // Drawing an animated image onto a canvas copies just the frame it's on
+  const drawStill = () => {
+    const image = imageRef.current;
+    const canvas = stillRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!image || !canvas || !ctx || !image.naturalWidth) return;
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    ctx.drawImage(image, 0, 0);
+    setHasStill(true);
+  };
+
+  // The image may have loaded before React was ready to hear about it
+  useEffect(() => {
+    if (imageRef.current?.complete) drawStill();
+  }, [src]);
+
+  if (!src) {
+    return (
+      <div className={`${styles.thumbnail} ${styles.placeholder}`} aria-hidden="true">
+        {title.slice(0, 1)}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`${styles.thumbnail} ${hasStill ? styles.hasStill : ''}`}>
+      <img ref={imageRef} src={src} alt="" loading="lazy" onLoad={drawStill} className={styles.animated} />
+      <canvas ref={stillRef} className={styles.still} aria-hidden="true" />
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+// Searching, filtering and sorting the prototype list, and keeping that in the URL.
+//
+// Nothing here touches the page, so the home page (a server component) can
+// read the URL with parseGalleryParams() and the gallery can render the
+// right cards straight away, before any JavaScript has loaded.
+
+import type { PrototypeEntry } from '../../lib/prototypes';
+
+export type GallerySort = 'newest' | 'oldest' | 'name';
+
+export const GALLERY_SORTS: { value: GallerySort; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'oldest', label: 'Oldest' },
+  { value: 'name', label: 'A–Z' },
+];
+
+export interface GalleryFilters {
+  /** Words to look for in the title and description */
+  query: string;
+  /** Only prototypes with every one of these tags */
+  tags: string[];
+  sort: GallerySort;
+}
+
+export const DEFAULT_GALLERY_FILTERS: GalleryFilters = { query: '', tags: [], sort: 'newest' };
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+const first = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value) ?? '';
+
+const isGallerySort = (value: string): value is GallerySort => GALLERY_SORTS.some((s) => s.value === value);
+
+/** Reads ?q=synth&tags=audio,canvas&sort=name, ignoring anything it doesn't understand */
+export function parseGalleryParams(params: SearchParams): GalleryFilters {
+  const sort = first(params.sort);
+  return {
+    query: first(params.q),
+    tags: first(params.tags)
+      .split(',')
+      .map((tag) => tag.trim())
+      .filter(Boolean),
+    sort: isGallerySort(sort) ? sort : DEFAULT_GALLERY_FILTERS.sort,
+  };
+}
+
+/** The query string for a set of filters (without the "?"), leaving out anything at its default */
+export function galleryParamsToString(filters: GalleryFilters) {
+  const params = new URLSearchParams();
+  if (filters.query.trim()) params.set('q', filters.query.trim());
+  if (filters.tags.length > 0) params.set('tags', filters.tags.join(','));
+  if (filters.sort !== DEFAULT_GALLERY_FILTERS.sort) params.set('sort', filters.sort);
+  // Keep the commas readable in shared links
+  return params.toString().replace(/%2C/g, ',');
+}
+
+/** Every tag in use, with how many prototypes have it, most used first */
+export function tagCounts(prototypes: PrototypeEntry[]) {
+  const counts = new Map<string, number>();
+  prototypes.forEach((p) => p.tags.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return [...counts]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * The prototypes that match, in order. Every word of the search has to
+ * appear somewhere in the title or description (in any case), so
+ * "moog synth" finds the synth but "synth confetti" finds nothing. Tags
+ * aren't searched; the tag chips filter by those.
+ */
+export function filterPrototypes(prototypes: PrototypeEntry[], { query, tags, sort }: GalleryFilters) {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+
+  const matches = prototypes.filter((p) => {
+    const text = `${p.title} ${p.description}`.toLowerCase();
+    return words.every((word) => text.includes(word)) && tags.every((tag) => p.tags.includes(tag));
+  });
+
+  return matches.sort((a, b) => {
+    if (sort === 'name') return a.title.localeCompare(b.title);
+    // Dates are YYYY-MM-DD, so comparing them as text puts them in date order
+    const byDate = a.created.localeCompare(b.created);
+    return sort === 'oldest' ? byDate : -byDate;
+  });
+}
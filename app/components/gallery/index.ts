@@ -0,0 +1,19 @@
+// The home page gallery: every prototype as a card, with search, tag filters and sorting.
+//
+// The filters live in the URL (?q=synth&tags=audio&sort=name), so any view
+// can be shared. A server component can read them with parseGalleryParams():
+//
+//   const filters = parseGalleryParams(await searchParams);
+//   <PrototypeGallery prototypes={prototypes} initialFilters={filters} />
+
+export { PrototypeGallery } from './PrototypeGallery';
+export type { PrototypeGalleryProps } from './PrototypeGallery';
+export {
+  GALLERY_SORTS,
+  DEFAULT_GALLERY_FILTERS,
+  parseGalleryParams,
+  galleryParamsToString,
+  filterPrototypes,
+  tagCounts,
+} from './filters';
+export type { GalleryFilters, GallerySort } from './filters';
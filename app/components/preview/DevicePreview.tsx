@@ -0,0 +1,281 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useRef, useState } from 'react';
+import styles from './preview.module.css';
+import {
+  CUSTOM_DEVICE,
+  DEFAULT_PREVIEW_SETTINGS,
+  DEVICE_PRESETS,
+  MAX_SIZE,
+  MIN_SIZE,
+  ZOOM_LEVELS,
+  clampSize,
+  deviceName,
+  deviceScreen,
+  previewParamsToString,
+  type DeviceKind,
+  type PreviewSettings,
+  type PreviewZoom,
+} from './devices';
+import { simulatedUrl } from './simulate';
+import type { PrototypeEntry } from '../../lib/prototypes';
+
+export interface DevicePreviewProps {
+  prototype: PrototypeEntry;
+  /** Settings read from the URL, so a shared link opens on the same devices */
+  initialSettings?: PreviewSettings;
+  className?: string;
+}
+
+// The bezel around each screen, in px. Kept here (not in the CSS) because "Fit" needs it too.
+const BEZEL: Record<DeviceKind, number> = { phone: 12, tablet: 16, desktop: 6 };
+// Space between devices, and for the name above each one
+const GAP = 32;
+const LABEL_HEIGHT = 28;
+
+type Screen = { id: string; kind: DeviceKind; width: number; height: number };
+
+/** How much to shrink the screens by: the chosen zoom, or whatever makes them all fit side by side */
+function scaleFor(zoom: PreviewZoom, screens: Screen[], stage: { width: number; height: number } | null) {
+  if (zoom !== 'fit') return zoom / 100;
+  if (!stage) return 1;
+  const bezels = screens.reduce((total, s) => total + BEZEL[s.kind] * 2, 0);
+  const widths = screens.reduce((total, s) => total + s.width, 0);
+  const byWidth = (stage.width - bezels - GAP * (screens.length - 1)) / widths;
+  const byHeight = Math.min(...screens.map((s) => (stage.height - LABEL_HEIGHT - BEZEL[s.kind] * 2) / s.height));
+  return Math.max(0.1, Math.min(1, byWidth, byHeight));
+}
+
+/** A number box that only applies its value (kept within the allowed sizes) when you leave it or press Enter */
+function SizeInput({ label, value, onChange }: { label: string; value: number; onChange: (value: number) => void }) {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => setDraft(String(value)), [value]);
+
+  const commit = () => {
+    const number = Number(draft);
+    if (Number.isFinite(number) && draft.trim()) onChange(clampSize(number));
+    else setDraft(String(value));
+  };
+
+  return (
+    <input
+      type="number"
+      className={styles.sizeInput}
+      min={MIN_SIZE}
+      max={MAX_SIZE}
+      value={draft}
+      aria-label={label}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={(event) => {
+        if (event.key === 'Enter') commit();
+      }}
+    />
+  );
+}
+
+/**
+ * Shows a prototype inside phone, tablet and desktop frames, to catch
+ * layouts that only break on small screens. Each device is an iframe set to
+ * that device's screen size, so the prototype's own media queries and
+ * window.innerWidth behave as they would on the real thing.
+ *
+ * Devices can be rotated, compared side by side and zoomed. The dark mode
+ * and reduced motion switches reload the prototype pretending the visitor
+ * asked for them (see simulate.ts). Every choice is kept in the URL.
+ */
+export function DevicePreview({ prototype, initialSettings = DEFAULT_PREVIEW_SETTINGS, className = '' }: DevicePreviewProps) {
+  const [settings, setSettings] = useState(initialSettings);
+  const [stage, setStage] = useState<{ width: number; height: number } | null>(null);
+  // Changing this reloads every device
+  const [reloads, setReloads] = useState(0);
+  const stageRef = useRef<HTMLDivElement>(null);
+
+  // replaceState (not push), so trying out devices doesn't fill up the back button
+  useEffect(() => {
+    const query = previewParamsToString(settings);
+    const url = query ? `?${query}` : window.location.pathname;
+    window.history.replaceState(window.history.state, '', url);
+  }, [settings]);
+
+  // "Fit" needs to know how much room there is
+  useEffect(() => {
+    const element = stageRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setStage({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const change = (patch: Partial<PreviewSettings>) => setSettings((current) => ({ ...current, ...patch }));
+
+  // One at a time, a device replaces the current one. Side by side, it's added or removed.
+  const toggleDevice = (id: string) => {
+    setSettings((current) => {
+      if (!current.compare) return { ...current, devices: [id] };
+      if (!current.devices.includes(id)) return { ...current, devices: [...current.devices, id] };
+      // There's always at least one device showing
+      if (current.devices.length === 1) return current;
+      return { ...current, devices: current.devices.filter((d) => d !== id) };
+    });
+  };
+
+  const setCompare = (compare: boolean) => {
+    setSettings((current) => ({ ...current, compare, devices: compare ? current.devices : current.devices.slice(0, 1) }));
+  };
+
+  const screens: Screen[] = settings.devices.map((id) => ({ id, ...deviceScreen(id, settings) }));
+  const scale = scaleFor(settings.zoom, screens, stage);
+  const src = simulatedUrl(prototype.path, settings);
+
+  const deviceButton = (id: string, label: React.ReactNode) => (
+    <button
+      key={id}
+      type="button"
+      className={`${styles.chip} ${settings.devices.includes(id) ? styles.active : ''}`}
+      aria-pressed={settings.devices.includes(id)}
+      onClick={() => toggleDevice(id)}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className={`${styles.preview} ${className}`}>
+      <header className={styles.header}>
+        <nav className={styles.nav}>
+          <Link href={prototype.path} className={styles.navLink}>
+            ← {prototype.title}
+          </Link>
+          <Link href={`${prototype.path}/about`} className={styles.navLink}>
+            About &amp; code
+          </Link>
+          <a href={src} target="_blank" rel="noreferrer" className={styles.navLink}>
+            Open in new tab ↗
+          </a>
+        </nav>
+
+        <div className={styles.controls}>
+          <div className={styles.group} role="group" aria-label="Devices">
+            {DEVICE_PRESETS.map((device) =>
+              deviceButton(
+                device.id,
+                <>
+                  {device.name}
+                  <span className={styles.chipSize}>
+                    {device.width}×{device.height}
+                  </span>
+                </>
+              )
+            )}
+            {deviceButton(CUSTOM_DEVICE, 'Custom')}
+            {settings.devices.includes(CUSTOM_DEVICE) && (
+              <span className={styles.customSize}>
+                <SizeInput
+                  label="Custom width"
+                  value={settings.custom.width}
+                  onChange={(width) => change({ custom: { ...settings.custom, width } })}
+                />
+                ×
+                <SizeInput
+                  label="Custom height"
+                  value={settings.custom.height}
+                  onChange={(height) => change({ custom: { ...settings.custom, height } })}
+                />
+              </span>
+            )}
+          </div>
+
+          <div className={styles.group}>
+            <button
+              type="button"
+              className={`${styles.chip} ${settings.compare ? styles.active : ''}`}
+              aria-pressed={settings.compare}
+              title="Pick several devices to see them next to each other"
+              onClick={() => setCompare(!settings.compare)}
+            >
+              Side by side
+            </button>
+            <button
+              type="button"
+              className={`${styles.chip} ${settings.rotated ? styles.active : ''}`}
+              aria-pressed={settings.rotated}
+              onClick={() => change({ rotated: !settings.rotated })}
+            >
+              ⟳ Rotate
+            </button>
+            <label className={styles.zoom}>
+              Zoom
+              <select
+                className={styles.select}
+                value={String(settings.zoom)}
+                onChange={(event) =>
+                  change({ zoom: ZOOM_LEVELS.find((z) => String(z.value) === event.target.value)?.value ?? 'fit' })
+                }
+              >
+                {ZOOM_LEVELS.map((level) => (
+                  <option key={level.value} value={String(level.value)}>
+                    {level.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className={styles.group}>
+            <button
+              type="button"
+              className={`${styles.chip} ${settings.dark ? styles.active : ''}`}
+              aria-pressed={settings.dark}
+              title="Pretend the device is in dark mode (prefers-color-scheme: dark)"
+              onClick={() => change({ dark: !settings.dark })}
+            >
+              Dark mode
+            </button>
+            <button
+              type="button"
+              className={`${styles.chip} ${settings.reducedMotion ? styles.active : ''}`}
+              aria-pressed={settings.reducedMotion}
+              title="Pretend the device asks for less motion (prefers-reduced-motion: reduce)"
+              onClick={() => change({ reducedMotion: !settings.reducedMotion })}
+            >
+              Reduced motion
+            </button>
+            <button type="button" className={styles.chip} onClick={() => setReloads((n) => n + 1)}>
+              Reload
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <div ref={stageRef} className={styles.stage}>
+        <div className={styles.devices} style={{ gap: GAP }}>
+          {screens.map((screen) => (
+            <figure key={screen.id} className={styles.device}>
+              <figcaption className={styles.deviceLabel} style={{ height: LABEL_HEIGHT }}>
+                {deviceName(screen.id)} · {screen.width}×{screen.height}
+                {scale !== 1 && <span className={styles.deviceScale}> · {Math.round(scale * 100)}%</span>}
+              </figcaption>
+              <div className={`${styles.bezel} ${styles[screen.kind]}`} style={{ padding: BEZEL[screen.kind] }}>
+                <div className={styles.screen} style={{ width: screen.width * scale, height: screen.height * scale }}>
+                  {/* The iframe keeps the device's real size; scaling it down only changes how big it looks */}
+                  <iframe
+                    key={`${screen.id}-${reloads}`}
+                    src={src}
+                    title={`${prototype.title} on ${deviceName(screen.id)}`}
+                    className={styles.iframe}
+                    style={{ width: screen.width, height: screen.height, transform: `scale(${scale})` }}
+                  />
+                </div>
+              </div>
+            </figure>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
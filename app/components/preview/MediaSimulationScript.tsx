@@ -0,0 +1,16 @@
+import Script from 'next/script';
+import { simulateMediaFeatures } from './simulate';
+
+/**
+ * Lets the device preview pretend the visitor chose dark mode or reduced
+ * motion (see simulate.ts). It does nothing unless the page's address asks
+ * for it. It has to run before the page's own code, so it belongs in the
+ * root layout, app/layout.tsx.
+ */
+export function MediaSimulationScript() {
+  return (
+    <Script id="media-simulation" strategy="beforeInteractive">
+      {`(${simulateMediaFeatures.toString()})()`}
+    </Script>
+  );
+}
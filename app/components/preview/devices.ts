@@ -0,0 +1,123 @@
+// Device sizes for the preview page, and the preview's settings kept in the URL.
+//
+// Like the gallery's filters, nothing here touches the page, so the preview
+// route (a server component) can read the URL with parsePreviewParams() and
+// the first render already shows the right devices.
+
+export type DeviceKind = 'phone' | 'tablet' | 'desktop';
+
+export interface DevicePreset {
+  id: string;
+  name: string;
+  kind: DeviceKind;
+  /** CSS pixels, held upright (portrait for phones and tablets) */
+  width: number;
+  height: number;
+}
+
+export const DEVICE_PRESETS: DevicePreset[] = [
+  { id: 'iphone-se', name: 'iPhone SE', kind: 'phone', width: 375, height: 667 },
+  { id: 'iphone-15', name: 'iPhone 15', kind: 'phone', width: 393, height: 852 },
+  { id: 'pixel-8', name: 'Pixel 8', kind: 'phone', width: 412, height: 915 },
+  { id: 'ipad-mini', name: 'iPad mini', kind: 'tablet', width: 744, height: 1133 },
+  { id: 'ipad-pro', name: 'iPad Pro 11"', kind: 'tablet', width: 834, height: 1194 },
+  { id: 'laptop', name: 'Laptop', kind: 'desktop', width: 1280, height: 800 },
+  { id: 'desktop', name: 'Desktop', kind: 'desktop', width: 1920, height: 1080 },
+];
+
+/** The id used for the size typed into the width and height boxes */
+export const CUSTOM_DEVICE = 'custom';
+
+// Smaller than a small phone or bigger than a big monitor isn't useful to preview
+export const MIN_SIZE = 200;
+export const MAX_SIZE = 3840;
+
+/** 'fit' scales the devices down until they all fit in the window */
+export type PreviewZoom = 'fit' | 25 | 50 | 75 | 100;
+
+export const ZOOM_LEVELS: { value: PreviewZoom; label: string }[] = [
+  { value: 'fit', label: 'Fit' },
+  { value: 25, label: '25%' },
+  { value: 50, label: '50%' },
+  { value: 75, label: '75%' },
+  { value: 100, label: '100%' },
+];
+
+export interface PreviewSettings {
+  /** Preset ids (or CUSTOM_DEVICE), in the order they're shown */
+  devices: string[];
+  /** Show every device in `devices` side by side, rather than one at a time */
+  compare: boolean;
+  custom: { width: number; height: number };
+  /** Turned sideways: phones and tablets in landscape */
+  rotated: boolean;
+  zoom: PreviewZoom;
+  /** Make the prototype think the visitor asked for less motion */
+  reducedMotion: boolean;
+  /** Make the prototype think the visitor's system is in dark mode */
+  dark: boolean;
+}
+
+export const DEFAULT_PREVIEW_SETTINGS: PreviewSettings = {
+  devices: ['iphone-15'],
+  compare: false,
+  custom: { width: 360, height: 740 },
+  rotated: false,
+  zoom: 'fit',
+  reducedMotion: false,
+  dark: false,
+};
+
+export const clampSize = (value: number) => Math.round(Math.min(MAX_SIZE, Math.max(MIN_SIZE, value)));
+
+/** What to call a device, e.g. 'iPhone 15' or 'Custom' */
+export const deviceName = (id: string) => DEVICE_PRESETS.find((d) => d.id === id)?.name ?? 'Custom';
+
+/** A device's kind and screen size right now, with rotation applied */
+export function deviceScreen(id: string, settings: PreviewSettings) {
+  const preset = DEVICE_PRESETS.find((d) => d.id === id);
+  const kind: DeviceKind = preset?.kind ?? 'desktop';
+  const { width, height } = preset ?? settings.custom;
+  return settings.rotated ? { kind, width: height, height: width } : { kind, width, height };
+}
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+const first = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value) ?? '';
+
+const isDevice = (id: string) => id === CUSTOM_DEVICE || DEVICE_PRESETS.some((d) => d.id === id);
+
+/** Reads ?device=iphone-15,ipad-mini&compare=1&size=400x800&rotate=1&zoom=50&motion=reduce&scheme=dark */
+export function parsePreviewParams(params: SearchParams): PreviewSettings {
+  const defaults = DEFAULT_PREVIEW_SETTINGS;
+  // Each device once: the same one twice would just be two identical frames
+  const devices = [...new Set(first(params.device).split(',').filter(isDevice))];
+  const size = first(params.size).match(/^(\d+)x(\d+)$/);
+  const zoom = ZOOM_LEVELS.find((z) => String(z.value) === first(params.zoom))?.value;
+  const compare = first(params.compare) === '1';
+  return {
+    // One at a time means just the first device
+    devices: devices.length === 0 ? defaults.devices : compare ? devices : devices.slice(0, 1),
+    compare,
+    custom: size ? { width: clampSize(Number(size[1])), height: clampSize(Number(size[2])) } : defaults.custom,
+    rotated: first(params.rotate) === '1',
+    zoom: zoom ?? defaults.zoom,
+    reducedMotion: first(params.motion) === 'reduce',
+    dark: first(params.scheme) === 'dark',
+  };
+}
+
+/** The query string for some settings (without the "?"), leaving out anything at its default */
+export function previewParamsToString(settings: PreviewSettings) {
+  const defaults = DEFAULT_PREVIEW_SETTINGS;
+  const params = new URLSearchParams();
+  if (settings.devices.join(',') !== defaults.devices.join(',')) params.set('device', settings.devices.join(','));
+  if (settings.compare) params.set('compare', '1');
+  if (settings.devices.includes(CUSTOM_DEVICE)) params.set('size', `${settings.custom.width}x${settings.custom.height}`);
+  if (settings.rotated) params.set('rotate', '1');
+  if (settings.zoom !== defaults.zoom) params.set('zoom', String(settings.zoom));
+  if (settings.reducedMotion) params.set('motion', 'reduce');
+  if (settings.dark) params.set('scheme', 'dark');
+  // Keep the commas readable in shared links
+  return params.toString().replace(/%2C/g, ',');
+}
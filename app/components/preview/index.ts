@@ -0,0 +1,24 @@
+// Previewing a prototype in phone, tablet and desktop frames, with pretend
+// dark mode and reduced motion. The page for it is /prototypes/<name>/preview.
+//
+// Settings live in the URL (?device=iphone-se,ipad-mini&compare=1&scheme=dark),
+// so a server component can read them with parsePreviewParams():
+//
+//   const settings = parsePreviewParams(await searchParams);
+//   <DevicePreview prototype={prototype} initialSettings={settings} />
+//
+// MediaSimulationScript must be in the root layout for the dark mode and
+// reduced motion switches to work.
+
+export { DevicePreview } from './DevicePreview';
+export type { DevicePreviewProps } from './DevicePreview';
+export { MediaSimulationScript } from './MediaSimulationScript';
+export {
+  DEVICE_PRESETS,
+  DEFAULT_PREVIEW_SETTINGS,
+  ZOOM_LEVELS,
+  parsePreviewParams,
+  previewParamsToString,
+} from './devices';
+export type { DeviceKind, DevicePreset, PreviewSettings, PreviewZoom } from './devices';
+export { simulatedUrl } from './simulate';
@@ -0,0 +1,87 @@
+// Pretending the visitor asked for dark mode or less motion, for one page.
+//
+// Browsers don't let a page change another page's `prefers-color-scheme` or
+// `prefers-reduced-motion`, so the preview adds ?preview-scheme=dark or
+// ?preview-motion=reduce to the prototype's address instead. The prototype
+// page then runs simulateMediaFeatures() before anything else (see
+// MediaSimulationScript), which rewrites those media queries in its CSS and
+// in window.matchMedia(), so both styles and code see the pretend setting.
+
+export const SIMULATION_PARAMS = { scheme: 'preview-scheme', motion: 'preview-motion' } as const;
+
+/** A prototype's address with the simulation switched on, e.g. /prototypes/moog-synth?preview-scheme=dark */
+export function simulatedUrl(path: string, { dark, reducedMotion }: { dark: boolean; reducedMotion: boolean }) {
+  const params = new URLSearchParams();
+  if (dark) params.set(SIMULATION_PARAMS.scheme, 'dark');
+  if (reducedMotion) params.set(SIMULATION_PARAMS.motion, 'reduce');
+  const query = params.toString();
+  return query ? `${path}?${query}` : path;
+}
+
+/**
+ * Runs inside the previewed page. It's turned into text and put in a
+ * <script> tag, so it can't use anything from outside its own body (no
+ * imports, no constants from this file).
+ */
+export function simulateMediaFeatures() {
+  const params = new URLSearchParams(window.location.search);
+  const scheme = params.get('preview-scheme');
+  const motion = params.get('preview-motion');
+  if (!scheme && !motion) return;
+
+  // Stand-ins that are always true or always false (a page is never 0px wide)
+  const ALWAYS = '(min-width: 0px)';
+  const NEVER = '(max-width: 0px)';
+
+  // (prefers-color-scheme: dark) becomes ALWAYS or NEVER, depending on the pretend setting
+  const rewrite = (query: string) => {
+    let result = query;
+    if (scheme) {
+      result = result.replace(/\(\s*prefers-color-scheme\s*:\s*(\w+)\s*\)/gi, (_, value: string) =>
+        value.toLowerCase() === scheme ? ALWAYS : NEVER
+      );
+    }
+    if (motion) {
+      result = result.replace(/\(\s*prefers-reduced-motion(?:\s*:\s*([\w-]+))?\s*\)/gi, (_, value?: string) =>
+        (value ?? 'reduce').toLowerCase() === motion ? ALWAYS : NEVER
+      );
+    }
+    return result;
+  };
+
+  const matchMedia = window.matchMedia.bind(window);
+  window.matchMedia = (query: string) => matchMedia(rewrite(query));
+
+  // Stylesheets: rewrite every @media rule, including ones nested inside other rules
+  const done = new WeakSet<CSSStyleSheet>();
+  const rewriteRules = (rules: CSSRuleList) => {
+    for (let i = 0; i < rules.length; i++) {
+      const rule = rules[i];
+      if (rule instanceof CSSMediaRule) {
+        const media = rewrite(rule.media.mediaText);
+        if (media !== rule.media.mediaText) rule.media.mediaText = media;
+      }
+      if (rule instanceof CSSGroupingRule) rewriteRules(rule.cssRules);
+    }
+  };
+  const rewriteSheets = () => {
+    for (let i = 0; i < document.styleSheets.length; i++) {
+      const sheet = document.styleSheets[i];
+      if (done.has(sheet)) continue;
+      try {
+        rewriteRules(sheet.cssRules);
+        done.add(sheet);
+      } catch {
+        // Stylesheets from other sites can't be read; leave them as they are
+      }
+    }
+  };
+
+  // Next.js adds stylesheets as the page loads, so keep watching for new ones
+  rewriteSheets();
+  new MutationObserver(rewriteSheets).observe(document.head, { childList: true });
+  document.addEventListener('load', rewriteSheets, true);
+
+  // Scrollbars and form controls follow the pretend colour scheme too
+  if (scheme) document.documentElement.style.colorScheme = scheme;
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { createContext, useContext, useEffect, useState } from 'react';
+import { THEMES, DEFAULT_THEME, Theme, ColorMode, ColorModeSetting, themeToCssVariables } from './themes';
+import { findContrastProblems } from './contrast';
+
+interface ThemeContextValue {
+  /** Every theme on offer: the built-in ones plus any the prototype passed in */
+  themes: Record<string, Theme>;
+  theme: string;
+  setTheme: (theme: string) => void;
+  /** What the user picked: light, dark, or follow the system */
+  modeSetting: ColorModeSetting;
+  setModeSetting: (mode: ColorModeSetting) => void;
+  /** The mode actually showing */
+  mode: ColorMode;
+}
+
+const ThemeContext = createContext<ThemeContextValue | null>(null);
+
+/** The current theme and ways to change it, from anywhere inside a <ThemeProvider> */
+export function useTheme() {
+  const theme = useContext(ThemeContext);
+  if (!theme) throw new Error('useTheme must be used inside a <ThemeProvider>');
+  return theme;
+}
+
+// One key for every prototype, so the theme picked in one is used in all of them
+const THEME_STORAGE_KEY = 'prototypes:theme';
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+// A theme saved in another prototype might not exist in this one, so it's only used if it does
+function loadThemeChoice(themes: Record<string, Theme>) {
+  try {
+    const saved = JSON.parse(localStorage.getItem(THEME_STORAGE_KEY) ?? 'null');
+    return {
+      theme: typeof saved?.theme === 'string' && Object.hasOwn(themes, saved.theme) ? (saved.theme as string) : null,
+      mode: ['light', 'dark', 'system'].includes(saved?.mode) ? (saved.mode as ColorModeSetting) : null,
+    };
+  } catch {
+    return { theme: null, mode: null };
+  }
+}
+
+/**
+ * Puts the chosen theme's colours, font and radius on a wrapper element as
+ * CSS variables (--theme-primary, --theme-secondary, --theme-light,
+ * --theme-background, --theme-font, --theme-radius). Style anything inside
+ * with them, e.g. `border: 1px solid var(--theme-secondary)`.
+ *
+ * A prototype can bring its own tokens with `themes`, e.g.
+ * `themes={{ neon: { light: {...}, dark: {...}, font: '...', radius: '0' } }}`.
+ * They're offered in the switcher next to the built-in ones (a matching name
+ * replaces a built-in theme).
+ *
+ * The choice is saved in localStorage and shared by every prototype. In
+ * development, themes whose text colours are hard to read (below WCAG AA)
+ * print a warning in the console.
+ */
+export function ThemeProvider({
+  children,
+  themes: ownThemes,
+  defaultTheme = DEFAULT_THEME,
+  className = '',
+}: {
+  children: React.ReactNode;
+  /** The prototype's own themes, added to the built-in ones */
+  themes?: Record<string, Theme>;
+  /** Used until the visitor picks a theme */
+  defaultTheme?: string;
+  className?: string;
+}) {
+  const themes: Record<string, Theme> = { ...THEMES, ...ownThemes };
+  // Compared as text, since a `themes` object written inline is a new object every render
+  const themesJson = JSON.stringify(ownThemes ?? {});
+  const [theme, setThemeState] = useState(Object.hasOwn(themes, defaultTheme) ? defaultTheme : DEFAULT_THEME);
+  const [modeSetting, setModeSettingState] = useState<ColorModeSetting>('system');
+  const [systemDark, setSystemDark] = useState(false);
+
+  // Load the saved choice, and pick up changes made in other tabs
+  useEffect(() => {
+    const apply = () => {
+      const saved = loadThemeChoice(themes);
+      if (saved.theme) setThemeState(saved.theme);
+      if (saved.mode) setModeSettingState(saved.mode);
+    };
+    apply();
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === THEME_STORAGE_KEY) apply();
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  // Follow the system's dark mode setting, including when it changes
+  useEffect(() => {
+    const query = window.matchMedia(DARK_QUERY);
+    setSystemDark(query.matches);
+    const handleChange = (event: MediaQueryListEvent) => setSystemDark(event.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  const mode: ColorMode = modeSetting === 'system' ? (systemDark ? 'dark' : 'light') : modeSetting;
+  const current = themes[theme] ?? THEMES[DEFAULT_THEME];
+
+  useEffect(() => {
+    if (process.env.NODE_ENV === 'production') return;
+    for (const problem of findContrastProblems(current[mode])) {
+      console.warn(
+        `Theme "${theme}" (${mode}): ${problem.pair} has a contrast of ${problem.ratio.toFixed(2)}:1, ` +
+          'below the 4.5:1 WCAG AA needs for text'
+      );
+    }
+  }, [theme, mode, themesJson]);
+
+  const save = (next: { theme: string; mode: ColorModeSetting }) => {
+    try {
+      localStorage.setItem(THEME_STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // Storage can be blocked or full; the choice still applies until the page reloads
+    }
+  };
+
+  const value: ThemeContextValue = {
+    themes,
+    theme,
+    setTheme: (next) => {
+      setThemeState(next);
+      save({ theme: next, mode: modeSetting });
+    },
+    modeSetting,
+    setModeSetting: (next) => {
+      setModeSettingState(next);
+      save({ theme, mode: next });
+    },
+    mode,
+  };
+
+  return (
+    <ThemeContext.Provider value={value}>
+      <div className={className} data-theme={theme} data-mode={mode} style={themeToCssVariables(current, mode)}>
+        {children}
+      </div>
+    </ThemeContext.Provider>
+  );
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import styles from './theme.module.css';
+import { useTheme } from './ThemeProvider';
+import { ColorModeSetting } from './themes';
+import { findContrastProblems } from './contrast';
+
+const MODES: { value: ColorModeSetting; label: string; icon: string }[] = [
+  { value: 'light', label: 'Light mode', icon: '☀' },
+  { value: 'dark', label: 'Dark mode', icon: '☾' },
+  { value: 'system', label: 'Match system', icon: '◐' },
+];
+
+/**
+ * A row of colour swatches plus a light / dark / system toggle. Swatches
+ * whose text would be hard to read in the current mode get a warning mark.
+ */
+export function ThemeSwitcher({ className = '' }: { className?: string }) {
+  const { themes, theme, setTheme, modeSetting, setModeSetting, mode } = useTheme();
+
+  return (
+    <div className={`${styles.switcher} ${className}`}>
+      <div className={styles.group} role="radiogroup" aria-label="Theme colour">
+        {Object.keys(themes).map((name) => {
+          const colors = themes[name][mode];
+          const problems = findContrastProblems(colors);
+          return (
+            <button
+              key={name}
+              type="button"
+              role="radio"
+              aria-checked={theme === name}
+              aria-label={`${name} theme`}
+              title={problems.length > 0 ? `Low contrast: ${problems[0].ratio.toFixed(1)}:1` : undefined}
+              className={`${styles.swatch} ${theme === name ? styles.active : ''}`}
+              style={{ backgroundColor: colors.primary, borderColor: colors.secondary }}
+              onClick={() => setTheme(name)}
+            >
+              {problems.length > 0 && <span className={styles.warning} aria-hidden="true">!</span>}
+            </button>
+          );
+        })}
+      </div>
+      <div className={styles.group} role="radiogroup" aria-label="Colour mode">
+        {MODES.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            role="radio"
+            aria-checked={modeSetting === option.value}
+            aria-label={option.label}
+            title={option.label}
+            className={`${styles.modeButton} ${modeSetting === option.value ? styles.active : ''}`}
+            onClick={() => setModeSetting(option.value)}
+          >
+            {option.icon}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+// WCAG contrast checks for theme colours.
+//
+// Contrast is a ratio from 1:1 (same colour) to 21:1 (black on white). WCAG
+// level AA asks for at least 4.5:1 between normal-sized text and its
+// background, so text stays readable for people with low vision.
+
+import type { ThemeColors } from './themes';
+
+export const WCAG_AA_RATIO = 4.5;
+
+export interface ContrastProblem {
+  /** Which text colour sits on which background, e.g. 'secondary on light' */
+  pair: string;
+  ratio: number;
+}
+
+// '#1a325e' or '#fff' → [r, g, b] from 0 to 255
+function parseHex(color: string): [number, number, number] | null {
+  const hex = color.trim().replace(/^#/, '');
+  const full = hex.length === 3 ? [...hex].map((c) => c + c).join('') : hex;
+  if (!/^[0-9a-f]{6}$/i.test(full)) return null;
+  return [0, 2, 4].map((i) => parseInt(full.slice(i, i + 2), 16)) as [number, number, number];
+}
+
+/** How bright a colour looks, from 0 (black) to 1 (white), as WCAG defines it */
+export function relativeLuminance(color: string) {
+  const rgb = parseHex(color);
+  if (!rgb) return null;
+  const [r, g, b] = rgb.map((channel) => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/** Contrast ratio between two hex colours (1 to 21), or null if either can't be read */
+export function contrastRatio(foreground: string, background: string) {
+  const a = relativeLuminance(foreground);
+  const b = relativeLuminance(background);
+  if (a === null || b === null) return null;
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+// Text is drawn in the secondary colour on these surfaces
+const TEXT_PAIRS: [keyof ThemeColors, keyof ThemeColors][] = [
+  ['secondary', 'background'],
+  ['secondary', 'light'],
+];
+
+/** The text/background pairs in a theme that fall short of WCAG AA */
+export function findContrastProblems(colors: ThemeColors): ContrastProblem[] {
+  return TEXT_PAIRS.flatMap(([text, surface]) => {
+    const ratio = contrastRatio(colors[text], colors[surface]);
+    return ratio !== null && ratio < WCAG_AA_RATIO ? [{ pair: `${text} on ${surface}`, ratio }] : [];
+  });
+}
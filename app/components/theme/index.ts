@@ -0,0 +1,19 @@
+// Shared themes for any prototype.
+//
+// Wrap the prototype in <ThemeProvider>, style it with the CSS variables it
+// sets (var(--theme-primary), var(--theme-secondary), var(--theme-light),
+// var(--theme-background), var(--theme-font), var(--theme-radius)) and drop a
+// <ThemeSwitcher /> somewhere. The visitor's choice carries over to every
+// prototype, and dark mode follows their system setting unless they pick one.
+//
+// A prototype with its own look passes its own tokens, which are offered next
+// to the built-in themes and checked for readable contrast like them:
+//
+//   <ThemeProvider themes={{ neon: myNeonTheme }} defaultTheme="neon">
+
+export { ThemeProvider, useTheme } from './ThemeProvider';
+export { ThemeSwitcher } from './ThemeSwitcher';
+export { THEMES, THEME_NAMES, DEFAULT_THEME, themeToCssVariables } from './themes';
+export type { Theme, ThemeColors, ThemeName, ColorMode, ColorModeSetting } from './themes';
+export { contrastRatio, relativeLuminance, findContrastProblems, WCAG_AA_RATIO } from './contrast';
+export type { ContrastProblem } from './contrast';
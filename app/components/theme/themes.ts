@@ -0,0 +1,82 @@
+// Theme tokens shared by every prototype.
+//
+// A theme is four colours (plus a font and a corner radius), with a light and
+// a dark version. ThemeProvider turns the chosen one into CSS variables, so a
+// prototype's CSS can use var(--theme-primary) etc. instead of inline styles.
+
+export interface ThemeColors {
+  /** Main accent: wallpaper, active states, highlights */
+  primary: string;
+  /** Borders and text */
+  secondary: string;
+  /** Title bars, buttons and other raised surfaces */
+  light: string;
+  /** Page and window backgrounds */
+  background: string;
+}
+
+export interface Theme {
+  light: ThemeColors;
+  dark: ThemeColors;
+  font: string;
+  radius: string;
+}
+
+export type ColorMode = 'light' | 'dark';
+/** 'system' follows the operating system's dark mode setting */
+export type ColorModeSetting = ColorMode | 'system';
+
+const RETRO_FONT = '"Chicago", -apple-system, system-ui, sans-serif';
+
+export const THEMES = {
+  blue: {
+    light: { primary: '#2a4b8d', secondary: '#1a325e', light: '#e6f0ff', background: '#f5f8ff' },
+    dark: { primary: '#5b7fc4', secondary: '#d6e4ff', light: '#1d2a44', background: '#111a2b' },
+    font: RETRO_FONT,
+    radius: '8px',
+  },
+  pink: {
+    light: { primary: '#d4649b', secondary: '#a13d71', light: '#ffe6f3', background: '#fff5fa' },
+    dark: { primary: '#d4649b', secondary: '#ffd6ea', light: '#3d1a2c', background: '#24101a' },
+    font: RETRO_FONT,
+    radius: '8px',
+  },
+  yellow: {
+    light: { primary: '#ffc107', secondary: '#7a5900', light: '#fff9e6', background: '#fffdf5' },
+    dark: { primary: '#d9a300', secondary: '#fff0c2', light: '#3a2f0d', background: '#1f1a08' },
+    font: RETRO_FONT,
+    radius: '8px',
+  },
+  green: {
+    light: { primary: '#64d47c', secondary: '#256b34', light: '#e6ffe9', background: '#f5fff6' },
+    dark: { primary: '#3da152', secondary: '#d4f7da', light: '#17331d', background: '#0d1f11' },
+    font: RETRO_FONT,
+    radius: '8px',
+  },
+  black: {
+    light: { primary: '#444444', secondary: '#222222', light: '#f0f0f0', background: '#ffffff' },
+    dark: { primary: '#666666', secondary: '#eeeeee', light: '#2a2a2a', background: '#121212' },
+    font: RETRO_FONT,
+    radius: '8px',
+  },
+} satisfies Record<string, Theme>;
+
+export type ThemeName = keyof typeof THEMES;
+
+export const THEME_NAMES = Object.keys(THEMES) as ThemeName[];
+
+export const DEFAULT_THEME: ThemeName = 'blue';
+
+/** The CSS variables for a theme, ready to pass as a `style` prop */
+export function themeToCssVariables(theme: Theme, mode: ColorMode): React.CSSProperties {
+  const colors = theme[mode];
+  return {
+    '--theme-primary': colors.primary,
+    '--theme-secondary': colors.secondary,
+    '--theme-light': colors.light,
+    '--theme-background': colors.background,
+    '--theme-font': theme.font,
+    '--theme-radius': theme.radius,
+    colorScheme: mode,
+  } as React.CSSProperties;
+}
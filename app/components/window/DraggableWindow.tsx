@@ -0,0 +1,99 @@
+'use client';
+
+import { useId } from 'react';
+import styles from './window.module.css';
+import { DraggableWindowOptions, RESIZE_DIRECTIONS, useDraggableWindow } from './useDraggableWindow';
+import { useWindowStack } from './WindowStack';
+
+const MAXIMIZED_STYLE: React.CSSProperties = { left: 0, top: 0, width: '100%', height: '100%' };
+
+export interface DraggableWindowProps extends DraggableWindowOptions {
+  /** Shown in the title bar */
+  title: React.ReactNode;
+  children: React.ReactNode;
+  /** Names the window in a WindowStackProvider (defaults to storageKey) */
+  id?: string;
+  resizable?: boolean;
+  className?: string;
+  style?: React.CSSProperties;
+  /** Styles the title bar, e.g. to match a theme */
+  barClassName?: string;
+  barStyle?: React.CSSProperties;
+  contentClassName?: string;
+  /** Buttons at the end of the title bar (minimize, close...) */
+  actions?: React.ReactNode;
+  /** Fills the whole parent; it can't be moved or resized until restored */
+  maximized?: boolean;
+  onBarDoubleClick?: () => void;
+}
+
+/**
+ * A window you can drag by its title bar and resize from any edge or corner.
+ * It stays inside its parent element (which needs `position: relative`),
+ * snaps to the parent's edges, and remembers where it was left when given a
+ * `storageKey`. When the title bar is focused, arrow keys move the window.
+ */
+export function DraggableWindow({
+  title,
+  children,
+  id,
+  resizable = true,
+  className = '',
+  style,
+  barClassName = '',
+  barStyle,
+  contentClassName = '',
+  actions,
+  maximized = false,
+  onBarDoubleClick,
+  ...options
+}: DraggableWindowProps) {
+  const titleId = useId();
+  const windowId = id ?? options.storageKey ?? titleId;
+  const { ref, style: positionStyle, dragging, resizing, dragHandlers, resizeHandlers, handleKeyDown } =
+    useDraggableWindow(options);
+  const { zIndex, focused, focus } = useWindowStack(windowId);
+
+  return (
+    <div
+      ref={ref}
+      role="group"
+      aria-labelledby={titleId}
+      data-window-id={windowId}
+      className={`${styles.window} ${focused ? styles.focused : ''} ${dragging || resizing ? styles.moving : ''} ${className}`}
+      style={{ ...style, ...positionStyle, ...(maximized ? MAXIMIZED_STYLE : {}), zIndex }}
+      onPointerDownCapture={focus}
+      onFocusCapture={focus}
+    >
+      <div
+        className={`${styles.bar} ${dragging ? styles.dragging : ''} ${maximized ? styles.fixed : ''} ${barClassName}`}
+        style={barStyle}
+        tabIndex={0}
+        data-window-bar
+        aria-keyshortcuts={maximized ? undefined : 'ArrowUp ArrowDown ArrowLeft ArrowRight'}
+        onDoubleClick={onBarDoubleClick}
+        {...(maximized ? {} : { onKeyDown: handleKeyDown, ...dragHandlers })}
+      >
+        <span id={titleId} className={styles.title}>{title}</span>
+        {actions && (
+          // Pressing a button here shouldn't start dragging the window
+          <span className={styles.actions} onPointerDown={(event) => event.stopPropagation()}>
+            {actions}
+          </span>
+        )}
+      </div>
+      <div className={`${styles.content} ${contentClassName}`}>{children}</div>
+      {resizable &&
+        !maximized &&
+        RESIZE_DIRECTIONS.map((direction) => (
+          <div
+            key={direction}
+            data-direction={direction}
+            className={`${styles.handle} ${styles[direction]}`}
+            aria-hidden="true"
+            {...resizeHandlers}
+          />
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+
+interface WindowStackValue {
+  /** Window ids from the back to the front */
+  order: string[];
+  focus: (id: string) => void;
+  /** Moves a window behind all the others */
+  sendToBack: (id: string) => void;
+  add: (id: string) => void;
+  remove: (id: string) => void;
+}
+
+const WindowStackContext = createContext<WindowStackValue | null>(null);
+
+/**
+ * Keeps several windows in a front-to-back order. Put it around the windows;
+ * clicking or tabbing into a window brings it to the front.
+ */
+export function WindowStackProvider({ children }: { children: React.ReactNode }) {
+  const [order, setOrder] = useState<string[]>([]);
+
+  const focus = useCallback((id: string) => {
+    setOrder((current) => (current[current.length - 1] === id ? current : [...current.filter((w) => w !== id), id]));
+  }, []);
+  const sendToBack = useCallback((id: string) => {
+    setOrder((current) => [id, ...current.filter((w) => w !== id)]);
+  }, []);
+  const add = useCallback((id: string) => {
+    setOrder((current) => (current.includes(id) ? current : [...current, id]));
+  }, []);
+  const remove = useCallback((id: string) => {
+    setOrder((current) => current.filter((w) => w !== id));
+  }, []);
+
+  const value = useMemo(
+    () => ({ order, focus, sendToBack, add, remove }),
+    [order, focus, sendToBack, add, remove]
+  );
+  return <WindowStackContext.Provider value={value}>{children}</WindowStackContext.Provider>;
+}
+
+/**
+ * A window's place in the stack: its z-index, whether it's the front window,
+ * and `focus()` to bring it there. Outside a WindowStackProvider every
+ * window counts as the front one.
+ */
+export function useWindowStack(id: string) {
+  const stack = useContext(WindowStackContext);
+  const add = stack?.add;
+  const remove = stack?.remove;
+
+  useEffect(() => {
+    if (!add || !remove) return;
+    add(id);
+    return () => remove(id);
+  }, [id, add, remove]);
+
+  if (!stack) {
+    return { zIndex: undefined, focused: true, focus: () => {} };
+  }
+  const index = stack.order.indexOf(id);
+  return {
+    zIndex: index === -1 ? undefined : index + 1,
+    focused: index !== -1 && index === stack.order.length - 1,
+    focus: () => stack.focus(id),
+  };
+}
+
+/** The whole stack (back to front) and ways to reorder it, or null outside a WindowStackProvider */
+export function useWindowOrder() {
+  const stack = useContext(WindowStackContext);
+  return stack ? { order: stack.order, focus: stack.focus, sendToBack: stack.sendToBack } : null;
+}
@@ -0,0 +1,17 @@
+// Draggable, resizable windows for any prototype.
+//
+// Windows move with mouse, pen and touch, stay inside their parent element,
+// snap to its edges and can remember where they were left. Wrap several
+// windows in a WindowStackProvider so clicking one brings it to the front.
+//
+//   <div style={{ position: 'relative', height: '100vh' }}>
+//     <DraggableWindow title="Notes" storageKey="my-prototype">
+//       ...
+//     </DraggableWindow>
+//   </div>
+
+export { DraggableWindow } from './DraggableWindow';
+export type { DraggableWindowProps } from './DraggableWindow';
+export { useDraggableWindow, RESIZE_DIRECTIONS } from './useDraggableWindow';
+export type { DraggableWindowOptions, ResizeDirection, WindowRect } from './useDraggableWindow';
+export { WindowStackProvider, useWindowStack, useWindowOrder } from './WindowStack';
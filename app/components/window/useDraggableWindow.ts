@@ -0,0 +1,253 @@
+'use client';
+
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { usePointerDrag } from '../controls';
+
+export type ResizeDirection = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+export const RESIZE_DIRECTIONS: ResizeDirection[] = ['n', 's', 'e', 'w', 'ne', 'nw', 'se', 'sw'];
+
+/** Where the window is inside its parent, in pixels */
+export interface WindowRect {
+  x: number;
+  y: number;
+  /** null until the window is resized: it's as big as its content */
+  width: number | null;
+  height: number | null;
+}
+
+export interface DraggableWindowOptions {
+  /** Remembers where the window was left (in localStorage) under this name, e.g. the prototype's folder */
+  storageKey?: string;
+  minWidth?: number;
+  minHeight?: number;
+  /** Windows closer than this to an edge snap onto it */
+  snapDistance?: number;
+  /** Where the window first opens, and how big (default: centred, sized to its content) */
+  defaultRect?: Partial<WindowRect>;
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+// Arrow keys move a focused title bar this far (Shift: 1px at a time)
+const KEY_STEP = 10;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Snaps a position onto the edges it's close to, then keeps the whole window inside
+function placeWindow(x: number, y: number, size: Size, bounds: Size, snapDistance: number) {
+  const maxX = Math.max(0, bounds.width - size.width);
+  const maxY = Math.max(0, bounds.height - size.height);
+  if (Math.abs(x) < snapDistance) x = 0;
+  if (Math.abs(maxX - x) < snapDistance) x = maxX;
+  if (Math.abs(y) < snapDistance) y = 0;
+  if (Math.abs(maxY - y) < snapDistance) y = maxY;
+  return { x: clamp(x, 0, maxX), y: clamp(y, 0, maxY) };
+}
+
+function loadRect(storageKey: string | undefined): WindowRect | null {
+  if (!storageKey) return null;
+  try {
+    const saved = JSON.parse(localStorage.getItem(`${storageKey}:window`) ?? 'null');
+    return typeof saved?.x === 'number' && typeof saved?.y === 'number' ? saved : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveRect(storageKey: string | undefined, rect: WindowRect) {
+  if (!storageKey) return;
+  try {
+    localStorage.setItem(`${storageKey}:window`, JSON.stringify(rect));
+  } catch {
+    // Storage can be blocked or full; the window just opens in its default spot next time
+  }
+}
+
+/**
+ * Moving and resizing a window inside its parent element (give the parent
+ * `position: relative`). Works with mouse, pen and touch, keeps the window
+ * from being dragged out of sight, and snaps it to the parent's edges.
+ *
+ * - `ref` goes on the window
+ * - `dragHandlers` go on the part you drag it by (the title bar)
+ * - `resizeHandlers` go on each resize handle, along with `data-direction="se"` etc.
+ * - `style` positions the window; it stays hidden until it has been placed
+ */
+export function useDraggableWindow({
+  storageKey,
+  minWidth = 200,
+  minHeight = 120,
+  snapDistance = 16,
+  defaultRect,
+}: DraggableWindowOptions = {}) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [rect, setRect] = useState<WindowRect | null>(null);
+  const rectRef = useRef<WindowRect | null>(null);
+  // Where the current drag or resize started, and how far the pointer has gone since
+  const start = useRef({ x: 0, y: 0, width: 0, height: 0 });
+  const moved = useRef({ x: 0, y: 0 });
+  const direction = useRef<ResizeDirection>('se');
+
+  const update = (next: WindowRect) => {
+    rectRef.current = next;
+    setRect(next);
+  };
+
+  const measure = () => {
+    const element = ref.current;
+    const parent = element?.parentElement;
+    if (!element || !parent) return null;
+    return {
+      size: { width: element.offsetWidth, height: element.offsetHeight },
+      bounds: { width: parent.clientWidth, height: parent.clientHeight },
+    };
+  };
+
+  const moveTo = (x: number, y: number) => {
+    const current = rectRef.current;
+    const measured = measure();
+    if (!current || !measured) return;
+    update({ ...current, ...placeWindow(x, y, measured.size, measured.bounds, snapDistance) });
+  };
+
+  const save = () => {
+    if (rectRef.current) saveRect(storageKey, rectRef.current);
+  };
+
+  // Place the window where it was left, or in the middle of its parent the first time
+  useLayoutEffect(() => {
+    const measured = measure();
+    if (!measured) return;
+    const saved = loadRect(storageKey) ?? defaultRect;
+    const width = saved?.width ?? null;
+    const height = saved?.height ?? null;
+    const size = {
+      width: width ?? measured.size.width,
+      height: height ?? measured.size.height,
+    };
+    const x = saved?.x ?? (measured.bounds.width - size.width) / 2;
+    const y = saved?.y ?? (measured.bounds.height - size.height) / 2;
+    update({ width, height, ...placeWindow(x, y, size, measured.bounds, 0) });
+  }, [storageKey]);
+
+  // Pull the window back into view when its parent (or the browser window) shrinks
+  useEffect(() => {
+    const parent = ref.current?.parentElement;
+    if (!parent) return;
+    const observer = new ResizeObserver(() => {
+      const current = rectRef.current;
+      if (current) moveTo(current.x, current.y);
+    });
+    observer.observe(parent);
+    return () => observer.disconnect();
+  }, []);
+
+  const beginInteraction = () => {
+    const element = ref.current;
+    const current = rectRef.current;
+    if (!element || !current) return;
+    start.current = { x: current.x, y: current.y, width: element.offsetWidth, height: element.offsetHeight };
+    moved.current = { x: 0, y: 0 };
+  };
+
+  const drag = usePointerDrag({
+    onStart: beginInteraction,
+    onDrag: (dx, dy) => {
+      moved.current = { x: moved.current.x + dx, y: moved.current.y + dy };
+      moveTo(start.current.x + moved.current.x, start.current.y + moved.current.y);
+    },
+    onEnd: save,
+  });
+
+  const resize = usePointerDrag({
+    onStart: (event) => {
+      direction.current = (event.currentTarget.dataset.direction as ResizeDirection) ?? 'se';
+      beginInteraction();
+    },
+    onDrag: (dx, dy) => {
+      const measured = measure();
+      if (!measured) return;
+      moved.current = { x: moved.current.x + dx, y: moved.current.y + dy };
+      const { bounds } = measured;
+      const from = start.current;
+      const edges = direction.current;
+      let { x, y, width, height } = from;
+
+      // Each edge being dragged moves on its own; the opposite edge stays put
+      if (edges.includes('e')) {
+        width = clamp(from.width + moved.current.x, minWidth, bounds.width - from.x);
+        if (bounds.width - (x + width) < snapDistance) width = bounds.width - x;
+      }
+      if (edges.includes('w')) {
+        const right = from.x + from.width;
+        x = clamp(from.x + moved.current.x, 0, right - minWidth);
+        if (x < snapDistance) x = 0;
+        width = right - x;
+      }
+      if (edges.includes('s')) {
+        height = clamp(from.height + moved.current.y, minHeight, bounds.height - from.y);
+        if (bounds.height - (y + height) < snapDistance) height = bounds.height - y;
+      }
+      if (edges.includes('n')) {
+        const bottom = from.y + from.height;
+        y = clamp(from.y + moved.current.y, 0, bottom - minHeight);
+        if (y < snapDistance) y = 0;
+        height = bottom - y;
+      }
+      // Only the dragged sides get a fixed size; the other one keeps fitting the content
+      const current = rectRef.current;
+      const horizontal = edges.includes('e') || edges.includes('w');
+      const vertical = edges.includes('n') || edges.includes('s');
+      update({
+        x,
+        y,
+        width: horizontal ? width : current?.width ?? null,
+        height: vertical ? height : current?.height ?? null,
+      });
+    },
+    onEnd: save,
+  });
+
+  // Arrow keys on the focused title bar move the window
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    const current = rectRef.current;
+    const offsets: Record<string, [number, number]> = {
+      ArrowLeft: [-1, 0],
+      ArrowRight: [1, 0],
+      ArrowUp: [0, -1],
+      ArrowDown: [0, 1],
+    };
+    const offset = offsets[event.key];
+    if (!current || !offset) return;
+    event.preventDefault();
+    const step = event.shiftKey ? 1 : KEY_STEP;
+    // Snapping would swallow small steps, so keyboard moves only keep the window in bounds
+    const measured = measure();
+    if (!measured) return;
+    const next = {
+      ...current,
+      ...placeWindow(current.x + offset[0] * step, current.y + offset[1] * step, measured.size, measured.bounds, 0),
+    };
+    update(next);
+    saveRect(storageKey, next);
+  };
+
+  const style: React.CSSProperties = rect
+    ? { left: rect.x, top: rect.y, width: rect.width ?? undefined, height: rect.height ?? undefined }
+    : { visibility: 'hidden' };
+
+  return {
+    ref,
+    rect,
+    style,
+    dragging: drag.dragging,
+    resizing: resize.dragging,
+    dragHandlers: drag.handlers,
+    resizeHandlers: resize.handlers,
+    handleKeyDown,
+  };
+}
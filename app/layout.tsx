@@ -5,11 +5,13 @@
  * - Configures metadata like title and favicon
  * - Provides the basic HTML structure
  * - Applies font variables to the entire app
+ * - Adds the script that lets the device preview simulate dark mode and reduced motion
  */
 
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./styles/globals.css";
+import { MediaSimulationScript } from "./components/preview";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -41,6 +43,9 @@ export default function RootLayout({
 }>) {
   return (
     <html lang="en">
+      <head>
+        <MediaSimulationScript />
+      </head>
       <body className={`${geistSans.variable} ${geistMono.variable}`}>
         {children}
       </body>
@@ -0,0 +1,15 @@
+/**
+ * Saving files from the browser, for prototypes that export something
+ * (patches, recordings, review notes).
+ */
+
+/** Saves a blob as a file in the user's downloads */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
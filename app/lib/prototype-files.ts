@@ -0,0 +1,131 @@
+/**
+ * Reads a prototype's own files from disk: its README, its source code and
+ * its `images` folder (listed for the about page, and served one by one so
+ * the README can show them).
+ *
+ * Only for server components (it uses Node's `fs`). Everything is looked up
+ * through the registry, so a made-up slug in the URL can't be used to read
+ * files outside app/prototypes.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { prototypes } from '../prototypes/registry';
+import type { PrototypeEntry } from './prototypes';
+
+const PROTOTYPES_DIR = path.join(process.cwd(), 'app', 'prototypes');
+
+/** The files shown in the source viewer, in this order, when they exist */
+export const SOURCE_FILES = ['page.tsx', 'styles.module.css'];
+
+export interface PrototypeAsset {
+  name: string;
+  /** In bytes */
+  size: number;
+}
+
+export interface PrototypeFiles {
+  /** README.md's text, or null if the prototype doesn't have one yet */
+  readme: string | null;
+  sources: { name: string; code: string }[];
+  images: PrototypeAsset[];
+}
+
+/** The registry entry for a slug, or undefined if there's no such prototype */
+export function findPrototype(slug: string): PrototypeEntry | undefined {
+  return prototypes.find((p) => p.slug === slug);
+}
+
+// A missing file is normal here (not every prototype has a README), so it reads as null
+async function readOptional(file: string) {
+  try {
+    return await fs.readFile(file, 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+async function listImages(folder: string): Promise<PrototypeAsset[]> {
+  try {
+    const entries = await fs.readdir(folder, { withFileTypes: true });
+    const files = entries.filter((entry) => entry.isFile() && !entry.name.startsWith('.'));
+    const assets = await Promise.all(
+      files.map(async (entry) => ({
+        name: entry.name,
+        size: (await fs.stat(path.join(folder, entry.name))).size,
+      }))
+    );
+    return assets.sort((a, b) => a.name.localeCompare(b.name));
+  } catch {
+    return [];
+  }
+}
+
+export async function readPrototypeFiles(prototype: PrototypeEntry): Promise<PrototypeFiles> {
+  const folder = path.join(PROTOTYPES_DIR, prototype.slug);
+  const [readme, images, sources] = await Promise.all([
+    readOptional(path.join(folder, 'README.md')),
+    listImages(path.join(folder, 'images')),
+    Promise.all(SOURCE_FILES.map(async (name) => ({ name, code: await readOptional(path.join(folder, name)) }))),
+  ]);
+
+  return {
+    readme,
+    images,
+    sources: sources.flatMap(({ name, code }) => (code === null ? [] : [{ name, code }])),
+  };
+}
+
+// Only these are served from a prototype's images folder
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.svg': 'image/svg+xml',
+};
+
+/**
+ * One image from a prototype's images folder, for the route at
+ * /prototypes/<slug>/images/<file>. Null if there's no such image. Hidden
+ * files and paths that climb out of the folder ("..") never match.
+ */
+export async function readPrototypeImage(slug: string, file: string[]) {
+  const prototype = findPrototype(slug);
+  const type = IMAGE_TYPES[path.extname(file[file.length - 1] ?? '').toLowerCase()];
+  if (!prototype || !type || file.some((part) => !part || part.startsWith('.'))) return null;
+  // The parts are URL-decoded, so one of them can still hold "a/../../x.png": check where it really ends up
+  const imagesDir = path.join(PROTOTYPES_DIR, prototype.slug, 'images');
+  const resolved = path.resolve(imagesDir, ...file);
+  const relative = path.relative(imagesDir, resolved);
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) return null;
+  try {
+    const data = await fs.readFile(resolved);
+    return { data, type };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Where a relative path in a prototype's README points: its images are
+ * served from /prototypes/<slug>/images/, and its code files jump to the
+ * source viewer on the about page. Anything else can't be shown (null).
+ */
+export function resolveReadmePath(prototype: PrototypeEntry, relativePath: string): string | null {
+  const [file] = relativePath.split(/[?#]/);
+  const clean = path.posix.normalize(file);
+  if (clean.startsWith('..')) return null;
+  if (clean.startsWith('images/')) return `${prototype.path}/${clean}`;
+  if (SOURCE_FILES.includes(clean)) return '#source';
+  return null;
+}
+
+/** 2048 → '2.0 KB' */
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
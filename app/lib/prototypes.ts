@@ -0,0 +1,36 @@
+/**
+ * Shared types for the prototype registry.
+ *
+ * Every folder in app/prototypes (except _template) has a `meta.ts` file that
+ * default-exports a `PrototypeMeta` object. `scripts/generate-registry.mjs`
+ * collects those files into `app/prototypes/registry.ts`, which the home page
+ * reads to build its grid.
+ */
+
+export interface PrototypeMeta {
+  /** Name shown on the home page card */
+  title: string;
+  /** One or two sentences about what the prototype does */
+  description: string;
+  /** Short keywords, e.g. ['audio', 'canvas'] */
+  tags: string[];
+  /** Who made it */
+  author: string;
+  /** Date the prototype was created, written as YYYY-MM-DD */
+  created: string;
+  /** Optional preview image, as a path inside /public (e.g. '/playground/sky.webp') */
+  thumbnail?: string;
+  /**
+   * Set to false to leave out the shared frame (back button, prev/next and
+   * info drawer), e.g. for a full-screen prototype with its own navigation
+   */
+  frame?: boolean;
+}
+
+/** A registry entry: the prototype's metadata plus where it lives */
+export interface PrototypeEntry extends PrototypeMeta {
+  /** Folder name inside app/prototypes */
+  slug: string;
+  /** URL of the prototype page */
+  path: string;
+}
@@ -1,58 +1,34 @@
 import Link from "next/link";
 import styles from './styles/home.module.css';
 import { instrumentSans } from './fonts';
+import { prototypes } from './prototypes/registry';
+import { PrototypeDesktop } from './components/desktop';
+import { PrototypeGallery, parseGalleryParams } from './components/gallery';
 
-export default function Home() {
-  // Add your prototypes to this array
-  const prototypes = [
-    {
-      title: 'Getting started',
-      description: 'How to create a prototype',
-      path: '/prototypes/example'
-    },
-    {
-      title: 'Confetti button',
-      description: 'An interactive button that creates a colorful confetti explosion',
-      path: '/prototypes/confetti-button'
-    },
-    {
-      title: 'Chrome Reflective',
-      description: 'Y2K chrome aesthetic with mirror-finish surfaces and distorted reflections',
-      path: '/prototypes/chrome-reflective'
-    },
-    {
-      title: 'Moog Synthesizer',
-      description: '80s-inspired digital synthesizer with classic Moog-style controls',
-      path: '/prototypes/moog-synth'
-    },
-    // Add your new prototypes here like this:
-    // {
-    //   title: 'Your new prototype',
-    //   description: 'A short description of what this prototype does',
-    //   path: '/prototypes/my-new-prototype'
-    // },
-  ];
+type HomeSearchParams = Promise<{ view?: string; q?: string; tags?: string; sort?: string }>;
+
+export default async function Home({ searchParams }: { searchParams: HomeSearchParams }) {
+  // The prototypes list is built from each prototype's meta.ts file.
+  // To add a prototype, give its folder a meta.ts (see app/prototypes/_template/meta.ts).
+
+  // /?view=desktop opens the prototypes as windows on one desktop instead of a grid
+  const params = await searchParams;
+  if (params.view === 'desktop') {
+    return <PrototypeDesktop prototypes={prototypes} exitHref="/" />;
+  }
 
   return (
     <div className={`${styles.container} ${instrumentSans.className}`}>
       <header className={styles.header}>
         <h1>Kevin's prototypes</h1>
+        <Link href="/?view=desktop" className={styles.viewLink}>
+          Open as desktop ↗
+        </Link>
       </header>
 
       <main>
-        <section className={styles.grid}>
-          {/* Goes through the prototypes list (array) to create cards */}
-          {prototypes.map((prototype, index) => (
-            <Link 
-              key={index}
-              href={prototype.path} 
-              className={styles.card}
-            >
-              <h3>{prototype.title}</h3>
-              <p>{prototype.description}</p>
-            </Link>
-          ))}
-        </section>
+        {/* Search, tag and sort choices come from the URL, e.g. /?q=synth&tags=audio */}
+        <PrototypeGallery prototypes={prototypes} initialFilters={parseGalleryParams(params)} />
       </main>
     </div>
   );
@@ -0,0 +1,123 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import styles from './styles.module.css';
+import { instrumentSans } from '../../../fonts';
+import { prototypes } from '../../registry';
+import { findPrototype, formatFileSize, readPrototypeFiles, resolveReadmePath } from '../../../lib/prototype-files';
+import { Markdown, SourceViewer } from '../../../components/docs';
+
+type AboutParams = Promise<{ slug: string }>;
+
+// One about page per prototype, built ahead of time
+export function generateStaticParams() {
+  return prototypes.map((prototype) => ({ slug: prototype.slug }));
+}
+
+export async function generateMetadata({ params }: { params: AboutParams }): Promise<Metadata> {
+  const prototype = findPrototype((await params).slug);
+  return prototype ? { title: `About ${prototype.title}`, description: prototype.description } : {};
+}
+
+/**
+ * /prototypes/<slug>/about: everything about one prototype in one place.
+ * Its details from meta.ts, its README, the files in its images folder and
+ * its code, so classmates can see how it was made.
+ */
+export default async function PrototypeAbout({ params }: { params: AboutParams }) {
+  const prototype = findPrototype((await params).slug);
+  if (!prototype) notFound();
+
+  const { readme, sources, images } = await readPrototypeFiles(prototype);
+  const folder = `app/prototypes/${prototype.slug}`;
+
+  return (
+    <div className={`${styles.container} ${instrumentSans.className}`}>
+      <nav className={styles.nav}>
+        <Link href="/" className={styles.navLink}>
+          ← All prototypes
+        </Link>
+        <div className={styles.navActions}>
+          <Link href={`${prototype.path}/preview`} className={styles.navLink}>
+            Preview on devices
+          </Link>
+          <Link href={prototype.path} className={`${styles.navLink} ${styles.openLink}`}>
+            Open prototype →
+          </Link>
+        </div>
+      </nav>
+
+      <header className={styles.header}>
+        {prototype.thumbnail && (
+          <img src={prototype.thumbnail} alt="" className={styles.thumbnail} />
+        )}
+        <div>
+          <h1 className={styles.title}>{prototype.title}</h1>
+          <p className={styles.description}>{prototype.description}</p>
+          <dl className={styles.meta}>
+            <dt className={styles.metaLabel}>Made by</dt>
+            <dd className={styles.metaValue}>{prototype.author}</dd>
+            <dt className={styles.metaLabel}>Created</dt>
+            <dd className={styles.metaValue}>
+              <time dateTime={prototype.created}>{prototype.created}</time>
+            </dd>
+            <dt className={styles.metaLabel}>Folder</dt>
+            <dd className={styles.metaValue}>
+              <code className={styles.path}>{folder}</code>
+            </dd>
+          </dl>
+          {prototype.tags.length > 0 && (
+            <ul className={styles.tags} aria-label="Tags">
+              {/* Each tag opens the home page filtered to that tag */}
+              {prototype.tags.map((tag) => (
+                <li key={tag}>
+                  <Link href={`/?tags=${encodeURIComponent(tag)}`} className={styles.tag}>
+                    {tag}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </header>
+
+      <main className={styles.main}>
+        <section className={styles.section} aria-labelledby="readme">
+          <h2 id="readme" className={styles.sectionTitle}>README</h2>
+          {readme ? (
+            // Relative paths in the README (images/sketch.png, page.tsx) point into the prototype's folder
+            <Markdown source={readme} resolveUrl={(relativePath) => resolveReadmePath(prototype, relativePath)} />
+          ) : (
+            <p className={styles.hint}>
+              No README yet. Add a <code className={styles.path}>README.md</code> to <code className={styles.path}>{folder}</code> explaining what the
+              prototype is and how to run it, and it will show up here.
+            </p>
+          )}
+        </section>
+
+        <section className={styles.section} aria-labelledby="images">
+          <h2 id="images" className={styles.sectionTitle}>Images</h2>
+          {images.length > 0 ? (
+            <ul className={styles.assets}>
+              {images.map((image) => (
+                <li key={image.name} className={styles.asset}>
+                  <code className={styles.path}>images/{image.name}</code>
+                  <span className={styles.assetSize}>{formatFileSize(image.size)}</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className={styles.hint}>
+              Nothing in <code className={styles.path}>{folder}/images</code>.
+            </p>
+          )}
+        </section>
+
+        <section className={styles.section} aria-labelledby="source">
+          <h2 id="source" className={styles.sectionTitle}>Source</h2>
+          <SourceViewer files={sources} />
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { readPrototypeImage } from '../../../../lib/prototype-files';
+
+type ImageParams = Promise<{ slug: string; file: string[] }>;
+
+/**
+ * /prototypes/<slug>/images/<file>: serves a prototype's own images, so its
+ * README can show them with a relative path like ![sketch](images/sketch.png).
+ */
+export async function GET(_request: Request, { params }: { params: ImageParams }) {
+  const { slug, file } = await params;
+  const image = await readPrototypeImage(slug, file);
+  if (!image) return new Response('Not found', { status: 404 });
+
+  return new Response(new Uint8Array(image.data), {
+    headers: {
+      'Content-Type': image.type,
+      // An SVG opened on its own could run scripts; this stops that
+      'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'",
+    },
+  });
+}
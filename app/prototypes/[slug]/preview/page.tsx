@@ -0,0 +1,37 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { instrumentSans } from '../../../fonts';
+import { findPrototype } from '../../../lib/prototype-files';
+import { DevicePreview, parsePreviewParams } from '../../../components/preview';
+
+type PreviewParams = Promise<{ slug: string }>;
+type PreviewSearchParams = Promise<Record<string, string | string[] | undefined>>;
+
+export async function generateMetadata({ params }: { params: PreviewParams }): Promise<Metadata> {
+  const prototype = findPrototype((await params).slug);
+  return prototype ? { title: `${prototype.title} on devices` } : {};
+}
+
+/**
+ * /prototypes/<slug>/preview: the prototype inside phone, tablet and desktop
+ * frames. The devices and switches come from the URL, e.g.
+ * ?device=iphone-se,ipad-mini&compare=1&scheme=dark
+ */
+export default async function PrototypePreview({
+  params,
+  searchParams,
+}: {
+  params: PreviewParams;
+  searchParams: PreviewSearchParams;
+}) {
+  const prototype = findPrototype((await params).slug);
+  if (!prototype) notFound();
+
+  return (
+    <DevicePreview
+      prototype={prototype}
+      initialSettings={parsePreviewParams(await searchParams)}
+      className={instrumentSans.className}
+    />
+  );
+}
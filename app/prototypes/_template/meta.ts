@@ -0,0 +1,17 @@
+// Metadata for the home page.
+// Fill this in for your prototype; the home page is built from these files.
+// - created: the date you made the prototype, written as YYYY-MM-DD
+// - thumbnail (optional): an image path inside /public, e.g. '/playground/sky.webp'
+// - frame (optional): set to false to hide the shared back button, prev/next and info drawer
+
+import type { PrototypeMeta } from '../../lib/prototypes';
+
+const meta: PrototypeMeta = {
+  title: 'My new prototype',
+  description: 'A short description of what this prototype does',
+  tags: [],
+  author: 'Your name',
+  created: '2026-01-01',
+};
+
+export default meta;
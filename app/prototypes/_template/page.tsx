@@ -3,11 +3,11 @@
 // Template for creating a new prototype
 // To use this template:
 // 1. Create a new folder in app/prototypes with your prototype name
-// 2. Copy this file and styles.module.css into your new folder
+// 2. Copy this file, styles.module.css and meta.ts into your new folder
 // 3. Create an 'images' folder for your prototype's images
 // 4. Rename and customize the component and styles as needed
+// 5. Fill in meta.ts so your prototype shows up on the home page
 
-import Link from 'next/link';
 import styles from './styles.module.css';
 
 export default function PrototypeTemplate() {
@@ -0,0 +1,112 @@
+// Finishes: how the metal looks. The panel's three meters set the numbers,
+// and a finish can be saved under a name to come back to later.
+//
+// The same finish drives both looks: the WebGL reflections read it directly,
+// and the CSS chrome (used when WebGL isn't available) reads it through the
+// CSS variables from finishToCssVariables().
+
+import type { Tint } from './reflections';
+
+export interface Finish {
+  name: string;
+  /** 0..100: how strong the highlights and glints are */
+  reflectivity: number;
+  /** 0..100: 100 is a sharp mirror, lower values blur the reflection */
+  polish: number;
+  /** 0..100: how much the reflection bends and wobbles */
+  distortion: number;
+  /** The metal's colour, multiplied into the reflection */
+  tint: Tint;
+  /** 0..1: a rainbow sheen that shifts with the viewing angle */
+  iridescence: number;
+}
+
+export type FinishSetting = 'reflectivity' | 'polish' | 'distortion';
+
+export const FINISH_SETTINGS: FinishSetting[] = ['reflectivity', 'polish', 'distortion'];
+
+export const FINISH_PRESETS: Finish[] = [
+  { name: 'Chrome', reflectivity: 100, polish: 85, distortion: 70, tint: [1, 1, 1], iridescence: 0 },
+  { name: 'Gold', reflectivity: 90, polish: 80, distortion: 40, tint: [1, 0.8, 0.42], iridescence: 0 },
+  { name: 'Gunmetal', reflectivity: 55, polish: 60, distortion: 25, tint: [0.5, 0.53, 0.58], iridescence: 0 },
+  { name: 'Holographic', reflectivity: 85, polish: 95, distortion: 85, tint: [0.95, 0.95, 1], iridescence: 1 },
+];
+
+export const DEFAULT_FINISH = FINISH_PRESETS[0];
+
+/** The most blur a completely unpolished surface gets, in pixels */
+const MAX_BLUR = 12;
+
+/** How far the CSS reflections drift at full distortion, in pixels */
+const MAX_DRIFT = 40;
+
+const toCssColor = ([r, g, b]: Tint) =>
+  `rgb(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)})`;
+
+/** Blur for a polish setting, in pixels */
+export const blurForPolish = (polish: number) => ((100 - polish) / 100) * MAX_BLUR;
+
+/**
+ * CSS variables for the container:
+ *   --chrome-highlight   0..1, highlight and glint strength
+ *   --chrome-blur        blur length
+ *   --chrome-drift       how far reflections drift
+ *   --chrome-tint        a colour (or a rainbow gradient) laid over the CSS chrome
+ */
+export function finishToCssVariables(finish: Finish) {
+  const color = toCssColor(finish.tint);
+  return {
+    '--chrome-highlight': String(finish.reflectivity / 100),
+    '--chrome-blur': `${blurForPolish(finish.polish)}px`,
+    '--chrome-drift': `${(finish.distortion / 100) * MAX_DRIFT}px`,
+    '--chrome-tint':
+      finish.iridescence > 0
+        ? `linear-gradient(135deg, #ffd6f0, #d6e8ff, #d6ffe8, #fff6d6, ${color})`
+        : `linear-gradient(${color}, ${color})`,
+  } as React.CSSProperties;
+}
+
+// ----- localStorage -----
+
+const SAVED_FINISHES_KEY = 'chrome-reflective:finishes';
+
+const readNumber = (value: unknown, fallback: number, min: number, max: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+/** Checks a saved finish, filling anything missing from the default */
+function parseFinish(raw: unknown): Finish | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const item = raw as Record<string, unknown>;
+  if (typeof item.name !== 'string' || !item.name.trim()) return null;
+  const tint =
+    Array.isArray(item.tint) && item.tint.length === 3 && item.tint.every((c) => typeof c === 'number')
+      ? (item.tint.map((c: number) => Math.min(1, Math.max(0, c))) as Tint)
+      : DEFAULT_FINISH.tint;
+  return {
+    name: item.name,
+    reflectivity: readNumber(item.reflectivity, DEFAULT_FINISH.reflectivity, 0, 100),
+    polish: readNumber(item.polish, DEFAULT_FINISH.polish, 0, 100),
+    distortion: readNumber(item.distortion, DEFAULT_FINISH.distortion, 0, 100),
+    tint,
+    iridescence: readNumber(item.iridescence, 0, 0, 1),
+  };
+}
+
+/** Finishes the user saved, skipping any that can no longer be read */
+export function loadSavedFinishes(): Finish[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SAVED_FINISHES_KEY) ?? '[]');
+    if (!Array.isArray(saved)) return [];
+    return saved.flatMap((item) => parseFinish(item) ?? []);
+  } catch {
+    return [];
+  }
+}
+
+export function saveFinishes(finishes: Finish[]) {
+  try {
+    localStorage.setItem(SAVED_FINISHES_KEY, JSON.stringify(finishes));
+  } catch {
+    // Storage can be blocked or full; saved finishes last until the page reloads
+  }
+}
@@ -0,0 +1,12 @@
+import type { PrototypeMeta } from '../../lib/prototypes';
+
+const meta: PrototypeMeta = {
+  title: 'Chrome Reflective',
+  description: 'Y2K chrome aesthetic with mirror-finish surfaces and distorted reflections',
+  tags: ['visual', 'y2k', 'css'],
+  author: 'Kevin',
+  created: '2026-01-12',
+  thumbnail: '/playground/clouds.jpeg',
+};
+
+export default meta;
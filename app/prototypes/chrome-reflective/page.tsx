@@ -1,12 +1,219 @@
 "use client";
 
-import Link from 'next/link';
 import styles from './styles.module.css';
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import {
+  ENVIRONMENTS,
+  ReflectionRenderer,
+  Tint,
+  createReflectionRenderer,
+  loadImage,
+  tiltFromOrientation,
+} from './reflections';
+import {
+  DEFAULT_FINISH,
+  FINISH_PRESETS,
+  FINISH_SETTINGS,
+  Finish,
+  FinishSetting,
+  finishToCssVariables,
+  loadSavedFinishes,
+  saveFinishes,
+} from './finishes';
+import { usePointerDrag, valueForKey } from '../../components/controls';
+
+const CHROME: Tint = [1, 1, 1];
+const BLUE_CHROME: Tint = [0.82, 0.89, 1];
+const PINK_CHROME: Tint = [1, 0.85, 0.94];
+
+const multiplyTints = (a: Tint, b: Tint): Tint => [a[0] * b[0], a[1] * b[1], a[2] * b[2]];
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+// How quickly the reflection catches up with the pointer (0..1 per frame); lower is lazier
+const FOLLOW = 0.12;
+
+// iOS only reports tilt after the page asks for permission from a tap
+type OrientationEventWithPermission = typeof DeviceOrientationEvent & {
+  requestPermission?: () => Promise<'granted' | 'denied'>;
+};
 
 export default function ChromeReflectivePrototype() {
   const [hoveredElement, setHoveredElement] = useState<string | null>(null);
   const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
+  const [environment, setEnvironment] = useState(ENVIRONMENTS[0]);
+  // null until we know whether WebGL works; false means we're showing the CSS chrome
+  const [live, setLive] = useState<boolean | null>(null);
+  // False if WebGL doesn't work at all. An environment photo that fails to load
+  // only makes `live` false, and another photo can still be picked.
+  const [hasRenderer, setHasRenderer] = useState(true);
+  const [statusMessage, setStatusMessage] = useState('');
+  const [needsTiltPermission, setNeedsTiltPermission] = useState(false);
+  const [finish, setFinish] = useState<Finish>(DEFAULT_FINISH);
+  const [savedFinishes, setSavedFinishes] = useState<Finish[]>([]);
+  const [finishName, setFinishName] = useState(DEFAULT_FINISH.name);
+  const [finishMessage, setFinishMessage] = useState('');
+  // The animation loop reads the finish from here, so it doesn't restart on every change
+  const finishRef = useRef(finish);
+  finishRef.current = finish;
+
+  const rendererRef = useRef<ReflectionRenderer | null>(null);
+  const environmentReadyRef = useRef(false);
+  const surfacesRef = useRef(new Map<string, { canvas: HTMLCanvasElement; tint: Tint }>());
+  // Where the pointer and tilt are heading, and where the reflection has got to
+  const targetRef = useRef({ pointer: { x: 0, y: 0 }, tilt: { x: 0, y: 0 } });
+  const currentRef = useRef({ pointer: { x: 0, y: 0 }, tilt: { x: 0, y: 0 } });
+
+  /** Each chrome surface registers the canvas its reflection is drawn on */
+  const surfaceCanvas = (name: string, tint: Tint) => (canvas: HTMLCanvasElement | null) => {
+    if (canvas) surfacesRef.current.set(name, { canvas, tint });
+    else surfacesRef.current.delete(name);
+  };
+
+  // One WebGL renderer for the whole page, redrawing every surface each frame
+  useEffect(() => {
+    const renderer = createReflectionRenderer();
+    if (!renderer) {
+      setLive(false);
+      setHasRenderer(false);
+      setStatusMessage('WebGL unavailable: showing CSS chrome');
+      return;
+    }
+    rendererRef.current = renderer;
+    const reducedMotion = window.matchMedia(REDUCED_MOTION_QUERY);
+    const start = performance.now();
+    let frame = 0;
+
+    const draw = (now: number) => {
+      frame = requestAnimationFrame(draw);
+      if (!environmentReadyRef.current) return;
+
+      const target = targetRef.current;
+      const current = currentRef.current;
+      current.pointer.x += (target.pointer.x - current.pointer.x) * FOLLOW;
+      current.pointer.y += (target.pointer.y - current.pointer.y) * FOLLOW;
+      current.tilt.x += (target.tilt.x - current.tilt.x) * FOLLOW;
+      current.tilt.y += (target.tilt.y - current.tilt.y) * FOLLOW;
+
+      const finish = finishRef.current;
+      const input = {
+        pointer: current.pointer,
+        tilt: current.tilt,
+        // With reduced motion the metal holds still unless you move it yourself
+        time: reducedMotion.matches ? 0 : (now - start) / 1000,
+        distortion: finish.distortion / 100,
+        highlight: finish.reflectivity / 100,
+        iridescence: finish.iridescence,
+      };
+      surfacesRef.current.forEach(({ canvas, tint }) =>
+        renderer.draw(canvas, multiplyTints(tint, finish.tint), input)
+      );
+    };
+    frame = requestAnimationFrame(draw);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      renderer.dispose();
+      rendererRef.current = null;
+    };
+  }, []);
+
+  // Load the environment photo onto the GPU whenever it changes
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+    let cancelled = false;
+    environmentReadyRef.current = false;
+
+    loadImage(environment.src)
+      .then((image) => {
+        if (cancelled) return;
+        renderer.setEnvironment(image);
+        environmentReadyRef.current = true;
+        setLive(true);
+        setStatusMessage(`Reflecting ${environment.name.toLowerCase()}`);
+      })
+      .catch((error: Error) => {
+        if (cancelled) return;
+        setLive(false);
+        setStatusMessage(`${error.message}: showing CSS chrome`);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [environment]);
+
+  // Pointer anywhere in the window tilts the reflections, -1..1 from the centre
+  useEffect(() => {
+    const handlePointerMove = (event: PointerEvent) => {
+      targetRef.current.pointer = {
+        x: (event.clientX / window.innerWidth) * 2 - 1,
+        y: (event.clientY / window.innerHeight) * 2 - 1,
+      };
+    };
+    window.addEventListener('pointermove', handlePointerMove);
+    return () => window.removeEventListener('pointermove', handlePointerMove);
+  }, []);
+
+  // Phones and tablets can tilt the reflections too
+  useEffect(() => {
+    const handleOrientation = (event: DeviceOrientationEvent) => {
+      if (event.beta === null && event.gamma === null) return;
+      targetRef.current.tilt = tiltFromOrientation(event);
+    };
+    const orientationEvent = window.DeviceOrientationEvent as OrientationEventWithPermission | undefined;
+    setNeedsTiltPermission(typeof orientationEvent?.requestPermission === 'function');
+    window.addEventListener('deviceorientation', handleOrientation);
+    return () => window.removeEventListener('deviceorientation', handleOrientation);
+  }, []);
+
+  useEffect(() => {
+    setSavedFinishes(loadSavedFinishes());
+  }, []);
+
+  const handleSettingChange = (setting: FinishSetting, value: number) => {
+    setFinish((current) => ({ ...current, [setting]: value }));
+  };
+
+  const handleLoadFinish = (value: string) => {
+    const [bank, index] = value.split(':');
+    const chosen = (bank === 'preset' ? FINISH_PRESETS : savedFinishes)[Number(index)];
+    if (!chosen) return;
+    setFinish(chosen);
+    setFinishName(chosen.name);
+    setFinishMessage(`Loaded "${chosen.name}"`);
+  };
+
+  // Saving uses the name box; a finish with the same name is replaced
+  const handleSaveFinish = () => {
+    const name = finishName.trim() || DEFAULT_FINISH.name;
+    const saved = { ...finish, name };
+    const next = [...savedFinishes.filter((f) => f.name !== name), saved];
+    setSavedFinishes(next);
+    saveFinishes(next);
+    setFinish(saved);
+    setFinishName(name);
+    setFinishMessage(`Saved "${name}"`);
+  };
+
+  const handleDeleteFinish = () => {
+    const next = savedFinishes.filter((f) => f.name !== finishName);
+    setSavedFinishes(next);
+    saveFinishes(next);
+    setFinishMessage(`Deleted "${finishName}"`);
+  };
+
+  const requestTilt = async () => {
+    const orientationEvent = window.DeviceOrientationEvent as OrientationEventWithPermission;
+    try {
+      const answer = await orientationEvent.requestPermission?.();
+      setNeedsTiltPermission(false);
+      if (answer !== 'granted') setStatusMessage('Tilt permission denied');
+    } catch (error) {
+      setStatusMessage(error instanceof Error ? error.message : 'Could not turn on tilt');
+    }
+  };
 
   const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
     const rect = e.currentTarget.getBoundingClientRect();
@@ -18,17 +225,39 @@ export default function ChromeReflectivePrototype() {
 
   return (
     <div 
-      className={styles.container}
+      className={`${styles.container} ${live ? styles.live : ''}`}
+      style={finishToCssVariables(finish)}
       onMouseMove={handleMouseMove}
     >
-      <Link href="/" className={styles.backButton}>
-        ←
-      </Link>
-
       <main className={styles.main}>
         <div className={styles.titleSection}>
           <h1 className={styles.title}>CHROME</h1>
           <p className={styles.subtitle}>Reflective Y2K Aesthetic</p>
+
+          <div className={styles.environmentControls}>
+            {hasRenderer &&
+              ENVIRONMENTS.map((option) => (
+                <button
+                  key={option.name}
+                  type="button"
+                  className={`${styles.environmentButton} ${option === environment ? styles.selected : ''}`}
+                  aria-pressed={option === environment}
+                  onClick={() => setEnvironment(option)}
+                >
+                  {option.name}
+                </button>
+              ))}
+            {needsTiltPermission && live && (
+              <button type="button" className={styles.environmentButton} onClick={requestTilt}>
+                USE TILT
+              </button>
+            )}
+            {statusMessage && (
+              <span className={styles.environmentStatus} role="status">
+                {statusMessage}
+              </span>
+            )}
+          </div>
         </div>
 
         <div className={styles.chromeGrid}>
@@ -42,6 +271,7 @@ export default function ChromeReflectivePrototype() {
               '--mouse-y': `${mousePosition.y}px`,
             } as React.CSSProperties}
           >
+            <canvas ref={surfaceCanvas('r', CHROME)} className={styles.reflectionCanvas} aria-hidden="true" />
             <div className={styles.sculptureReflection}></div>
             <div className={styles.sculptureHighlight}></div>
           </div>
@@ -53,6 +283,7 @@ export default function ChromeReflectivePrototype() {
               onMouseEnter={() => setHoveredElement('btn1')}
               onMouseLeave={() => setHoveredElement(null)}
             >
+              <canvas ref={surfaceCanvas('btn1', CHROME)} className={styles.reflectionCanvas} aria-hidden="true" />
               <span className={styles.buttonReflection}></span>
               <span className={styles.buttonText}>ENTER</span>
             </button>
@@ -62,6 +293,7 @@ export default function ChromeReflectivePrototype() {
               onMouseEnter={() => setHoveredElement('btn2')}
               onMouseLeave={() => setHoveredElement(null)}
             >
+              <canvas ref={surfaceCanvas('btn2', BLUE_CHROME)} className={styles.reflectionCanvas} aria-hidden="true" />
               <span className={styles.buttonReflection}></span>
               <span className={styles.buttonText}>SUBMIT</span>
             </button>
@@ -71,6 +303,7 @@ export default function ChromeReflectivePrototype() {
               onMouseEnter={() => setHoveredElement('btn3')}
               onMouseLeave={() => setHoveredElement(null)}
             >
+              <canvas ref={surfaceCanvas('btn3', PINK_CHROME)} className={styles.reflectionCanvas} aria-hidden="true" />
               <span className={styles.buttonReflection}></span>
               <span className={styles.buttonText}>LAUNCH</span>
             </button>
@@ -82,6 +315,7 @@ export default function ChromeReflectivePrototype() {
             onMouseEnter={() => setHoveredElement('card')}
             onMouseLeave={() => setHoveredElement(null)}
           >
+            <canvas ref={surfaceCanvas('card', CHROME)} className={styles.reflectionCanvas} aria-hidden="true" />
             <div className={styles.cardReflection}></div>
             <div className={styles.cardContent}>
               <h3 className={styles.cardTitle}>MIRROR FINISH</h3>
@@ -98,26 +332,64 @@ export default function ChromeReflectivePrototype() {
             onMouseEnter={() => setHoveredElement('panel')}
             onMouseLeave={() => setHoveredElement(null)}
           >
+            <canvas ref={surfaceCanvas('panel', BLUE_CHROME)} className={styles.reflectionCanvas} aria-hidden="true" />
             <div className={styles.panelReflection}></div>
             <div className={styles.panelContent}>
-              <div className={styles.panelItem}>
-                <span className={styles.panelLabel}>REFLECTIVITY</span>
-                <div className={styles.panelBar}>
-                  <div className={styles.panelBarFill}></div>
-                </div>
-              </div>
-              <div className={styles.panelItem}>
-                <span className={styles.panelLabel}>POLISH</span>
-                <div className={styles.panelBar}>
-                  <div className={styles.panelBarFill} style={{ width: '85%' }}></div>
-                </div>
-              </div>
-              <div className={styles.panelItem}>
-                <span className={styles.panelLabel}>DISTORTION</span>
-                <div className={styles.panelBar}>
-                  <div className={styles.panelBarFill} style={{ width: '70%' }}></div>
-                </div>
+              {FINISH_SETTINGS.map((setting) => (
+                <PanelMeter
+                  key={setting}
+                  label={setting.toUpperCase()}
+                  value={finish[setting]}
+                  onChange={(value) => handleSettingChange(setting, value)}
+                />
+              ))}
+
+              {/* Finishes: presets and the user's own, saved by name */}
+              <div className={styles.finishBar}>
+                <select
+                  className={styles.finishSelect}
+                  value=""
+                  onChange={(e) => handleLoadFinish(e.target.value)}
+                  aria-label="Load a finish"
+                >
+                  <option value="" disabled>FINISH…</option>
+                  <optgroup label="Presets">
+                    {FINISH_PRESETS.map((preset, index) => (
+                      <option key={preset.name} value={`preset:${index}`}>{preset.name}</option>
+                    ))}
+                  </optgroup>
+                  {savedFinishes.length > 0 && (
+                    <optgroup label="Saved">
+                      {savedFinishes.map((saved, index) => (
+                        <option key={saved.name} value={`saved:${index}`}>{saved.name}</option>
+                      ))}
+                    </optgroup>
+                  )}
+                </select>
+                <input
+                  className={styles.finishName}
+                  value={finishName}
+                  onChange={(e) => setFinishName(e.target.value)}
+                  maxLength={30}
+                  aria-label="Finish name"
+                />
+                <button type="button" className={styles.finishButton} onClick={handleSaveFinish}>
+                  SAVE
+                </button>
+                <button
+                  type="button"
+                  className={styles.finishButton}
+                  onClick={handleDeleteFinish}
+                  disabled={!savedFinishes.some((f) => f.name === finishName)}
+                >
+                  DELETE
+                </button>
               </div>
+              {finishMessage && (
+                <p className={styles.finishMessage} role="status">
+                  {finishMessage}
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -126,10 +398,70 @@ export default function ChromeReflectivePrototype() {
         <div className={styles.infoSection}>
           <p className={styles.infoText}>
             This prototype demonstrates the chrome/reflective Y2K aesthetic with mirror-finish surfaces,
-            distorted reflections, and high-polish metallic effects.
+            distorted reflections, and high-polish metallic effects. With WebGL, every surface reflects
+            a real environment photo that bends as you move the pointer or tilt your device.
           </p>
         </div>
       </main>
     </div>
   );
 }
+
+interface PanelMeterProps {
+  label: string;
+  /** 0..100 */
+  value: number;
+  onChange: (value: number) => void;
+}
+
+const METER_RANGE = { min: 0, max: 100, step: 1 };
+
+/**
+ * One of the panel's bars, as a slider: press anywhere on the bar to jump
+ * there and drag along it, or use the arrow keys, Page Up/Down, Home and End.
+ */
+function PanelMeter({ label, value, onChange }: PanelMeterProps) {
+  const barRef = useRef<HTMLDivElement>(null);
+
+  const valueAt = (clientX: number) => {
+    const rect = barRef.current?.getBoundingClientRect();
+    if (!rect) return value;
+    return Math.round(Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)) * 100);
+  };
+
+  const { dragging, handlers } = usePointerDrag({
+    onStart: (event) => onChange(valueAt(event.clientX)),
+    onDrag: (_dx, _dy, event) => onChange(valueAt(event.clientX)),
+  });
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    const next = valueForKey(event.key, value, METER_RANGE, event.shiftKey);
+    if (next === null) return;
+    event.preventDefault();
+    onChange(next);
+  };
+
+  return (
+    <div className={styles.panelItem}>
+      <span className={styles.panelLabel}>
+        {label}
+        <span className={styles.panelValue}>{value}%</span>
+      </span>
+      <div
+        ref={barRef}
+        role="slider"
+        tabIndex={0}
+        aria-label={label}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={value}
+        aria-valuetext={`${value}%`}
+        className={`${styles.panelBar} ${dragging ? styles.dragging : ''}`}
+        onKeyDown={handleKeyDown}
+        {...handlers}
+      >
+        <div className={styles.panelBarFill} style={{ width: `${value}%` }}></div>
+      </div>
+    </div>
+  );
+}
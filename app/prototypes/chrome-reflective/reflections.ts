@@ -0,0 +1,270 @@
+// Live chrome reflections: an environment photo mirrored onto every chrome surface.
+//
+// One hidden WebGL canvas does all the work. For each surface we draw a
+// curved, polished "pillow" of metal that reflects the environment image,
+// then copy the result onto that surface's own 2D canvas. Sharing one WebGL
+// context keeps us well under the browser's limit on how many it allows.
+//
+// The reflection depends on where the surface sits on screen, where the
+// pointer is and how the device is tilted, so moving either one makes the
+// sky slide and bend across the metal like it would on a real chrome object.
+
+export interface Environment {
+  name: string;
+  src: string;
+}
+
+export const ENVIRONMENTS: Environment[] = [
+  { name: 'SKY', src: '/playground/sky.webp' },
+  { name: 'CLOUDS', src: '/playground/clouds.jpeg' },
+];
+
+/** Big photos are shrunk to this before they go to the GPU; reflections are blurry anyway */
+const MAX_TEXTURE_SIZE = 1024;
+
+/** Everything that changes between frames, all in -1..1 unless noted */
+export interface ReflectionInput {
+  /** Pointer position across the whole window (0, 0 is the centre) */
+  pointer: { x: number; y: number };
+  /** Device tilt, left/right and forward/back */
+  tilt: { x: number; y: number };
+  /** Seconds, drives the slow ripple in the metal */
+  time: number;
+  /** 0 = perfect mirror, 1 = heavily warped */
+  distortion: number;
+  /** 0..1, how bright the glints are */
+  highlight: number;
+  /** 0..1, a rainbow sheen like a holographic sticker */
+  iridescence: number;
+}
+
+/** A surface's colour cast, 0..1 per channel (plain chrome is white) */
+export type Tint = [number, number, number];
+
+export interface ReflectionRenderer {
+  setEnvironment: (image: HTMLImageElement) => void;
+  /** Draws the reflection for the surface `target` is laid over, at its current size and position */
+  draw: (target: HTMLCanvasElement, tint: Tint, input: ReflectionInput) => void;
+  dispose: () => void;
+}
+
+const VERTEX_SHADER = `
+attribute vec2 aPosition;
+varying vec2 vUv;
+
+void main() {
+  // 0..1 across the surface, with y going down like the page
+  vUv = vec2(aPosition.x, -aPosition.y) * 0.5 + 0.5;
+  gl_Position = vec4(aPosition, 0.0, 1.0);
+}
+`;
+
+const FRAGMENT_SHADER = `
+precision mediump float;
+
+varying vec2 vUv;
+uniform sampler2D uEnvironment;
+uniform vec4 uRect;       // surface position and size, as fractions of the window
+uniform vec2 uPointer;
+uniform vec2 uTilt;
+uniform float uTime;
+uniform float uDistortion;
+uniform float uHighlight;
+uniform float uIridescence;
+uniform vec3 uTint;
+
+void main() {
+  vec2 screen = uRect.xy + vUv * uRect.zw;
+  vec2 p = vUv * 2.0 - 1.0;
+
+  // A pillow shape: flat in the middle, curving away near the edges
+  vec2 bend = sign(p) * pow(abs(p), vec2(4.0)) * 0.9;
+
+  // Slow waves in the metal, so the reflection never looks like a flat photo
+  vec2 ripple = uDistortion * 0.18 * vec2(
+    sin(screen.y * 17.0 + p.x * 3.0 + uTime * 0.6),
+    cos(screen.x * 13.0 - p.y * 2.0 - uTime * 0.5)
+  );
+
+  vec2 lean = (uPointer + uTilt) * 0.35;
+  vec3 normal = normalize(vec3(bend + ripple + lean, 1.0));
+  normal.y = -normal.y;
+
+  // Looking into the screen from a little in front of the middle of the window
+  vec3 view = normalize(vec3((screen.x - 0.5) * 0.8, (0.5 - screen.y) * 0.8, -1.0));
+  vec3 r = reflect(view, normal);
+
+  // The photo sits behind the viewer; the bottom half of the mirror sees the ground instead
+  vec3 sky = texture2D(uEnvironment, clamp(vec2(0.5 + r.x * 0.5, 0.55 - r.y * 0.7), 0.0, 1.0)).rgb;
+  vec3 ground = vec3(0.28, 0.26, 0.25) * (1.2 + r.y);
+  vec3 color = mix(ground, sky, smoothstep(-0.06, 0.02, r.y));
+
+  // Chrome mostly shows brightness, not colour, and has hard contrast
+  float luma = dot(color, vec3(0.299, 0.587, 0.114));
+  color = mix(vec3(luma), color, 0.45);
+  color = smoothstep(0.05, 0.95, color);
+
+  // A bright glint where the light (near the pointer) reflects straight back
+  vec3 light = normalize(vec3(uPointer.x, -uPointer.y, 1.2));
+  float glint = pow(max(dot(r, light), 0.0), 60.0) * uHighlight;
+
+  // Holographic foil: the colour cycles through the rainbow as the angle changes
+  vec3 rainbow = 0.5 + 0.5 * cos(6.2832 * (r.x * 1.2 + r.y * 0.8 + vec3(0.0, 0.33, 0.67)));
+  color = mix(color, color * (0.6 + rainbow * 0.7), uIridescence);
+
+  gl_FragColor = vec4(color * uTint * (0.75 + 0.25 * uHighlight) + glint, 1.0);
+}
+`;
+
+function compileShader(gl: WebGLRenderingContext, type: number, source: string) {
+  const shader = gl.createShader(type);
+  if (!shader) throw new Error('Could not create a shader');
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Shader didn't compile: ${log}`);
+  }
+  return shader;
+}
+
+/** Copies the image onto a smaller canvas if it's bigger than MAX_TEXTURE_SIZE */
+function shrinkImage(image: HTMLImageElement): TexImageSource {
+  const scale = Math.min(1, MAX_TEXTURE_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+  if (scale === 1) return image;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+/**
+ * Sets up the shared WebGL renderer. Returns null when the browser can't do
+ * WebGL (or the shaders fail), in which case the page keeps its CSS chrome.
+ */
+export function createReflectionRenderer(): ReflectionRenderer | null {
+  const canvas = document.createElement('canvas');
+  // preserveDrawingBuffer keeps the pixels around long enough to copy them to each surface
+  const gl = canvas.getContext('webgl', { preserveDrawingBuffer: true, antialias: false });
+  if (!gl) return null;
+
+  let program: WebGLProgram;
+  try {
+    const vertex = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+    const fragment = compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+    const linked = gl.createProgram();
+    if (!linked) return null;
+    gl.attachShader(linked, vertex);
+    gl.attachShader(linked, fragment);
+    gl.linkProgram(linked);
+    if (!gl.getProgramParameter(linked, gl.LINK_STATUS)) return null;
+    program = linked;
+  } catch {
+    return null;
+  }
+  gl.useProgram(program);
+
+  // Two triangles covering the whole viewport
+  const buffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1]), gl.STATIC_DRAW);
+  const position = gl.getAttribLocation(program, 'aPosition');
+  gl.enableVertexAttribArray(position);
+  gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+  // Photos aren't a power of two in size, so WebGL 1 needs clamping and no mipmaps
+  const texture = gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+
+  const uniform = (name: string) => gl.getUniformLocation(program, name);
+  const uniforms = {
+    rect: uniform('uRect'),
+    pointer: uniform('uPointer'),
+    tilt: uniform('uTilt'),
+    time: uniform('uTime'),
+    distortion: uniform('uDistortion'),
+    highlight: uniform('uHighlight'),
+    iridescence: uniform('uIridescence'),
+    tint: uniform('uTint'),
+  };
+
+  return {
+    setEnvironment: (image) => {
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGB, gl.RGB, gl.UNSIGNED_BYTE, shrinkImage(image));
+    },
+
+    draw: (target, tint, input) => {
+      const box = target.getBoundingClientRect();
+      const width = Math.round(target.clientWidth);
+      const height = Math.round(target.clientHeight);
+      if (width === 0 || height === 0) return;
+
+      // Reflections are soft, so one pixel per CSS pixel is plenty even on retina screens
+      if (target.width !== width || target.height !== height) {
+        target.width = width;
+        target.height = height;
+      }
+      // The WebGL canvas only ever grows; each surface uses its top-left corner
+      if (canvas.width < width || canvas.height < height) {
+        canvas.width = Math.max(canvas.width, width);
+        canvas.height = Math.max(canvas.height, height);
+      }
+      // WebGL counts from the bottom, so the top-left corner starts at height - surface height
+      gl.viewport(0, canvas.height - height, width, height);
+
+      gl.uniform4f(
+        uniforms.rect,
+        box.left / window.innerWidth,
+        box.top / window.innerHeight,
+        box.width / window.innerWidth,
+        box.height / window.innerHeight
+      );
+      gl.uniform2f(uniforms.pointer, input.pointer.x, input.pointer.y);
+      gl.uniform2f(uniforms.tilt, input.tilt.x, input.tilt.y);
+      gl.uniform1f(uniforms.time, input.time);
+      gl.uniform1f(uniforms.distortion, input.distortion);
+      gl.uniform1f(uniforms.highlight, input.highlight);
+      gl.uniform1f(uniforms.iridescence, input.iridescence);
+      gl.uniform3f(uniforms.tint, tint[0], tint[1], tint[2]);
+      gl.drawArrays(gl.TRIANGLES, 0, 6);
+
+      target.getContext('2d')?.drawImage(canvas, 0, 0, width, height, 0, 0, width, height);
+    },
+
+    dispose: () => {
+      gl.deleteTexture(texture);
+      gl.deleteBuffer(buffer);
+      gl.deleteProgram(program);
+      gl.getExtension('WEBGL_lose_context')?.loseContext();
+    },
+  };
+}
+
+/** Loads an image, rejecting with a readable message if it can't */
+export function loadImage(src: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Couldn't load ${src}`));
+    image.src = src;
+  });
+}
+
+/**
+ * Turns a deviceorientation event into -1..1 tilt. Holding the phone at a
+ * comfortable reading angle (about 45° forward) counts as level.
+ */
+export function tiltFromOrientation(event: DeviceOrientationEvent) {
+  const clamp = (value: number) => Math.max(-1, Math.min(1, value));
+  return {
+    x: clamp((event.gamma ?? 0) / 45),
+    y: clamp(((event.beta ?? 45) - 45) / 45),
+  };
+}
@@ -0,0 +1,12 @@
+import type { PrototypeMeta } from '../../lib/prototypes';
+
+const meta: PrototypeMeta = {
+  title: 'Confetti button',
+  description: 'An interactive button that creates a colorful confetti explosion',
+  tags: ['animation', 'button', 'celebration'],
+  author: 'Kevin',
+  created: '2026-01-06',
+  thumbnail: '/playground/sparkles.gif',
+};
+
+export default meta;
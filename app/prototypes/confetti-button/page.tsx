@@ -2,46 +2,258 @@
 
 import { useState } from 'react';
 import styles from './styles.module.css';
-import Link from 'next/link';
-import confetti from 'canvas-confetti';
+import { Fader, Switch } from '../../components/controls';
+import {
+  ConfettiEffect,
+  ConfettiSettings,
+  BasicShape,
+  EFFECT_PRESETS,
+  PATTERNS,
+  BASIC_SHAPES,
+  effectToSnippet,
+  useCelebration,
+} from '../../components/celebration';
+
+// Number options on the faders: [setting, label, min, max, step, unit]
+const NUMBER_OPTIONS: [keyof ConfettiSettings, string, number, number, number, string][] = [
+  ['particleCount', 'PARTICLES', 1, 300, 1, ''],
+  ['spread', 'SPREAD', 0, 360, 1, '°'],
+  ['angle', 'ANGLE', 0, 360, 1, '°'],
+  ['startVelocity', 'VELOCITY', 0, 100, 1, ''],
+  ['decay', 'DECAY', 0.5, 1, 0.01, ''],
+  ['gravity', 'GRAVITY', -1, 3, 0.05, ''],
+  ['drift', 'DRIFT', -3, 3, 0.05, ''],
+  ['ticks', 'LIFETIME', 20, 600, 1, ''],
+  ['scalar', 'SIZE', 0.2, 4, 0.05, '×'],
+];
+
+const MAX_COLORS = 8;
 
 export default function ConfettiButtonPrototype() {
-  const [isAnimating, setIsAnimating] = useState(false);
-
-  const triggerConfetti = () => {
-    setIsAnimating(true);
-    
-    confetti({
-      particleCount: 100,
-      spread: 100,
-      origin: { y: 0.6 },
-      colors: ['#FF69B4', '#00FFFF', '#9932CC'], // Pink, bright aqua, purple
-      shapes: ['square'], // Keep the square particles for the pixel look
-    });
-
-    setTimeout(() => setIsAnimating(false), 300);
+  const [effect, setEffect] = useState<ConfettiEffect>(EFFECT_PRESETS[0]);
+  const [sound, setSound] = useState(false);
+  const [haptics, setHaptics] = useState(false);
+  const [copyMessage, setCopyMessage] = useState('');
+  const { celebrate, celebrating, reducedMotion } = useCelebration({ sound, haptics });
+
+  // Bursts come out of the button, wherever it is on screen
+  const triggerConfetti = (event: React.MouseEvent<HTMLButtonElement>) => {
+    celebrate(effect, { from: event.currentTarget });
+  };
+
+  // Any change makes it a custom effect
+  const updateEffect = (change: Partial<ConfettiEffect>) => {
+    setEffect((current) => ({ ...current, ...change, name: 'Custom' }));
+    setCopyMessage('');
+  };
+
+  const updateSettings = (change: Partial<ConfettiSettings>) => {
+    setEffect((current) => ({ ...current, name: 'Custom', settings: { ...current.settings, ...change } }));
+    setCopyMessage('');
+  };
+
+  const { settings } = effect;
+
+  const toggleShape = (shape: BasicShape) => {
+    const shapes = settings.shapes.includes(shape)
+      ? settings.shapes.filter((s) => s !== shape)
+      : [...settings.shapes, shape];
+    // Keep at least one shape
+    if (shapes.length > 0) updateSettings({ shapes });
+  };
+
+  const setColor = (index: number, color: string) => {
+    updateSettings({ colors: settings.colors.map((c, i) => (i === index ? color : c)) });
+  };
+
+  const snippet = effectToSnippet(effect);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(snippet);
+      setCopyMessage('Copied! Paste it into any prototype');
+    } catch {
+      setCopyMessage('Select the code below and copy it');
+    }
   };
 
   return (
     <div className={styles.container}>
-      <div className={styles.buttonContainer}>
-        <Link href="/" className={styles.backButton}>←</Link>
-      </div>
-      
-      <div className={styles.window}>
-        <div className={styles.windowTitle}>
-          Confetti button
+      <div className={styles.windows}>
+        <div className={styles.window}>
+          <div className={styles.windowTitle}>
+            Confetti button
+          </div>
+          <div className={styles.windowContent}>
+            <h1 className={styles.title}>Congratulations! You have set up your first repository.</h1>
+            <button
+              className={`${styles.confettiButton} ${celebrating ? styles.animate : ''}`}
+              onClick={triggerConfetti}
+            >
+              Celebrate
+            </button>
+            {reducedMotion && (
+              <p className={styles.note}>
+                Your system asks for reduced motion, so effects play as one small, gentle burst.
+              </p>
+            )}
+          </div>
         </div>
-        <div className={styles.windowContent}>
-          <h1 className={styles.title}>Congratulations! You have set up your first repository.</h1>
-          <button 
-            className={`${styles.confettiButton} ${isAnimating ? styles.animate : ''}`}
-            onClick={triggerConfetti}
-          >
-            Celebrate
-          </button>
+
+        {/* Effects studio: tune every canvas-confetti option, then export it as code */}
+        <div className={`${styles.window} ${styles.studio}`}>
+          <div className={styles.windowTitle}>
+            Effects studio
+          </div>
+          <div className={styles.studioContent}>
+            <div className={styles.row}>
+              <label className={styles.label} htmlFor="preset">PRESET</label>
+              <select
+                id="preset"
+                className={styles.select}
+                value={effect.name}
+                onChange={(e) => {
+                  const preset = EFFECT_PRESETS.find((p) => p.name === e.target.value);
+                  if (preset) setEffect(preset);
+                  setCopyMessage('');
+                }}
+              >
+                {EFFECT_PRESETS.map((preset) => (
+                  <option key={preset.name} value={preset.name}>{preset.name}</option>
+                ))}
+                {effect.name === 'Custom' && <option value="Custom">Custom</option>}
+              </select>
+            </div>
+
+            <div className={styles.row} role="radiogroup" aria-label="Pattern">
+              <span className={styles.label}>PATTERN</span>
+              {PATTERNS.map((pattern) => (
+                <button
+                  key={pattern.value}
+                  type="button"
+                  role="radio"
+                  aria-checked={effect.pattern === pattern.value}
+                  className={`${styles.toggle} ${effect.pattern === pattern.value ? styles.active : ''}`}
+                  onClick={() => updateEffect({ pattern: pattern.value })}
+                >
+                  {pattern.label}
+                </button>
+              ))}
+            </div>
+
+            <div className={styles.faders}>
+              {NUMBER_OPTIONS.map(([key, label, min, max, step, unit]) => (
+                <Fader
+                  key={key}
+                  orientation="horizontal"
+                  label={label}
+                  value={settings[key] as number}
+                  onChange={(value) => updateSettings({ [key]: value })}
+                  min={min}
+                  max={max}
+                  step={step}
+                  unit={unit}
+                />
+              ))}
+              {effect.pattern !== 'burst' && (
+                <Fader
+                  orientation="horizontal"
+                  label="DURATION"
+                  value={effect.duration}
+                  onChange={(duration) => updateEffect({ duration })}
+                  min={0.5}
+                  max={10}
+                  step={0.5}
+                  unit="s"
+                />
+              )}
+              <Switch
+                label="FLAT"
+                checked={settings.flat}
+                onChange={(flat) => updateSettings({ flat })}
+              />
+              <Switch label="SOUND" checked={sound} onChange={setSound} />
+              <Switch label="VIBRATE" checked={haptics} onChange={setHaptics} />
+            </div>
+
+            <div className={styles.row}>
+              <span className={styles.label}>SHAPES</span>
+              {BASIC_SHAPES.map((shape) => (
+                <button
+                  key={shape}
+                  type="button"
+                  aria-pressed={settings.shapes.includes(shape)}
+                  className={`${styles.toggle} ${settings.shapes.includes(shape) ? styles.active : ''}`}
+                  onClick={() => toggleShape(shape)}
+                >
+                  {shape.toUpperCase()}
+                </button>
+              ))}
+            </div>
+
+            <div className={styles.row}>
+              <span className={styles.label}>COLORS</span>
+              {settings.colors.map((color, index) => (
+                <span key={index} className={styles.colorChip}>
+                  <input
+                    type="color"
+                    className={styles.colorInput}
+                    value={color}
+                    onChange={(e) => setColor(index, e.target.value)}
+                    aria-label={`Color ${index + 1}`}
+                  />
+                  {settings.colors.length > 1 && (
+                    <button
+                      type="button"
+                      className={styles.removeColor}
+                      onClick={() => updateSettings({ colors: settings.colors.filter((_, i) => i !== index) })}
+                      aria-label={`Remove color ${index + 1}`}
+                    >
+                      ×
+                    </button>
+                  )}
+                </span>
+              ))}
+              {settings.colors.length < MAX_COLORS && (
+                <button
+                  type="button"
+                  className={styles.toggle}
+                  onClick={() => updateSettings({ colors: [...settings.colors, '#ffffff'] })}
+                >
+                  + ADD
+                </button>
+              )}
+            </div>
+
+            {/* Emoji and custom shapes replace the basic shapes while they're filled in */}
+            <label className={styles.row}>
+              <span className={styles.label}>EMOJI</span>
+              <input
+                className={styles.textInput}
+                value={settings.emoji}
+                onChange={(e) => updateSettings({ emoji: e.target.value })}
+                placeholder="🎉✨"
+              />
+            </label>
+            <label className={styles.row}>
+              <span className={styles.label}>SVG PATH</span>
+              <input
+                className={styles.textInput}
+                value={settings.path}
+                onChange={(e) => updateSettings({ path: e.target.value })}
+                placeholder="M0 0 L10 0 L5 10 Z"
+              />
+            </label>
+
+            <div className={styles.row}>
+              <span className={styles.label}>CODE</span>
+              <button type="button" className={styles.toggle} onClick={handleCopy}>COPY</button>
+              {copyMessage && <span className={styles.note}>{copyMessage}</span>}
+            </div>
+            <pre className={styles.code}>{snippet}</pre>
+          </div>
         </div>
       </div>
     </div>
   );
-} 
\ No newline at end of file
+}
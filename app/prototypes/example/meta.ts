@@ -0,0 +1,12 @@
+import type { PrototypeMeta } from '../../lib/prototypes';
+
+const meta: PrototypeMeta = {
+  title: 'Getting started',
+  description: 'How to create a prototype',
+  tags: ['guide', 'window', 'themes'],
+  author: 'Kevin',
+  created: '2026-01-05',
+  thumbnail: '/playground/butterfly-flutter.webp',
+};
+
+export default meta;
@@ -0,0 +1,11 @@
+import { prototypes } from './registry';
+import { PrototypeFrame } from '../components/frame';
+
+/**
+ * Wraps every page inside app/prototypes. PrototypeFrame adds the shared
+ * back button, prev/next buttons and info drawer to each prototype (unless
+ * its meta.ts says `frame: false`), so prototypes don't build their own.
+ */
+export default function PrototypesLayout({ children }: { children: React.ReactNode }) {
+  return <PrototypeFrame prototypes={prototypes}>{children}</PrototypeFrame>;
+}
@@ -0,0 +1,221 @@
+// The master effects bus that every voice plays through.
+//
+// It is built once per AudioContext (the live one, or an OfflineAudioContext
+// when rendering a recording), so both sound the same. Nothing here is created
+// per note: voices all play into one shared voice bus (the allocator's output),
+// which comes in as `input`.
+//
+//   input → drive → chorus ─┬─ dry ────────────────────────┬→ limiter → destination
+//                           ├─ delay send → delay ⟲ tone ──┤
+//                           └─ reverb send → reverb ───────┘
+//
+// Drive and chorus are *inserts* (the whole signal goes through them), while
+// delay and reverb are *sends* (a copy of the signal is mixed back in).
+
+import { SyncDivision, SYNC_DIVISIONS } from './modulation';
+
+export interface EffectsSettings {
+  /** Reverb send, 0..100 */
+  reverb: number;
+  /** Length of the reverb tail in seconds */
+  reverbSize: number;
+  /** 0..100, higher rings on for longer inside that length */
+  reverbDecay: number;
+  /** Delay send, 0..100 */
+  delay: number;
+  /** Seconds between echoes, when not synced */
+  delayTime: number;
+  /** Lock the echoes to the sequencer tempo instead */
+  delaySync: boolean;
+  delayDivision: SyncDivision;
+  /** How much of each echo comes back, 0..0.95 */
+  delayFeedback: number;
+  /** Lowpass in the feedback loop (Hz): every repeat gets a little darker */
+  delayTone: number;
+  /** Chorus mix, 0..100 */
+  chorus: number;
+  /** Chorus wobble speed in Hz */
+  chorusRate: number;
+  /** Chorus wobble depth, 0..100 */
+  chorusDepth: number;
+  /** Saturation, 0..100 */
+  drive: number;
+  /** Catch peaks before they clip */
+  limiter: boolean;
+}
+
+export const DEFAULT_EFFECTS: EffectsSettings = {
+  reverb: 0,
+  reverbSize: 2,
+  reverbDecay: 85,
+  delay: 0,
+  delayTime: 0.3,
+  delaySync: false,
+  delayDivision: '1/8',
+  delayFeedback: 0.3,
+  delayTone: 8000,
+  chorus: 0,
+  chorusRate: 0.8,
+  chorusDepth: 50,
+  drive: 0,
+  limiter: true,
+};
+
+/** The longest echo the delay line can hold (seconds) */
+export const MAX_DELAY_TIME = 2;
+
+export interface EffectsChain {
+  /** New settings; `tempo` (beats per minute) is used when the delay is synced */
+  update: (settings: EffectsSettings, tempo: number) => void;
+}
+
+/** Seconds between echoes for these settings */
+export const delaySeconds = (settings: EffectsSettings, tempo: number) =>
+  Math.min(
+    MAX_DELAY_TIME,
+    settings.delaySync ? (60 / tempo) * SYNC_DIVISIONS[settings.delayDivision] : settings.delayTime
+  );
+
+// Reverb impulse: stereo noise fading out over `size` seconds. A convolver
+// plays this "echo of a clap in a room" for every sample that goes in.
+function createImpulse(context: BaseAudioContext, size: number, decay: number) {
+  const length = Math.max(1, Math.floor(context.sampleRate * size));
+  const impulse = context.createBuffer(2, length, context.sampleRate);
+  // decay 100 → a gentle curve that rings to the end, decay 0 → a steep one that dies quickly
+  const curve = 8 - (decay / 100) * 7.5;
+
+  for (let channel = 0; channel < 2; channel++) {
+    const channelData = impulse.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      channelData[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, curve);
+    }
+  }
+  return impulse;
+}
+
+// Soft clipping: quiet signals pass almost untouched, loud ones get rounded off.
+// Returns null (no shaping at all) when the drive is off.
+function createDriveCurve(drive: number) {
+  if (drive <= 0) return null;
+  const amount = 1 + (drive / 100) * 20;
+  const curve = new Float32Array(1024);
+  for (let i = 0; i < curve.length; i++) {
+    const x = (i / (curve.length - 1)) * 2 - 1;
+    curve[i] = Math.tanh(amount * x) / Math.tanh(amount);
+  }
+  return curve;
+}
+
+export function createEffectsChain(
+  context: BaseAudioContext,
+  input: AudioNode,
+  destination: AudioNode
+): EffectsChain {
+  // ----- Drive (insert) -----
+  const drive = context.createWaveShaper();
+  drive.oversample = '4x';
+  input.connect(drive);
+
+  // ----- Chorus (insert) -----
+  // Two short delays whose time is wobbled by an LFO (opposite phase on each
+  // side), mixed with the dry signal. The tiny pitch wobble thickens the sound.
+  const chorusDry = context.createGain();
+  const chorusWet = context.createGain();
+  const chorusOut = context.createGain();
+  const chorusLfo = context.createOscillator();
+  const chorusDepth = context.createGain();
+  const chorusInvert = context.createGain();
+  const chorusLeft = context.createDelay(0.1);
+  const chorusRight = context.createDelay(0.1);
+  const chorusMerger = context.createChannelMerger(2);
+
+  chorusLeft.delayTime.value = 0.015;
+  chorusRight.delayTime.value = 0.015;
+  chorusInvert.gain.value = -1;
+  chorusLfo.connect(chorusDepth);
+  chorusDepth.connect(chorusLeft.delayTime);
+  chorusDepth.connect(chorusInvert);
+  chorusInvert.connect(chorusRight.delayTime);
+  chorusLfo.start();
+
+  drive.connect(chorusDry);
+  chorusDry.connect(chorusOut);
+  drive.connect(chorusLeft);
+  drive.connect(chorusRight);
+  chorusLeft.connect(chorusMerger, 0, 0);
+  chorusRight.connect(chorusMerger, 0, 1);
+  chorusMerger.connect(chorusWet);
+  chorusWet.connect(chorusOut);
+
+  // ----- Sends -----
+  const dryGain = context.createGain();
+  const reverbSend = context.createGain();
+  const delaySend = context.createGain();
+  const mix = context.createGain();
+
+  chorusOut.connect(dryGain);
+  dryGain.connect(mix);
+
+  // Reverb
+  const convolver = context.createConvolver();
+  chorusOut.connect(reverbSend);
+  reverbSend.connect(convolver);
+  convolver.connect(mix);
+
+  // Delay, with a lowpass in the feedback loop
+  const delayNode = context.createDelay(MAX_DELAY_TIME);
+  const delayTone = context.createBiquadFilter();
+  const delayFeedback = context.createGain();
+  delayTone.type = 'lowpass';
+
+  chorusOut.connect(delaySend);
+  delaySend.connect(delayNode);
+  delayNode.connect(delayTone);
+  delayTone.connect(delayFeedback);
+  delayFeedback.connect(delayNode);
+  delayNode.connect(mix);
+
+  // ----- Limiter -----
+  // A compressor with a very high ratio and fast attack acts as a brickwall
+  const limiter = context.createDynamicsCompressor();
+  limiter.knee.value = 0;
+  limiter.attack.value = 0.001;
+  limiter.release.value = 0.1;
+  mix.connect(limiter);
+  limiter.connect(destination);
+
+  // The impulse is only rebuilt when size or decay actually change
+  let impulseKey = '';
+
+  return {
+    update: (settings, tempo) => {
+      const time = context.currentTime;
+      const smooth = (param: AudioParam, value: number) => param.setTargetAtTime(value, time, 0.02);
+
+      drive.curve = createDriveCurve(settings.drive);
+
+      const chorusMix = settings.chorus / 100;
+      smooth(chorusDry.gain, 1 - chorusMix * 0.5);
+      smooth(chorusWet.gain, chorusMix * 0.5);
+      smooth(chorusLfo.frequency, settings.chorusRate);
+      smooth(chorusDepth.gain, (settings.chorusDepth / 100) * 0.005);
+
+      smooth(dryGain.gain, 1 - Math.max(settings.reverb / 100, settings.delay / 100) * 0.3);
+      smooth(reverbSend.gain, settings.reverb / 100);
+      smooth(delaySend.gain, settings.delay / 100);
+      smooth(delayNode.delayTime, delaySeconds(settings, tempo));
+      smooth(delayFeedback.gain, Math.min(0.95, settings.delayFeedback));
+      smooth(delayTone.frequency, settings.delayTone);
+
+      const key = `${settings.reverbSize}:${settings.reverbDecay}`;
+      if (key !== impulseKey) {
+        impulseKey = key;
+        convolver.buffer = createImpulse(context, settings.reverbSize, settings.reverbDecay);
+      }
+
+      // Limiter off: a compressor that never kicks in
+      limiter.threshold.setValueAtTime(settings.limiter ? -1 : 0, time);
+      limiter.ratio.setValueAtTime(settings.limiter ? 20 : 1, time);
+    },
+  };
+}
@@ -0,0 +1,12 @@
+import type { PrototypeMeta } from '../../lib/prototypes';
+
+const meta: PrototypeMeta = {
+  title: 'Moog Synthesizer',
+  description: '80s-inspired digital synthesizer with classic Moog-style controls',
+  tags: ['audio', 'music', 'canvas'],
+  author: 'Kevin',
+  created: '2026-01-14',
+  thumbnail: '/playground/pikachu-dancing.gif',
+};
+
+export default meta;
@@ -0,0 +1,166 @@
+// Web MIDI input for the synth.
+//
+// MIDI messages arrive as a few raw bytes. parseMidiMessage turns them into
+// readable events, and MidiInputManager listens to the connected devices and
+// calls your handlers. The manager takes a MIDIAccess object instead of
+// requesting one itself, so a fake MIDIAccess can be passed in to try things
+// out without any hardware plugged in.
+
+export type MidiMessage =
+  | { type: 'noteon'; channel: number; note: number; velocity: number }
+  | { type: 'noteoff'; channel: number; note: number }
+  | { type: 'controlchange'; channel: number; controller: number; value: number }
+  | { type: 'pitchbend'; channel: number; value: number };
+
+export interface MidiHandlers {
+  /** velocity is 0..1 */
+  onNoteOn: (note: number, velocity: number) => void;
+  onNoteOff: (note: number) => void;
+  /** value is 0..1 */
+  onControlChange: (controller: number, value: number) => void;
+  /** -1 (all the way down) to 1 (all the way up), 0 at rest */
+  onPitchBend: (value: number) => void;
+}
+
+export interface MidiDevice {
+  id: string;
+  name: string;
+}
+
+// Controller numbers with a standard meaning
+export const MOD_WHEEL_CC = 1;
+export const SUSTAIN_PEDAL_CC = 64;
+
+/** Listen to every connected device instead of just one */
+export const ALL_DEVICES = 'all';
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+/** MIDI note number → name, e.g. 60 → 'C4' */
+export const midiNoteName = (note: number) =>
+  `${NOTE_NAMES[note % 12]}${Math.floor(note / 12) - 1}`;
+
+/** Note name → MIDI note number, e.g. 'C4' → 60 */
+export const noteNameToMidi = (name: string) => {
+  const match = name.match(/^([A-G]#?)(-?\d+)$/);
+  if (!match) return null;
+  return (Number(match[2]) + 1) * 12 + NOTE_NAMES.indexOf(match[1]);
+};
+
+/**
+ * Reads one MIDI message. Returns null for messages the synth doesn't use
+ * (clock, aftertouch, program change...).
+ */
+export function parseMidiMessage(data: ArrayLike<number>): MidiMessage | null {
+  if (data.length < 2) return null;
+
+  const status = data[0] & 0xf0;
+  const channel = data[0] & 0x0f;
+
+  switch (status) {
+    case 0x90:
+      // A note on with velocity 0 is how many keyboards send note off
+      return data[2] > 0
+        ? { type: 'noteon', channel, note: data[1], velocity: data[2] / 127 }
+        : { type: 'noteoff', channel, note: data[1] };
+    case 0x80:
+      return { type: 'noteoff', channel, note: data[1] };
+    case 0xb0:
+      return { type: 'controlchange', channel, controller: data[1], value: (data[2] ?? 0) / 127 };
+    case 0xe0: {
+      // 14-bit value split over two bytes, 8192 is the centre
+      const raw = (data[2] << 7) | data[1];
+      return { type: 'pitchbend', channel, value: Math.max(-1, (raw - 8192) / 8191) };
+    }
+    default:
+      return null;
+  }
+}
+
+/** Asks the browser for MIDI access. Resolves to null when it isn't supported or is blocked. */
+export async function requestMidiAccess(): Promise<MIDIAccess | null> {
+  if (typeof navigator === 'undefined' || !navigator.requestMIDIAccess) return null;
+  try {
+    return await navigator.requestMIDIAccess();
+  } catch {
+    return null;
+  }
+}
+
+export class MidiInputManager {
+  private readonly access: MIDIAccess;
+  private readonly handlers: MidiHandlers;
+  private readonly onDevicesChange?: (devices: MidiDevice[]) => void;
+  private selectedId: string = ALL_DEVICES;
+
+  constructor(
+    access: MIDIAccess,
+    handlers: MidiHandlers,
+    onDevicesChange?: (devices: MidiDevice[]) => void
+  ) {
+    this.access = access;
+    this.handlers = handlers;
+    this.onDevicesChange = onDevicesChange;
+
+    // Devices can be plugged in or out at any time
+    this.access.onstatechange = () => {
+      this.listen();
+      this.onDevicesChange?.(this.devices());
+    };
+    this.listen();
+  }
+
+  devices(): MidiDevice[] {
+    const devices: MidiDevice[] = [];
+    this.access.inputs.forEach((input) => {
+      devices.push({ id: input.id, name: input.name ?? input.id });
+    });
+    return devices;
+  }
+
+  /** Only listen to one device, or ALL_DEVICES */
+  select(id: string) {
+    this.selectedId = id;
+    this.listen();
+  }
+
+  /** Feeds one raw message to the handlers, as if a device had sent it */
+  handleMessage(data: ArrayLike<number>) {
+    const message = parseMidiMessage(data);
+    if (!message) return;
+
+    switch (message.type) {
+      case 'noteon':
+        this.handlers.onNoteOn(message.note, message.velocity);
+        break;
+      case 'noteoff':
+        this.handlers.onNoteOff(message.note);
+        break;
+      case 'controlchange':
+        this.handlers.onControlChange(message.controller, message.value);
+        break;
+      case 'pitchbend':
+        this.handlers.onPitchBend(message.value);
+        break;
+    }
+  }
+
+  dispose() {
+    this.access.onstatechange = null;
+    this.access.inputs.forEach((input) => {
+      input.onmidimessage = null;
+    });
+  }
+
+  // Attach to the selected input(s) and detach from the rest
+  private listen() {
+    this.access.inputs.forEach((input) => {
+      const selected = this.selectedId === ALL_DEVICES || this.selectedId === input.id;
+      input.onmidimessage = selected
+        ? (event) => {
+            if (event.data) this.handleMessage(event.data);
+          }
+        : null;
+    });
+  }
+}
@@ -0,0 +1,139 @@
+// Modulation: things that move other things.
+//
+// A *source* is a signal that changes over time (an LFO wobbling, an envelope
+// rising and falling, how hard a key was hit). A *destination* is a setting it
+// pushes around (pitch, cutoff...). Each row of the mod matrix connects one
+// source to one destination with an amount, which can be negative to push the
+// other way.
+//
+// Sources are audio signals, so modulation runs at audio rate: each route is
+// just source → GainNode (the amount) → the destination's AudioParam.
+
+export type ModSource = 'lfo1' | 'lfo2' | 'filterEnv' | 'velocity' | 'modWheel';
+export type ModDestination = 'pitch' | 'cutoff' | 'amp' | 'pan' | 'osc2Detune';
+
+export interface ModRoute {
+  source: ModSource;
+  destination: ModDestination;
+  /** -1..1, 0 is off */
+  amount: number;
+}
+
+export const MOD_SOURCES: { value: ModSource; label: string }[] = [
+  { value: 'lfo1', label: 'LFO 1' },
+  { value: 'lfo2', label: 'LFO 2' },
+  { value: 'filterEnv', label: 'FILTER ENV' },
+  { value: 'velocity', label: 'VELOCITY' },
+  { value: 'modWheel', label: 'MOD WHEEL' },
+];
+
+export const MOD_DESTINATIONS: { value: ModDestination; label: string }[] = [
+  { value: 'pitch', label: 'PITCH' },
+  { value: 'cutoff', label: 'CUTOFF' },
+  { value: 'amp', label: 'AMP' },
+  { value: 'pan', label: 'PAN' },
+  { value: 'osc2Detune', label: 'OSC 2 DETUNE' },
+];
+
+/**
+ * How far each destination moves at amount 1, in the units of its AudioParam.
+ * Pitch and cutoff are in cents, so modulation sounds even across the range.
+ */
+export const DESTINATION_RANGE: Record<ModDestination, number> = {
+  pitch: 1200, // ±1 octave
+  cutoff: 4800, // ±4 octaves
+  amp: 1,
+  pan: 1,
+  osc2Detune: 100, // ±1 semitone
+};
+
+/** How far the filter envelope opens the cutoff at amount 1 (cents) */
+export const FILTER_ENV_RANGE = 4800;
+
+export const MOD_SLOT_COUNT = 4;
+
+// Every slot starts off (amount 0) but already points somewhere useful
+export const DEFAULT_MOD_ROUTES: ModRoute[] = [
+  { source: 'lfo1', destination: 'pitch', amount: 0 },
+  { source: 'lfo2', destination: 'cutoff', amount: 0 },
+  { source: 'velocity', destination: 'cutoff', amount: 0 },
+  { source: 'modWheel', destination: 'pitch', amount: 0 },
+];
+
+// ----- LFOs -----
+
+export type LfoShape = 'sine' | 'triangle' | 'square' | 'sawtooth';
+export type SyncDivision = '1/1' | '1/2' | '1/4' | '1/8' | '1/16';
+
+export interface LfoSettings {
+  shape: LfoShape;
+  /** Cycles per second, when not synced */
+  rate: number;
+  /** Lock the rate to the sequencer tempo instead */
+  sync: boolean;
+  /** One cycle lasts this note length when synced */
+  division: SyncDivision;
+}
+
+export const LFO_SHAPES: LfoShape[] = ['sine', 'triangle', 'square', 'sawtooth'];
+
+// Length of each division in beats (quarter notes)
+export const SYNC_DIVISIONS: Record<SyncDivision, number> = {
+  '1/1': 4,
+  '1/2': 2,
+  '1/4': 1,
+  '1/8': 0.5,
+  '1/16': 0.25,
+};
+
+export const DEFAULT_LFOS: LfoSettings[] = [
+  { shape: 'sine', rate: 5, sync: false, division: '1/4' },
+  { shape: 'triangle', rate: 0.5, sync: false, division: '1/1' },
+];
+
+/** Cycles per second for an LFO, at `tempo` beats per minute when synced */
+export const lfoFrequency = (lfo: LfoSettings, tempo: number) =>
+  lfo.sync ? tempo / 60 / SYNC_DIVISIONS[lfo.division] : lfo.rate;
+
+/**
+ * The sources every voice shares: the two LFOs and the mod wheel.
+ * (Velocity and the filter envelope belong to each voice, see Voice.)
+ */
+export class SharedModulators {
+  readonly lfo1: OscillatorNode;
+  readonly lfo2: OscillatorNode;
+  /** Outputs the mod wheel position, 0..1 */
+  readonly modWheel: ConstantSourceNode;
+
+  constructor(context: BaseAudioContext) {
+    this.lfo1 = context.createOscillator();
+    this.lfo2 = context.createOscillator();
+    this.modWheel = context.createConstantSource();
+    this.modWheel.offset.value = 0;
+    this.setLfos(DEFAULT_LFOS, 120, context.currentTime);
+
+    this.lfo1.start();
+    this.lfo2.start();
+    this.modWheel.start();
+  }
+
+  setLfos(lfos: LfoSettings[], tempo: number, time: number) {
+    [this.lfo1, this.lfo2].forEach((oscillator, index) => {
+      const lfo = lfos[index];
+      if (!lfo) return;
+      oscillator.type = lfo.shape;
+      oscillator.frequency.setTargetAtTime(lfoFrequency(lfo, tempo), time, 0.02);
+    });
+  }
+
+  /** value is 0..1 */
+  setModWheel(value: number, time: number) {
+    this.modWheel.offset.setTargetAtTime(value, time, 0.01);
+  }
+
+  dispose(time: number) {
+    this.lfo1.stop(time);
+    this.lfo2.stop(time);
+    this.modWheel.stop(time);
+  }
+}
@@ -1,174 +1,447 @@
 "use client";
 
-import Link from 'next/link';
 import styles from './styles.module.css';
-import { useState, useRef, useEffect } from 'react';
+import { Knob as ControlKnob, KnobProps, ControlRange, positionToValue } from '../../components/controls';
+import { useState, useRef, useEffect, createContext, useContext } from 'react';
+import { Waveform, VoiceParams } from './voice';
+import { VoiceAllocator, VoiceMode, StealMode } from './voice-allocator';
+import { createEffectsChain, EffectsChain, delaySeconds, MAX_DELAY_TIME } from './effects';
+import {
+  LfoSettings,
+  ModRoute,
+  ModSource,
+  ModDestination,
+  LFO_SHAPES,
+  SYNC_DIVISIONS,
+  SyncDivision,
+  MOD_SOURCES,
+  MOD_DESTINATIONS,
+} from './modulation';
+import {
+  MidiInputManager,
+  MidiDevice,
+  MidiHandlers,
+  requestMidiAccess,
+  midiNoteName,
+  ALL_DEVICES,
+  MOD_WHEEL_CC,
+  SUSTAIN_PEDAL_CC,
+} from './midi';
+import {
+  Patch,
+  DEFAULT_PATCH,
+  PATCH_VERSION,
+  PATCH_URL_PARAM,
+  decodePatch,
+  loadCurrentPatch,
+  saveCurrentPatch,
+  loadUserPatches,
+  saveUserPatches,
+  exportPatchFile,
+  patchFileName,
+  patchToVoiceParams,
+  importPatchFile,
+  patchShareUrl,
+} from './patch';
+import { FACTORY_PRESETS } from './presets';
+import { downloadBlob } from '../../lib/download';
+import {
+  ScopeView,
+  createAnalyser,
+  drawScope,
+  drawSpectrum,
+  measureLevel,
+  toDecibels,
+  METER_FLOOR_DB,
+  CLIP_LEVEL,
+} from './scope';
+import {
+  Tuning,
+  TUNING_PRESETS,
+  DEFAULT_TUNING,
+  DEFAULT_REFERENCE_PITCH,
+  MIN_REFERENCE_PITCH,
+  MAX_REFERENCE_PITCH,
+  noteFrequency,
+  importScalaFile,
+  loadTuningSettings,
+  saveTuningSettings,
+} from './tuning';
+import {
+  RecordedEvent,
+  Take,
+  BitDepth,
+  finishTake,
+  renderTake,
+  analyzeRender,
+  encodeWav,
+  encodeMidiFile,
+} from './render';
+import {
+  StepClock,
+  Step,
+  ArpPattern,
+  DEFAULT_STEPS,
+  STEP_COUNT,
+  ACCENT_VELOCITY,
+  NORMAL_VELOCITY,
+  arpeggioSequence,
+} from './sequencer';
+
+// Notes a sequencer step can play: C2 to C5
+const STEP_NOTES = Array.from({ length: 37 }, (_, i) => 36 + i);
+const GATE_LENGTHS = [0.25, 0.5, 0.75, 1];
+
+// How far the pitch wheel bends, in semitones each way
+const PITCH_BEND_RANGE = 2;
+
+// Knobs the mod wheel can take over (by knob label). NONE leaves it to the mod matrix.
+const MOD_WHEEL_TARGETS = ['NONE', 'CUTOFF', 'RES', 'DETUNE', 'OSC 2', 'REVERB', 'DELAY', 'VOLUME'];
+
+// Where MIDI-learn bindings are remembered between visits
+const MIDI_LEARN_STORAGE_KEY = 'moog-synth:midi-learn';
+
+// Computer keyboard: A is C and K is the C above, in the octave chosen with Z / X
+const COMPUTER_KEYS = ['a', 'w', 's', 'e', 'd', 'f', 't', 'g', 'y', 'h', 'u', 'j', 'k'];
+const BASE_NOTE = 60;
+const MAX_OCTAVE_SHIFT = 3;
+const MIN_KEYBOARD_OCTAVES = 2;
+const MAX_KEYBOARD_OCTAVES = 5;
+
+// MIDI learn: while `learning` is on, clicking a knob arms it and the next
+// MIDI controller that moves gets bound to it. Knobs register themselves in
+// `controls` so incoming controller values can turn them.
+interface KnobControl extends ControlRange {
+  onChange: (value: number) => void;
+}
+
+interface MidiLearn {
+  learning: boolean;
+  armedId: string | null;
+  /** knob id → MIDI controller number */
+  bindings: Record<string, number>;
+  arm: (id: string) => void;
+  controls: Map<string, KnobControl>;
+}
+
+const MidiLearnContext = createContext<MidiLearn | null>(null);
 
 export default function MoogSynthPrototype() {
-  const [osc1Freq, setOsc1Freq] = useState(440);
-  const [osc2Freq, setOsc2Freq] = useState(220);
-  const [filterCutoff, setFilterCutoff] = useState(1000);
-  const [filterResonance, setFilterResonance] = useState(0);
-  const [reverb, setReverb] = useState(0);
-  const [delay, setDelay] = useState(0);
-  const [attack, setAttack] = useState(0.1);
-  const [decay, setDecay] = useState(0.3);
-  const [sustain, setSustain] = useState(0.7);
-  const [release, setRelease] = useState(0.5);
-  const [volume, setVolume] = useState(0.7);
-  const [waveform, setWaveform] = useState<'sine' | 'square' | 'sawtooth' | 'triangle'>('sawtooth');
+  const [patchName, setPatchName] = useState(DEFAULT_PATCH.name);
+  const [osc1Level, setOsc1Level] = useState(DEFAULT_PATCH.osc1.level);
+  const [osc2Waveform, setOsc2Waveform] = useState<Waveform>(DEFAULT_PATCH.osc2.waveform);
+  const [osc2Octave, setOsc2Octave] = useState(DEFAULT_PATCH.osc2.octave);
+  const [osc2Semitone, setOsc2Semitone] = useState(DEFAULT_PATCH.osc2.semitone);
+  const [osc2Detune, setOsc2Detune] = useState(DEFAULT_PATCH.osc2.detune);
+  const [osc2Level, setOsc2Level] = useState(DEFAULT_PATCH.osc2.level);
+  const [filterCutoff, setFilterCutoff] = useState(DEFAULT_PATCH.filter.cutoff);
+  const [filterResonance, setFilterResonance] = useState(DEFAULT_PATCH.filter.resonance);
+  const [reverb, setReverb] = useState(DEFAULT_PATCH.effects.reverb);
+  const [delay, setDelay] = useState(DEFAULT_PATCH.effects.delay);
+  const [reverbSize, setReverbSize] = useState(DEFAULT_PATCH.effects.reverbSize);
+  const [reverbDecay, setReverbDecay] = useState(DEFAULT_PATCH.effects.reverbDecay);
+  const [delayTime, setDelayTime] = useState(DEFAULT_PATCH.effects.delayTime);
+  const [delaySync, setDelaySync] = useState(DEFAULT_PATCH.effects.delaySync);
+  const [delayDivision, setDelayDivision] = useState(DEFAULT_PATCH.effects.delayDivision);
+  const [delayFeedback, setDelayFeedback] = useState(DEFAULT_PATCH.effects.delayFeedback);
+  const [delayTone, setDelayTone] = useState(DEFAULT_PATCH.effects.delayTone);
+  const [chorus, setChorus] = useState(DEFAULT_PATCH.effects.chorus);
+  const [chorusRate, setChorusRate] = useState(DEFAULT_PATCH.effects.chorusRate);
+  const [chorusDepth, setChorusDepth] = useState(DEFAULT_PATCH.effects.chorusDepth);
+  const [drive, setDrive] = useState(DEFAULT_PATCH.effects.drive);
+  const [limiter, setLimiter] = useState(DEFAULT_PATCH.effects.limiter);
+  const [attack, setAttack] = useState(DEFAULT_PATCH.envelope.attack);
+  const [decay, setDecay] = useState(DEFAULT_PATCH.envelope.decay);
+  const [sustain, setSustain] = useState(DEFAULT_PATCH.envelope.sustain);
+  const [release, setRelease] = useState(DEFAULT_PATCH.envelope.release);
+  const [volume, setVolume] = useState(DEFAULT_PATCH.volume);
+  const [filterEnvAttack, setFilterEnvAttack] = useState(DEFAULT_PATCH.filterEnvelope.attack);
+  const [filterEnvDecay, setFilterEnvDecay] = useState(DEFAULT_PATCH.filterEnvelope.decay);
+  const [filterEnvSustain, setFilterEnvSustain] = useState(DEFAULT_PATCH.filterEnvelope.sustain);
+  const [filterEnvRelease, setFilterEnvRelease] = useState(DEFAULT_PATCH.filterEnvelope.release);
+  const [filterEnvAmount, setFilterEnvAmount] = useState(DEFAULT_PATCH.filterEnvelope.amount);
+  const [lfos, setLfos] = useState<LfoSettings[]>(DEFAULT_PATCH.lfos);
+  const [modRoutes, setModRoutes] = useState<ModRoute[]>(DEFAULT_PATCH.modMatrix);
+  const [waveform, setWaveform] = useState<Waveform>(DEFAULT_PATCH.osc1.waveform);
+  const [voiceMode, setVoiceMode] = useState<VoiceMode>(DEFAULT_PATCH.voice.mode);
+  const [polyphony, setPolyphony] = useState(DEFAULT_PATCH.voice.polyphony);
+  const [stealMode, setStealMode] = useState<StealMode>(DEFAULT_PATCH.voice.stealMode);
+  const [glide, setGlide] = useState(DEFAULT_PATCH.voice.glide);
+  const [userPatches, setUserPatches] = useState<Patch[]>([]);
+  const [patchMessage, setPatchMessage] = useState('');
+  const [patchReady, setPatchReady] = useState(false);
+  const [midiStatus, setMidiStatus] = useState<'pending' | 'ready' | 'unavailable'>('pending');
+  const [midiDevices, setMidiDevices] = useState<MidiDevice[]>([]);
+  const [midiDeviceId, setMidiDeviceId] = useState(ALL_DEVICES);
+  const [modWheelTarget, setModWheelTarget] = useState('CUTOFF');
+  const [sustainPedal, setSustainPedal] = useState(false);
+  const [learning, setLearning] = useState(false);
+  const [armedKnob, setArmedKnob] = useState<string | null>(null);
+  const [ccBindings, setCcBindings] = useState<Record<string, number>>({});
+  const [playMode, setPlayMode] = useState<'keys' | 'sequencer' | 'arpeggiator'>('keys');
+  const [sequencerPlaying, setSequencerPlaying] = useState(false);
+  const [tempo, setTempo] = useState(120);
+  const [recording, setRecording] = useState(false);
+  const [take, setTake] = useState<Take | null>(null);
+  const [renderStatus, setRenderStatus] = useState('');
+  const [steps, setSteps] = useState<Step[]>(DEFAULT_STEPS);
+  const [currentStep, setCurrentStep] = useState<number | null>(null);
+  const [arpPattern, setArpPattern] = useState<ArpPattern>('up');
+  const [arpOctaves, setArpOctaves] = useState(1);
+  const [arpGate, setArpGate] = useState(0.5);
+  // Keys lit up by the sequencer or arpeggiator (separate from the keys you hold)
+  const [sequencedKeys, setSequencedKeys] = useState<Set<string>>(new Set());
   const [pressedKeys, setPressedKeys] = useState<Set<string>>(new Set());
-  const [activeNotesVersion, setActiveNotesVersion] = useState(0);
+  const [octaveShift, setOctaveShift] = useState(0);
+  const [keyboardOctaves, setKeyboardOctaves] = useState(MIN_KEYBOARD_OCTAVES);
+  const [tuning, setTuning] = useState<Tuning>(DEFAULT_TUNING);
+  const [referencePitch, setReferencePitch] = useState(DEFAULT_REFERENCE_PITCH);
+  const [tuningMessage, setTuningMessage] = useState('');
+  const [scopeView, setScopeView] = useState<ScopeView>('scope');
+  const [clipping, setClipping] = useState(false);
   
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const scalaInputRef = useRef<HTMLInputElement>(null);
   const animationFrameRef = useRef<number | undefined>(undefined);
   const audioContextRef = useRef<AudioContext | null>(null);
-  const oscillatorsRef = useRef<Map<string, OscillatorNode>>(new Map());
-  const gainNodesRef = useRef<Map<string, GainNode>>(new Map());
-  const activeNotesRef = useRef<Map<string, number>>(new Map());
-  const convolverRef = useRef<ConvolverNode | null>(null);
-  const delayNodeRef = useRef<DelayNode | null>(null);
-  const delayGainRef = useRef<GainNode | null>(null);
-
-  // Generate waveform visualization
-  useEffect(() => {
-    if (!canvasRef.current) return;
-
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const drawWaveform = () => {
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-      const activeNoteFrequencies = Array.from(activeNotesRef.current.values());
-      const shouldVisualize = activeNoteFrequencies.length > 0;
+  const allocatorRef = useRef<VoiceAllocator | null>(null);
+  const analyserRef = useRef<AnalyserNode | null>(null);
+  const meterRmsRef = useRef<HTMLDivElement>(null);
+  const meterPeakRef = useRef<HTMLDivElement>(null);
+  const effectsRef = useRef<EffectsChain | null>(null);
+  const midiManagerRef = useRef<MidiInputManager | null>(null);
+  const midiHandlersRef = useRef<MidiHandlers | null>(null);
+  const knobControlsRef = useRef<Map<string, KnobControl>>(new Map());
+  // Keys held down right now. Kept in a ref so a quick note-on/note-off pair (MIDI,
+  // glissando) sees the first change before React re-renders; pressedKeys only draws them.
+  const heldKeysRef = useRef<Set<string>>(new Set());
+  const sustainPedalRef = useRef(false);
+  // Keys let go while the sustain pedal is down; they stop when it comes up
+  const sustainedNotesRef = useRef<Set<string>>(new Set());
+  // Computer keys held down → the MIDI note each one started
+  const heldComputerKeysRef = useRef<Map<string, number>>(new Map());
+  const clockRef = useRef<StepClock | null>(null);
+  const onStepRef = useRef<((step: number, time: number, duration: number) => void) | null>(null);
+  // Held keys the arpeggiator plays (MIDI note numbers), and notes the sequencer has sounding
+  const arpNotesRef = useRef<Set<number>>(new Set());
+  const sequencedNotesRef = useRef<Set<string>>(new Set());
+  // A sliding step into the same note is a tie: the note keeps sounding into the next step
+  const tiedNoteRef = useRef<number | null>(null);
+  // While recording: when the take started (audio time) and the notes played so far
+  const recordingRef = useRef<{ start: number; events: RecordedEvent[] } | null>(null);
+
+  // Every sound setting as one patch, for saving, exporting and sharing
+  const currentPatch: Patch = {
+    version: PATCH_VERSION,
+    name: patchName,
+    osc1: { waveform, level: osc1Level },
+    osc2: {
+      waveform: osc2Waveform,
+      octave: osc2Octave,
+      semitone: osc2Semitone,
+      detune: osc2Detune,
+      level: osc2Level,
+    },
+    filter: { cutoff: filterCutoff, resonance: filterResonance },
+    effects: {
+      reverb,
+      reverbSize,
+      reverbDecay,
+      delay,
+      delayTime,
+      delaySync,
+      delayDivision,
+      delayFeedback,
+      delayTone,
+      chorus,
+      chorusRate,
+      chorusDepth,
+      drive,
+      limiter,
+    },
+    envelope: { attack, decay, sustain, release },
+    filterEnvelope: {
+      attack: filterEnvAttack,
+      decay: filterEnvDecay,
+      sustain: filterEnvSustain,
+      release: filterEnvRelease,
+      amount: filterEnvAmount,
+    },
+    lfos,
+    modMatrix: modRoutes,
+    voice: { mode: voiceMode, polyphony, stealMode, glide },
+    volume,
+  };
 
-      if (!shouldVisualize) {
-        ctx.fillStyle = '#1a1a1a';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-        return;
-      }
+  // The sound of a single voice, read by the voice allocator on every new note
+  const voiceParams: VoiceParams = patchToVoiceParams(currentPatch);
+
+  // Puts every setting of a patch on the panel
+  const applyPatch = (patch: Patch) => {
+    setPatchName(patch.name);
+    setWaveform(patch.osc1.waveform);
+    setOsc1Level(patch.osc1.level);
+    setOsc2Waveform(patch.osc2.waveform);
+    setOsc2Octave(patch.osc2.octave);
+    setOsc2Semitone(patch.osc2.semitone);
+    setOsc2Detune(patch.osc2.detune);
+    setOsc2Level(patch.osc2.level);
+    setFilterCutoff(patch.filter.cutoff);
+    setFilterResonance(patch.filter.resonance);
+    setReverb(patch.effects.reverb);
+    setDelay(patch.effects.delay);
+    setReverbSize(patch.effects.reverbSize);
+    setReverbDecay(patch.effects.reverbDecay);
+    setDelayTime(patch.effects.delayTime);
+    setDelaySync(patch.effects.delaySync);
+    setDelayDivision(patch.effects.delayDivision);
+    setDelayFeedback(patch.effects.delayFeedback);
+    setDelayTone(patch.effects.delayTone);
+    setChorus(patch.effects.chorus);
+    setChorusRate(patch.effects.chorusRate);
+    setChorusDepth(patch.effects.chorusDepth);
+    setDrive(patch.effects.drive);
+    setLimiter(patch.effects.limiter);
+    setAttack(patch.envelope.attack);
+    setDecay(patch.envelope.decay);
+    setSustain(patch.envelope.sustain);
+    setRelease(patch.envelope.release);
+    setFilterEnvAttack(patch.filterEnvelope.attack);
+    setFilterEnvDecay(patch.filterEnvelope.decay);
+    setFilterEnvSustain(patch.filterEnvelope.sustain);
+    setFilterEnvRelease(patch.filterEnvelope.release);
+    setFilterEnvAmount(patch.filterEnvelope.amount);
+    setLfos(patch.lfos);
+    setModRoutes(patch.modMatrix);
+    setVoiceMode(patch.voice.mode);
+    setPolyphony(patch.voice.polyphony);
+    setStealMode(patch.voice.stealMode);
+    setGlide(patch.voice.glide);
+    setVolume(patch.volume);
+  };
 
-      // Draw grid
-      ctx.strokeStyle = '#333';
-      ctx.lineWidth = 1;
-      for (let i = 0; i <= 10; i++) {
-        const y = (canvas.height / 10) * i;
-        ctx.beginPath();
-        ctx.moveTo(0, y);
-        ctx.lineTo(canvas.width, y);
-        ctx.stroke();
+  // Load a shared patch from the URL, or else the patch from last visit
+  useEffect(() => {
+    const shared = new URLSearchParams(window.location.search).get(PATCH_URL_PARAM);
+    let patch = loadCurrentPatch();
+    if (shared) {
+      try {
+        patch = decodePatch(shared);
+        setPatchMessage(`Loaded shared patch "${patch.name}"`);
+      } catch {
+        setPatchMessage("The shared patch link couldn't be read");
       }
+    }
+    if (patch) applyPatch(patch);
+    setUserPatches(loadUserPatches());
+    setPatchReady(true);
+  }, []);
 
-      // Draw waveform
-      ctx.strokeStyle = '#00ff88';
-      ctx.lineWidth = 2;
-      ctx.lineJoin = 'round';
-      ctx.lineCap = 'round';
-      ctx.beginPath();
-
-      // More samples + smoothing makes the scope feel more "analog"
-      const samples = 900;
-      const time = Date.now() * 0.001;
-
-      // If no keys are currently pressed but the user toggled PLAY,
-      // use OSC1 frequency as a simple "drone" for the scope.
-      const scopeFrequencies =
-        activeNoteFrequencies.length > 0 ? activeNoteFrequencies : [osc1Freq];
-      
-      // Precompute raw samples so we can smooth them
-      const raw: number[] = new Array(samples + 1);
-      for (let i = 0; i <= samples; i++) {
-        // Mix all currently active notes (simple additive synthesis)
-        let y = 0;
-        for (const freq of scopeFrequencies) {
-          const t = (i / samples) * Math.PI * 4 + time * freq * 0.01;
-
-          let sample = 0;
-          switch (waveform) {
-            case 'sine':
-              sample = Math.sin(t);
-              break;
-            case 'square':
-              sample = Math.sign(Math.sin(t));
-              break;
-            case 'sawtooth':
-              sample = 2 * ((t / (2 * Math.PI)) % 1) - 1;
-              break;
-            case 'triangle':
-              sample = 2 * Math.abs(2 * ((t / (2 * Math.PI)) % 1) - 1) - 1;
-              break;
-            default:
-              sample = Math.sin(t);
-          }
-
-          y += sample;
-        }
-
-        // Normalize so multiple notes don't clip the scope
-        y /= Math.max(1, scopeFrequencies.length);
-
-        // Apply filter effect (simplified)
-        const filterEffect = Math.max(0, 1 - (filterCutoff / 5000));
-        y *= (1 - filterEffect * 0.5);
-
-        raw[i] = y;
-      }
+  // Remember the current patch so it's still there after a reload
+  const currentPatchJson = JSON.stringify(currentPatch);
+  useEffect(() => {
+    if (patchReady) saveCurrentPatch(currentPatch);
+  }, [currentPatchJson, patchReady]);
+
+  const handleLoadPreset = (value: string) => {
+    const [bank, index] = value.split(':');
+    const patch = (bank === 'factory' ? FACTORY_PRESETS : userPatches)[Number(index)];
+    if (patch) {
+      applyPatch(patch);
+      setPatchMessage(`Loaded "${patch.name}"`);
+    }
+  };
 
-      // Smooth with a small moving-average window.
-      // This intentionally rounds off sharp edges so the scope reads more like an analog sine.
-      const windowSize = 6; // higher = smoother
-      const smoothed: number[] = new Array(samples + 1);
-      for (let i = 0; i <= samples; i++) {
-        let sum = 0;
-        let count = 0;
-        for (let k = -windowSize; k <= windowSize; k++) {
-          const idx = i + k;
-          if (idx >= 0 && idx <= samples) {
-            sum += raw[idx];
-            count++;
-          }
-        }
-        smoothed[i] = sum / Math.max(1, count);
-      }
+  // Saving uses the name box; a patch with the same name is replaced
+  const handleSavePatch = () => {
+    const name = patchName.trim() || DEFAULT_PATCH.name;
+    const patch = { ...currentPatch, name };
+    const next = [...userPatches.filter((p) => p.name !== name), patch];
+    setUserPatches(next);
+    saveUserPatches(next);
+    setPatchName(name);
+    setPatchMessage(`Saved "${name}"`);
+  };
 
-      // Draw using a quadratic curve for additional smoothness
-      const toCanvasY = (y: number) =>
-        (canvas.height / 2) + (y * (canvas.height / 2) * 0.8);
+  const handleDeletePatch = () => {
+    const next = userPatches.filter((p) => p.name !== patchName);
+    setUserPatches(next);
+    saveUserPatches(next);
+    setPatchMessage(`Deleted "${patchName}"`);
+  };
 
-      const x0 = 0;
-      const y0 = toCanvasY(smoothed[0]);
-      ctx.moveTo(x0, y0);
+  const handleImportPatch = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const patch = await importPatchFile(file);
+      applyPatch(patch);
+      setPatchMessage(`Imported "${patch.name}"`);
+    } catch (error) {
+      setPatchMessage(error instanceof Error ? error.message : "Couldn't import that file");
+    }
+  };
 
-      for (let i = 1; i < samples; i++) {
-        const x = (canvas.width / samples) * i;
-        const y = toCanvasY(smoothed[i]);
-        const xNext = (canvas.width / samples) * (i + 1);
-        const yNext = toCanvasY(smoothed[i + 1]);
+  const handleSharePatch = async () => {
+    const url = patchShareUrl(currentPatch);
+    try {
+      await navigator.clipboard.writeText(url);
+      setPatchMessage('Share link copied to the clipboard');
+    } catch {
+      window.history.replaceState(null, '', url);
+      setPatchMessage('Copy the link from the address bar to share this patch');
+    }
+  };
 
-        // Control point at current sample, end point halfway to next sample
-        ctx.quadraticCurveTo(x, y, (x + xNext) / 2, (y + yNext) / 2);
+  // Draw the real output: scope or spectrum, plus the level meter
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    let clipUntil = 0;
+    let showingClip = false;
+
+    const draw = () => {
+      animationFrameRef.current = requestAnimationFrame(draw);
+      const analyser = analyserRef.current;
+      if (!analyser) return;
+
+      const samples = new Float32Array(analyser.fftSize);
+      analyser.getFloatTimeDomainData(samples);
+
+      if (scopeView === 'scope') {
+        drawScope(ctx, canvas.width, canvas.height, samples);
+      } else {
+        const bins = new Float32Array(analyser.frequencyBinCount);
+        analyser.getFloatFrequencyData(bins);
+        drawSpectrum(ctx, canvas.width, canvas.height, bins, analyser.context.sampleRate);
       }
 
-      // Final segment to the last point
-      const xLast = canvas.width;
-      const yLast = toCanvasY(smoothed[samples]);
-      ctx.lineTo(xLast, yLast);
-      
-      ctx.stroke();
-      
-      animationFrameRef.current = requestAnimationFrame(drawWaveform);
+      // The meter is updated directly (not through React state), it changes every frame
+      const { peak, rms } = measureLevel(samples);
+      const toWidth = (level: number) =>
+        `${Math.max(0, 1 - toDecibels(level) / METER_FLOOR_DB) * 100}%`;
+      if (meterRmsRef.current) meterRmsRef.current.style.width = toWidth(rms);
+      if (meterPeakRef.current) meterPeakRef.current.style.left = toWidth(peak);
+
+      // The clip light stays on for a moment so short overs are still noticed
+      const now = performance.now();
+      if (peak >= CLIP_LEVEL) clipUntil = now + 1500;
+      if ((now < clipUntil) !== showingClip) {
+        showingClip = now < clipUntil;
+        setClipping(showingClip);
+      }
     };
 
-    drawWaveform();
+    draw();
 
     return () => {
       if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current);
       }
     };
-  }, [osc1Freq, waveform, filterCutoff, activeNotesVersion]);
+  }, [scopeView]);
 
   // Initialize Audio Context and effects
   useEffect(() => {
@@ -176,213 +449,423 @@ export default function MoogSynthPrototype() {
       const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
       audioContextRef.current = audioContext;
 
-      // Create reverb convolver (impulse response simulation)
-      const convolver = audioContext.createConvolver();
-      const bufferLength = audioContext.sampleRate * 2;
-      const impulse = audioContext.createBuffer(2, bufferLength, audioContext.sampleRate);
-      
-      for (let channel = 0; channel < 2; channel++) {
-        const channelData = impulse.getChannelData(channel);
-        for (let i = 0; i < bufferLength; i++) {
-          channelData[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / bufferLength, 1.5);
-        }
-      }
-      
-      convolver.buffer = impulse;
-      convolverRef.current = convolver;
-
-      // Create delay effect
-      const delayNode = audioContext.createDelay(1.0);
-      delayNode.delayTime.value = 0.3;
-      delayNodeRef.current = delayNode;
-
-      const delayGain = audioContext.createGain();
-      delayGain.gain.value = 0;
-      delayGainRef.current = delayGain;
-
-      // Connect delay feedback loop
-      delayNode.connect(delayGain);
-      delayGain.connect(delayNode);
+      // All voices play into the allocator's output, which feeds the reverb
+      // and delay (wired once, not per note)
+      const allocator = new VoiceAllocator(audioContext, voiceParams);
+      allocatorRef.current = allocator;
+      // Everything ends up on the master bus, where the analyser listens in
+      const masterBus = audioContext.createGain();
+      masterBus.connect(audioContext.destination);
+      analyserRef.current = createAnalyser(audioContext, masterBus);
+      effectsRef.current = createEffectsChain(audioContext, allocator.output, masterBus);
     }
 
     return () => {
-      // Cleanup: stop all oscillators
-      oscillatorsRef.current.forEach((osc) => {
-        try {
-          osc.stop();
-          osc.disconnect();
-        } catch (e) {
-          // Ignore errors during cleanup
-        }
-      });
-      oscillatorsRef.current.clear();
-      gainNodesRef.current.clear();
+      // Cleanup: stop all voices and close the context. The refs are cleared so
+      // a remount (React does one in development) builds a fresh graph, LFOs included.
+      allocatorRef.current?.dispose();
+      audioContextRef.current?.close();
+      audioContextRef.current = null;
+      allocatorRef.current = null;
+      effectsRef.current = null;
+      analyserRef.current = null;
     };
   }, []);
 
-  // Update delay time and feedback
+  // Update the effects bus (a synced delay also follows the tempo)
+  const effectsJson = JSON.stringify(currentPatch.effects);
   useEffect(() => {
-    if (delayNodeRef.current && delayGainRef.current) {
-      delayGainRef.current.gain.value = delay / 100 * 0.4; // Max 40% feedback
-    }
-  }, [delay]);
+    effectsRef.current?.update(currentPatch.effects, tempo);
+  }, [effectsJson, tempo]);
 
-  // Play note function
-  const playNote = (frequency: number, note: string) => {
-    if (!audioContextRef.current) return;
+  // Update voice mode, polyphony, stealing and glide
+  useEffect(() => {
+    allocatorRef.current?.configure({ mode: voiceMode, polyphony, stealMode, glide });
+  }, [voiceMode, polyphony, stealMode, glide]);
 
+  // Run the step clock while the sequencer is playing, or the arpeggiator is on
+  useEffect(() => {
     const audioContext = audioContextRef.current;
-    
-    // Resume audio context if suspended (required by some browsers)
+    const running = (playMode === 'sequencer' && sequencerPlaying) || playMode === 'arpeggiator';
+    if (!audioContext || !running) return;
+
     if (audioContext.state === 'suspended') {
       audioContext.resume();
     }
+    const clock = new StepClock(audioContext, (step, time, duration) => onStepRef.current?.(step, time, duration));
+    clock.tempo = tempo;
+    clockRef.current = clock;
+    tiedNoteRef.current = null;
+    clock.start();
 
-    // Create oscillator
-    const oscillator = audioContext.createOscillator();
-    const gainNode = audioContext.createGain();
-    const filterNode = audioContext.createBiquadFilter();
-
-    // Configure filter
-    filterNode.type = 'lowpass';
-    filterNode.frequency.value = filterCutoff;
-    filterNode.Q.value = filterResonance / 10;
-
-    // Configure oscillator
-    oscillator.type = waveform;
-    oscillator.frequency.value = frequency;
-
-    // Configure gain envelope (ADSR)
-    const now = audioContext.currentTime;
-    gainNode.gain.setValueAtTime(0, now);
-    gainNode.gain.linearRampToValueAtTime(volume, now + attack);
-    gainNode.gain.linearRampToValueAtTime(volume * sustain, now + attack + decay);
-    gainNode.gain.setValueAtTime(volume * sustain, now + attack + decay + 0.1);
-    gainNode.gain.linearRampToValueAtTime(0, now + attack + decay + 0.1 + release);
-
-    // Connect nodes with effects
-    oscillator.connect(filterNode);
-    
-    // Create a merger to combine dry and wet signals
-    const merger = audioContext.createChannelMerger(2);
-    
-    // Dry signal path
-    const dryGain = audioContext.createGain();
-    dryGain.gain.value = 1 - Math.max(reverb / 100, delay / 100) * 0.3;
-    filterNode.connect(dryGain);
-    dryGain.connect(merger, 0, 0);
-    
-    // Reverb path
-    if (reverb > 0 && convolverRef.current) {
-      const reverbGain = audioContext.createGain();
-      reverbGain.gain.value = reverb / 100;
-      filterNode.connect(reverbGain);
-      reverbGain.connect(convolverRef.current);
-      convolverRef.current.connect(merger, 0, 0);
+    return () => {
+      clock.stop();
+      clockRef.current = null;
+      // Release whatever the sequencer still holds, after the steps already scheduled
+      const after = Math.max(audioContext.currentTime, clock.nextStepTime);
+      sequencedNotesRef.current.forEach((note) => stopSequencedNote(note, after));
+      setCurrentStep(null);
+    };
+  }, [playMode, sequencerPlaying]);
+
+  // Tempo changes apply from the next step
+  useEffect(() => {
+    if (clockRef.current) clockRef.current.tempo = tempo;
+  }, [tempo]);
+
+  // Leaving arpeggiator mode forgets the keys it was holding
+  useEffect(() => {
+    if (playMode !== 'arpeggiator') arpNotesRef.current.clear();
+  }, [playMode]);
+
+  const updateLfo = (index: number, changes: Partial<LfoSettings>) => {
+    setLfos((prev) => prev.map((lfo, i) => (i === index ? { ...lfo, ...changes } : lfo)));
+  };
+
+  const updateModRoute = (index: number, changes: Partial<ModRoute>) => {
+    setModRoutes((prev) => prev.map((route, i) => (i === index ? { ...route, ...changes } : route)));
+  };
+
+  const updateStep = (index: number, change: Partial<Step>) => {
+    setSteps((prev) => prev.map((step, i) => (i === index ? { ...step, ...change } : step)));
+  };
+
+  // Runs a screen update when the audio clock reaches `time`.
+  // Notes can be scheduled ahead (by the sequencer), so the visuals wait for the sound.
+  const atAudioTime = (time: number | undefined, update: () => void) => {
+    const audioContext = audioContextRef.current;
+    if (time === undefined || !audioContext || time <= audioContext.currentTime) {
+      update();
+      return;
     }
+    setTimeout(update, (time - audioContext.currentTime) * 1000);
+  };
+
+  // Adds a note to the take being recorded, if any
+  const recordEvent = (type: RecordedEvent['type'], note: string, frequency: number, velocity: number, time?: number) => {
+    const recorder = recordingRef.current;
+    const audioContext = audioContextRef.current;
+    if (!recorder || !audioContext) return;
+    const at = (time ?? audioContext.currentTime) - recorder.start;
+    recorder.events.push({ type, time: at, note, frequency, velocity });
+  };
+
+  // Play note function (time: when to play it on the audio clock, default now)
+  const playNote = (frequency: number, note: string, velocity = 1, time?: number) => {
+    if (!audioContextRef.current || !allocatorRef.current) return;
+
+    const audioContext = audioContextRef.current;
     
-    // Delay path
-    if (delay > 0 && delayNodeRef.current && delayGainRef.current) {
-      const delayInputGain = audioContext.createGain();
-      delayInputGain.gain.value = delay / 100;
-      filterNode.connect(delayInputGain);
-      delayInputGain.connect(delayNodeRef.current);
-      
-      const delayOutputGain = audioContext.createGain();
-      delayOutputGain.gain.value = delay / 100;
-      delayNodeRef.current.connect(delayOutputGain);
-      delayOutputGain.connect(merger, 0, 0);
+    // Resume audio context if suspended (required by some browsers)
+    if (audioContext.state === 'suspended') {
+      audioContext.resume();
     }
-    
-    // Connect merged signal to gain node
-    merger.connect(gainNode);
-    gainNode.connect(audioContext.destination);
-
-    // Start oscillator
-    oscillator.start(now);
-    oscillator.stop(now + attack + decay + 0.1 + release);
-
-    // Store references
-    oscillatorsRef.current.set(note, oscillator);
-    gainNodesRef.current.set(note, gainNode);
-    activeNotesRef.current.set(note, frequency);
-    setActiveNotesVersion((v) => v + 1);
-
-    // Clean up when note ends
-    oscillator.onended = () => {
-      oscillatorsRef.current.delete(note);
-      gainNodesRef.current.delete(note);
-      activeNotesRef.current.delete(note);
-      setActiveNotesVersion((v) => v + 1);
-    };
+
+    // The allocator picks (or steals) a voice and starts its envelope.
+    // The note then sustains until stopNote is called.
+    allocatorRef.current.noteOn(note, frequency, velocity, time);
+    recordEvent('on', note, frequency, velocity, time);
   };
 
   // Stop note function
-  const stopNote = (note: string) => {
-    const gainNode = gainNodesRef.current.get(note);
-    if (gainNode && audioContextRef.current) {
-      const now = audioContextRef.current.currentTime;
-      gainNode.gain.cancelScheduledValues(now);
-      gainNode.gain.linearRampToValueAtTime(0, now + release);
+  const stopNote = (note: string, time?: number) => {
+    allocatorRef.current?.noteOff(note, time);
+    recordEvent('off', note, 0, 0, time);
+  };
+
+  // Every note's pitch comes from here: the chosen tuning, with A4 at the reference pitch
+  const frequencyOf = (midiNote: number) => noteFrequency(midiNote, tuning, referencePitch);
+
+  // Sequencer / arpeggiator notes also light up their key while they play
+  const playSequencedNote = (midiNote: number, velocity: number, time: number, length: number | null) => {
+    const note = midiNoteName(midiNote);
+    playNote(frequencyOf(midiNote), note, velocity, time);
+    sequencedNotesRef.current.add(note);
+    atAudioTime(time, () => setSequencedKeys((prev) => new Set(prev).add(note)));
+    if (length !== null) stopSequencedNote(note, time + length);
+  };
+
+  const stopSequencedNote = (note: string, time?: number) => {
+    stopNote(note, time);
+    sequencedNotesRef.current.delete(note);
+    atAudioTime(time, () =>
+      setSequencedKeys((prev) => {
+        const next = new Set(prev);
+        next.delete(note);
+        return next;
+      })
+    );
+  };
+
+  // Called by the step clock for every step, a little before it is heard
+  onStepRef.current = (stepNumber, time, duration) => {
+    if (playMode === 'sequencer') {
+      const index = stepNumber % STEP_COUNT;
+      const step = steps[index];
+      const next = steps[(index + 1) % STEP_COUNT];
+      atAudioTime(time, () => setCurrentStep(index));
+
+      const wasTied = tiedNoteRef.current === step.note;
+      tiedNoteRef.current = null;
+      if (!step.active) return;
+
+      // How long the note lasts: its gate, or (when sliding) just past the start of
+      // the next step so the two notes overlap and glide. Sliding into the same
+      // note is a tie (null): it keeps sounding and the next step carries on.
+      let length: number | null = step.gate * duration;
+      if (step.slide) {
+        length = next.active && next.note === step.note ? null : duration + 0.01;
+      }
+
+      if (wasTied) {
+        if (length !== null) stopSequencedNote(midiNoteName(step.note), time + length);
+      } else {
+        const velocity = step.accent ? ACCENT_VELOCITY : NORMAL_VELOCITY;
+        playSequencedNote(step.note, velocity, time, length);
+      }
+      if (length === null) tiedNoteRef.current = step.note;
     }
-    // For visualization, consider the note released immediately.
-    // Audio tail will continue due to envelope release, but the scope shows active keys.
-    if (activeNotesRef.current.has(note)) {
-      activeNotesRef.current.delete(note);
-      setActiveNotesVersion((v) => v + 1);
+
+    if (playMode === 'arpeggiator') {
+      const sequence = arpeggioSequence([...arpNotesRef.current], arpPattern, arpOctaves);
+      if (sequence.length === 0) return;
+      const note = arpPattern === 'random'
+        ? sequence[Math.floor(Math.random() * sequence.length)]
+        : sequence[stepNumber % sequence.length];
+      playSequencedNote(note, NORMAL_VELOCITY, time, arpGate * duration);
     }
   };
 
-  // Handle key press
-  const handleKeyPress = (note: string, frequency: number) => {
-    if (pressedKeys.has(note)) return;
-    
-    setPressedKeys((prev) => new Set(prev).add(note));
-    playNote(frequency, note);
+  // Handle key press (from the on-screen keys, the computer keyboard or MIDI)
+  const handleKeyPress = (midiNote: number, velocity = 1) => {
+    const note = midiNoteName(midiNote);
+    if (heldKeysRef.current.has(note)) return;
+
+    heldKeysRef.current.add(note);
+    sustainedNotesRef.current.delete(note);
+    setPressedKeys(new Set(heldKeysRef.current));
+
+    // In arpeggiator mode, held keys feed the arpeggio instead of playing directly
+    if (playMode === 'arpeggiator') {
+      arpNotesRef.current.add(midiNote);
+      return;
+    }
+    playNote(frequencyOf(midiNote), note, velocity);
   };
 
   // Handle key release
-  const handleKeyRelease = (note: string) => {
-    if (!pressedKeys.has(note)) return;
-    
-    setPressedKeys((prev) => {
-      const newSet = new Set(prev);
-      newSet.delete(note);
-      return newSet;
-    });
+  const handleKeyRelease = (midiNote: number) => {
+    const note = midiNoteName(midiNote);
+    if (!heldKeysRef.current.delete(note)) return;
+
+    setPressedKeys(new Set(heldKeysRef.current));
+
+    if (arpNotesRef.current.delete(midiNote)) return;
+
+    // With the sustain pedal down the note keeps ringing until the pedal comes up
+    if (sustainPedalRef.current) {
+      sustainedNotesRef.current.add(note);
+      return;
+    }
     stopNote(note);
   };
 
-  // Keyboard shortcuts (computer keyboard)
+  // Record button: start a new take, or finish the current one
+  const handleRecord = () => {
+    const audioContext = audioContextRef.current;
+    if (!audioContext) return;
+
+    const recorder = recordingRef.current;
+    if (!recorder) {
+      if (audioContext.state === 'suspended') audioContext.resume();
+      recordingRef.current = { start: audioContext.currentTime, events: [] };
+      setRecording(true);
+      setRenderStatus('');
+      return;
+    }
+
+    recordingRef.current = null;
+    setRecording(false);
+    const duration = audioContext.currentTime - recorder.start;
+    const notes = recorder.events.filter((event) => event.type === 'on').length;
+    setTake(finishTake(recorder.events, duration, currentPatch, tempo));
+    setRenderStatus(`${notes} notes, ${duration.toFixed(1)} s`);
+  };
+
+  // Renders the take offline (faster than real time) and downloads it as a WAV file
+  const handleExportWav = async (bitDepth: BitDepth) => {
+    if (!take) return;
+    setRenderStatus('Rendering…');
+    try {
+      const buffer = await renderTake(take);
+      const { duration, peak } = analyzeRender(buffer);
+      if (peak === 0) {
+        setRenderStatus('The render came out silent');
+        return;
+      }
+      downloadBlob(encodeWav(buffer, bitDepth), `${patchFileName(take.patch)}-take.wav`);
+      const peakDb = 20 * Math.log10(peak);
+      setRenderStatus(`Rendered ${duration.toFixed(1)} s, peak ${peakDb.toFixed(1)} dB`);
+    } catch {
+      setRenderStatus("The take couldn't be rendered");
+    }
+  };
+
+  const handleExportMidi = () => {
+    if (!take) return;
+    downloadBlob(encodeMidiFile(take), `${patchFileName(take.patch)}-take.mid`);
+  };
+
+  // Sustain pedal (MIDI CC64)
+  const handleSustainPedal = (down: boolean) => {
+    sustainPedalRef.current = down;
+    setSustainPedal(down);
+    if (down) return;
+
+    sustainedNotesRef.current.forEach((note) => stopNote(note));
+    sustainedNotesRef.current.clear();
+  };
+
+  // Turns a knob from a MIDI controller value (0..1)
+  const setKnobFromMidi = (id: string, value: number) => {
+    const control = knobControlsRef.current.get(id);
+    if (control) {
+      // Follows the knob's taper, so a CC at half way lands where the knob's pointer would be
+      control.onChange(positionToValue(value, control));
+    }
+  };
+
+  const midiLearn: MidiLearn = {
+    learning,
+    armedId: armedKnob,
+    bindings: ccBindings,
+    arm: setArmedKnob,
+    controls: knobControlsRef.current,
+  };
+
+  // MIDI handlers are rebuilt every render so they always see the latest state;
+  // the MIDI manager calls them through this ref
+  midiHandlersRef.current = {
+    onNoteOn: (note, velocity) => {
+      handleKeyPress(note, velocity);
+    },
+    onNoteOff: (note) => {
+      handleKeyRelease(note);
+    },
+    onPitchBend: (value) => {
+      allocatorRef.current?.setPitchBend(value * PITCH_BEND_RANGE * 100);
+    },
+    onControlChange: (controller, value) => {
+      // Learning: bind this controller to the armed knob (and unbind it from any other)
+      if (learning && armedKnob) {
+        const bindings = Object.fromEntries(
+          Object.entries(ccBindings).filter(([, cc]) => cc !== controller)
+        );
+        handleBindingsChange({ ...bindings, [armedKnob]: controller });
+        setArmedKnob(null);
+        return;
+      }
+
+      const boundKnob = Object.keys(ccBindings).find((id) => ccBindings[id] === controller);
+      if (boundKnob) {
+        setKnobFromMidi(boundKnob, value);
+      } else if (controller === SUSTAIN_PEDAL_CC) {
+        handleSustainPedal(value >= 0.5);
+      } else if (controller === MOD_WHEEL_CC) {
+        // The wheel is a mod matrix source, and can also turn a knob
+        allocatorRef.current?.setModWheel(value);
+        setKnobFromMidi(modWheelTarget, value);
+      }
+    },
+  };
+
+  // Connect to MIDI devices
   useEffect(() => {
-    const keyMap: { [key: string]: { note: string; freq: number } } = {
-      'a': { note: 'C4', freq: 261.63 },
-      'w': { note: 'C#4', freq: 277.18 },
-      's': { note: 'D4', freq: 293.66 },
-      'e': { note: 'D#4', freq: 311.13 },
-      'd': { note: 'E4', freq: 329.63 },
-      'f': { note: 'F4', freq: 349.23 },
-      't': { note: 'F#4', freq: 369.99 },
-      'g': { note: 'G4', freq: 392.00 },
-      'y': { note: 'G#4', freq: 415.30 },
-      'h': { note: 'A4', freq: 440.00 },
-      'u': { note: 'A#4', freq: 466.16 },
-      'j': { note: 'B4', freq: 493.88 },
-      'k': { note: 'C5', freq: 523.25 },
+    let cancelled = false;
+
+    requestMidiAccess().then((access) => {
+      if (cancelled) return;
+      if (!access) {
+        setMidiStatus('unavailable');
+        return;
+      }
+
+      const manager = new MidiInputManager(
+        access,
+        {
+          onNoteOn: (note, velocity) => midiHandlersRef.current?.onNoteOn(note, velocity),
+          onNoteOff: (note) => midiHandlersRef.current?.onNoteOff(note),
+          onControlChange: (cc, value) => midiHandlersRef.current?.onControlChange(cc, value),
+          onPitchBend: (value) => midiHandlersRef.current?.onPitchBend(value),
+        },
+        setMidiDevices
+      );
+      midiManagerRef.current = manager;
+      setMidiDevices(manager.devices());
+      setMidiStatus('ready');
+    });
+
+    return () => {
+      cancelled = true;
+      midiManagerRef.current?.dispose();
+      midiManagerRef.current = null;
     };
+  }, []);
+
+  // Listen to the chosen MIDI device
+  useEffect(() => {
+    midiManagerRef.current?.select(midiDeviceId);
+  }, [midiDeviceId, midiStatus]);
+
+  // Load saved MIDI-learn bindings
+  useEffect(() => {
+    const saved = localStorage.getItem(MIDI_LEARN_STORAGE_KEY);
+    if (saved) {
+      try {
+        setCcBindings(JSON.parse(saved));
+      } catch {
+        // Ignore bindings we can't read
+      }
+    }
+  }, []);
+
+  // Save MIDI-learn bindings whenever they change
+  const handleBindingsChange = (bindings: Record<string, number>) => {
+    setCcBindings(bindings);
+    try {
+      localStorage.setItem(MIDI_LEARN_STORAGE_KEY, JSON.stringify(bindings));
+    } catch {
+      // Storage can be blocked or full; the bindings work until the page reloads
+    }
+  };
+
+  // Keyboard shortcuts (computer keyboard)
+  useEffect(() => {
+    const isTyping = (e: KeyboardEvent) =>
+      e.target instanceof HTMLElement && e.target.closest('input, select, textarea') !== null;
 
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.metaKey || e.ctrlKey || isTyping(e)) return;
       const key = e.key.toLowerCase();
-      if (keyMap[key] && !pressedKeys.has(keyMap[key].note)) {
-        handleKeyPress(keyMap[key].note, keyMap[key].freq);
+      if (key === 'z' || key === 'x') {
+        const direction = key === 'z' ? -1 : 1;
+        setOctaveShift((shift) => Math.max(-MAX_OCTAVE_SHIFT, Math.min(MAX_OCTAVE_SHIFT, shift + direction)));
+        return;
       }
+      const index = COMPUTER_KEYS.indexOf(key);
+      if (index === -1 || heldComputerKeysRef.current.has(key)) return;
+      const midiNote = BASE_NOTE + octaveShift * 12 + index;
+      heldComputerKeysRef.current.set(key, midiNote);
+      handleKeyPress(midiNote);
     };
 
     const handleKeyUp = (e: KeyboardEvent) => {
+      // Release the note the key started, even if the octave changed since
       const key = e.key.toLowerCase();
-      if (keyMap[key]) {
-        handleKeyRelease(keyMap[key].note);
-      }
+      const midiNote = heldComputerKeysRef.current.get(key);
+      if (midiNote === undefined) return;
+      heldComputerKeysRef.current.delete(key);
+      handleKeyRelease(midiNote);
     };
 
     window.addEventListener('keydown', handleKeyDown);
@@ -392,353 +875,1144 @@ export default function MoogSynthPrototype() {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [pressedKeys]);
+  }, [octaveShift, tuning, referencePitch, playMode]);
 
-  // Update filter when parameters change
+  // Load the saved tuning, then save it whenever it changes
   useEffect(() => {
-    gainNodesRef.current.forEach((gainNode) => {
-      // Filter updates are handled in playNote, but we can update active notes
-      // For simplicity, we'll let current notes finish and new ones use new settings
-    });
-  }, [filterCutoff, filterResonance, reverb, delay, waveform, attack, decay, sustain, release, volume]);
+    const saved = loadTuningSettings();
+    if (saved) {
+      setTuning(saved.tuning);
+      setReferencePitch(Math.max(MIN_REFERENCE_PITCH, Math.min(MAX_REFERENCE_PITCH, saved.referencePitch)));
+    }
+  }, []);
+
+  const handleTuningChange = (next: Tuning, pitch: number) => {
+    setTuning(next);
+    setReferencePitch(pitch);
+    saveTuningSettings({ tuning: next, referencePitch: pitch });
+  };
+
+  const handleImportScala = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = await importScalaFile(file);
+      handleTuningChange(imported, referencePitch);
+      setTuningMessage(`Loaded "${imported.name}" (${imported.steps.length} notes)`);
+    } catch (error) {
+      setTuningMessage(error instanceof Error ? error.message : "Couldn't read that scale");
+    }
+  };
 
+  // Send every sound change to the voices, including the ones sounding right now
+  const voiceParamsJson = JSON.stringify(voiceParams);
+  useEffect(() => {
+    allocatorRef.current?.setParams(voiceParams);
+  }, [voiceParamsJson]);
+
+  // LFO shapes and rates (synced LFOs follow the sequencer tempo)
+  useEffect(() => {
+    allocatorRef.current?.setLfos(lfos, tempo);
+  }, [lfos, tempo]);
 
   return (
-    <div className={styles.container}>
-      <Link href="/" className={styles.backButton}>
-        ←
-      </Link>
-
-      <main className={styles.main}>
-        <header className={styles.header}>
-          <h1 className={styles.title}>MOOG SYNTHESIZER</h1>
-          <p className={styles.subtitle}>Model 80 Digital</p>
-        </header>
-
-        <div className={styles.synthPanel}>
-          {/* Wood grain panel background effect */}
-          <div className={styles.woodGrain}></div>
-
-          {/* Top control panel (inspired by classic Moog layout) */}
-          <div className={styles.topPanel}>
-            {/* Oscillators Section */}
-            <section className={styles.topSection}>
-              <h2 className={styles.topSectionTitle}>OSCILLATOR BANK</h2>
-              <div className={styles.topSectionBody}>
-                <div className={styles.topGroup}>
-                  <label className={styles.topLabel}>OSC 1</label>
+    <MidiLearnContext.Provider value={midiLearn}>
+      <div className={styles.container}>
+        <main className={styles.main}>
+          <header className={styles.header}>
+            <h1 className={styles.title}>MOOG SYNTHESIZER</h1>
+            <p className={styles.subtitle}>Model 80 Digital</p>
+          </header>
+
+          <div className={styles.synthPanel}>
+            {/* Wood grain panel background effect */}
+            <div className={styles.woodGrain}></div>
+
+            {/* Patch bar: presets, saving, files and share links */}
+            <div className={styles.patchBar}>
+              <span className={styles.patchLabel}>PATCH</span>
+              <select
+                className={styles.midiSelect}
+                value=""
+                onChange={(e) => handleLoadPreset(e.target.value)}
+              >
+                <option value="" disabled>LOAD…</option>
+                <optgroup label="Factory">
+                  {FACTORY_PRESETS.map((preset, index) => (
+                    <option key={preset.name} value={`factory:${index}`}>{preset.name}</option>
+                  ))}
+                </optgroup>
+                {userPatches.length > 0 && (
+                  <optgroup label="Saved">
+                    {userPatches.map((patch, index) => (
+                      <option key={patch.name} value={`user:${index}`}>{patch.name}</option>
+                    ))}
+                  </optgroup>
+                )}
+              </select>
+              <input
+                className={styles.patchName}
+                value={patchName}
+                onChange={(e) => setPatchName(e.target.value)}
+                maxLength={40}
+                aria-label="Patch name"
+              />
+              <button className={styles.waveButton} onClick={handleSavePatch}>SAVE</button>
+              <button
+                className={styles.waveButton}
+                onClick={handleDeletePatch}
+                disabled={!userPatches.some((p) => p.name === patchName)}
+              >
+                DELETE
+              </button>
+              <button className={styles.waveButton} onClick={() => exportPatchFile(currentPatch)}>EXPORT</button>
+              <button className={styles.waveButton} onClick={() => importInputRef.current?.click()}>IMPORT</button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                className={styles.hiddenInput}
+                onChange={(e) => {
+                  handleImportPatch(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+              <button className={styles.waveButton} onClick={handleSharePatch}>SHARE</button>
+              {patchMessage && <span className={styles.patchMessage}>{patchMessage}</span>}
+            </div>
+
+            {/* Top control panel (inspired by classic Moog layout) */}
+            <div className={styles.topPanel}>
+              {/* Oscillators Section */}
+              <section className={styles.topSection}>
+                <h2 className={styles.topSectionTitle}>OSCILLATOR BANK</h2>
+                <div className={styles.topSectionBody}>
+                  <div className={styles.topGroup}>
+                    <label className={styles.topLabel}>OSC 1</label>
+                    <WaveformSelector value={waveform} onChange={setWaveform} />
+                  </div>
+
+                  <div className={styles.topGroup}>
+                    <label className={styles.topLabel}>OSC 2</label>
+                    <div className={styles.topKnobs}>
+                      <Knob
+                        value={osc2Octave}
+                        onChange={setOsc2Octave}
+                        min={-2}
+                        max={2}
+                        label="OCTAVE"
+                        step={1}
+                      />
+                      <Knob
+                        value={osc2Semitone}
+                        onChange={setOsc2Semitone}
+                        min={-12}
+                        max={12}
+                        label="SEMI"
+                        step={1}
+                        unit="st"
+                      />
+                      <Knob
+                        value={osc2Detune}
+                        onChange={setOsc2Detune}
+                        min={-100}
+                        max={100}
+                        label="DETUNE"
+                        unit="ct"
+                      />
+                    </div>
+                    <WaveformSelector value={osc2Waveform} onChange={setOsc2Waveform} />
+                  </div>
+                </div>
+              </section>
+
+              {/* Mixer Section: how much of each oscillator goes into the filter */}
+              <section className={styles.topSection}>
+                <h2 className={styles.topSectionTitle}>MIXER</h2>
+                <div className={styles.topSectionBody}>
                   <div className={styles.topKnobs}>
                     <Knob
-                      value={osc1Freq}
-                      onChange={setOsc1Freq}
+                      value={osc1Level * 100}
+                      onChange={(v) => setOsc1Level(v / 100)}
+                      min={0}
+                      max={100}
+                      label="OSC 1"
+                      unit="%"
+                    />
+                    <Knob
+                      value={osc2Level * 100}
+                      onChange={(v) => setOsc2Level(v / 100)}
+                      min={0}
+                      max={100}
+                      label="OSC 2"
+                      unit="%"
+                    />
+                  </div>
+                </div>
+              </section>
+
+              {/* Filter Section */}
+              <section className={styles.topSection}>
+                <h2 className={styles.topSectionTitle}>FILTER</h2>
+                <div className={styles.topSectionBody}>
+                  <div className={styles.topKnobs}>
+                    <Knob
+                      value={filterCutoff}
+                      onChange={setFilterCutoff}
                       min={20}
-                      max={2000}
-                      label="FREQ"
+                      max={5000}
+                      label="CUTOFF"
+                      taper="log"
                       unit="Hz"
                     />
+                    <Knob
+                      value={filterResonance}
+                      onChange={setFilterResonance}
+                      min={0}
+                      max={100}
+                      label="RES"
+                      unit="%"
+                    />
+                    <Knob
+                      value={reverb}
+                      onChange={setReverb}
+                      min={0}
+                      max={100}
+                      label="REVERB"
+                      unit="%"
+                    />
+                    <Knob
+                      value={delay}
+                      onChange={setDelay}
+                      min={0}
+                      max={100}
+                      label="DELAY"
+                      unit="%"
+                    />
+                  </div>
+                </div>
+              </section>
+
+              {/* ADSR Envelope (now knobs) */}
+              <section className={styles.topSection}>
+                <h2 className={styles.topSectionTitle}>ENVELOPE</h2>
+                <div className={styles.topSectionBody}>
+                  <div className={styles.topKnobs}>
+                    <Knob
+                      value={attack}
+                      onChange={setAttack}
+                      min={0}
+                      max={2}
+                      label="ATTACK"
+                      unit="s"
+                      taper="exp"
+                    />
+                    <Knob
+                      value={decay}
+                      onChange={setDecay}
+                      min={0}
+                      max={2}
+                      label="DECAY"
+                      unit="s"
+                      taper="exp"
+                    />
+                    <Knob
+                      value={sustain * 100}
+                      onChange={(v) => setSustain(v / 100)}
+                      min={0}
+                      max={100}
+                      label="SUSTAIN"
+                      unit="%"
+                    />
+                    <Knob
+                      value={release}
+                      onChange={setRelease}
+                      min={0}
+                      max={2}
+                      label="RELEASE"
+                      unit="s"
+                      taper="exp"
+                    />
+                  </div>
+                </div>
+              </section>
+            </div>
+
+            {/* Lower panel: output + keyboard + master */}
+            <div className={styles.bottomPanel}>
+              <section className={styles.bottomLeft}>
+                <div className={styles.outputRow}>
+                  <div className={styles.outputBlock}>
+                    <h2 className={styles.bottomTitle}>OUTPUT</h2>
+                    <div className={styles.waveformDisplay}>
+                      <canvas
+                        ref={canvasRef}
+                        width={600}
+                        height={180}
+                        className={styles.canvas}
+                      />
+                    </div>
+                    <div className={styles.meterRow}>
+                      <div className={styles.meter} aria-hidden="true">
+                        <div ref={meterRmsRef} className={styles.meterRms} />
+                        <div ref={meterPeakRef} className={styles.meterPeak} />
+                      </div>
+                      <span className={`${styles.clipLight} ${clipping ? styles.active : ''}`}>CLIP</span>
+                    </div>
+                    <Selector
+                      value={scopeView}
+                      onChange={setScopeView}
+                      options={[
+                        { value: 'scope', label: 'SCOPE' },
+                        { value: 'spectrum', label: 'SPECTRUM' },
+                      ]}
+                    />
+                  </div>
+
+                  <div className={styles.masterBlock}>
+                    <h2 className={styles.bottomTitle}>MASTER</h2>
+                    <div className={styles.masterControls}>
+                      <Knob
+                        value={volume * 100}
+                        onChange={(v) => setVolume(v / 100)}
+                        min={0}
+                        max={100}
+                        label="VOLUME"
+                        unit="%"
+                      />
+                    </div>
                   </div>
-                  <div className={styles.waveformSelector}>
+                </div>
+
+                <div className={styles.voiceBlock}>
+                  <h2 className={styles.bottomTitle}>VOICE</h2>
+                  <Selector
+                    value={voiceMode}
+                    onChange={setVoiceMode}
+                    options={[
+                      { value: 'poly', label: 'POLY' },
+                      { value: 'mono', label: 'MONO' },
+                      { value: 'legato', label: 'LEGATO' },
+                    ]}
+                  />
+                  <div className={styles.topKnobs}>
+                    <Knob
+                      value={polyphony}
+                      onChange={setPolyphony}
+                      min={1}
+                      max={16}
+                      label="VOICES"
+                      step={1}
+                    />
+                    <Knob
+                      value={glide}
+                      onChange={setGlide}
+                      min={0}
+                      max={1}
+                      label="GLIDE"
+                      unit="s"
+                      taper="exp"
+                    />
+                  </div>
+                  <Selector
+                    value={stealMode}
+                    onChange={setStealMode}
+                    options={[
+                      { value: 'oldest', label: 'STEAL OLDEST' },
+                      { value: 'quietest', label: 'STEAL QUIETEST' },
+                    ]}
+                  />
+                </div>
+
+                <div className={styles.midiBlock}>
+                  <h2 className={styles.bottomTitle}>MIDI</h2>
+                  {midiStatus === 'unavailable' ? (
+                    <p className={styles.midiStatus}>Web MIDI isn&apos;t available in this browser</p>
+                  ) : (
+                    <label className={styles.midiRow}>
+                      <span className={styles.midiLabel}>INPUT</span>
+                      <select
+                        className={styles.midiSelect}
+                        value={midiDeviceId}
+                        onChange={(e) => setMidiDeviceId(e.target.value)}
+                      >
+                        <option value={ALL_DEVICES}>All devices ({midiDevices.length})</option>
+                        {midiDevices.map((device) => (
+                          <option key={device.id} value={device.id}>{device.name}</option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                  <label className={styles.midiRow}>
+                    <span className={styles.midiLabel}>MOD WHEEL</span>
+                    <select
+                      className={styles.midiSelect}
+                      value={modWheelTarget}
+                      onChange={(e) => setModWheelTarget(e.target.value)}
+                    >
+                      {MOD_WHEEL_TARGETS.map((target) => (
+                        <option key={target} value={target}>{target}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <div className={styles.midiRow}>
                     <button
-                      className={`${styles.waveButton} ${waveform === 'sine' ? styles.active : ''}`}
-                      onClick={() => setWaveform('sine')}
+                      className={`${styles.waveButton} ${learning ? styles.active : ''}`}
+                      onClick={() => {
+                        setLearning(!learning);
+                        setArmedKnob(null);
+                      }}
                     >
-                      SINE
+                      {learning ? 'DONE' : 'MIDI LEARN'}
                     </button>
                     <button
-                      className={`${styles.waveButton} ${waveform === 'square' ? styles.active : ''}`}
-                      onClick={() => setWaveform('square')}
+                      className={styles.waveButton}
+                      onClick={() => handleBindingsChange({})}
+                      disabled={Object.keys(ccBindings).length === 0}
                     >
-                      SQ
+                      CLEAR
                     </button>
+                    <span className={`${styles.pedalLight} ${sustainPedal ? styles.active : ''}`}>
+                      SUSTAIN
+                    </span>
+                  </div>
+                  {learning && (
+                    <p className={styles.midiStatus}>
+                      {armedKnob
+                        ? `Move a MIDI knob or slider to control ${armedKnob}`
+                        : 'Click a knob, then move a MIDI knob or slider'}
+                    </p>
+                  )}
+                </div>
+
+                <div className={styles.recordBlock}>
+                  <h2 className={styles.bottomTitle}>RECORD</h2>
+                  <div className={styles.midiRow}>
+                    <button
+                      className={`${styles.waveButton} ${recording ? styles.active : ''}`}
+                      onClick={handleRecord}
+                    >
+                      {recording ? 'STOP' : 'REC'}
+                    </button>
+                    <button className={styles.waveButton} onClick={() => handleExportWav(16)} disabled={!take || recording}>
+                      WAV 16
+                    </button>
+                    <button className={styles.waveButton} onClick={() => handleExportWav(24)} disabled={!take || recording}>
+                      WAV 24
+                    </button>
+                    <button className={styles.waveButton} onClick={handleExportMidi} disabled={!take || recording}>
+                      MIDI
+                    </button>
+                  </div>
+                  <p className={styles.midiStatus}>
+                    {recording ? 'Recording… play something' : renderStatus || 'Record a take to export it'}
+                  </p>
+                </div>
+              </section>
+
+              <section className={styles.bottomRight}>
+                <h2 className={styles.bottomTitle}>KEYBOARD</h2>
+                <div className={styles.keyboardControls}>
+                  <div className={styles.midiRow}>
+                    <span className={styles.midiLabel}>OCTAVE</span>
                     <button
-                      className={`${styles.waveButton} ${waveform === 'sawtooth' ? styles.active : ''}`}
-                      onClick={() => setWaveform('sawtooth')}
+                      className={styles.waveButton}
+                      onClick={() => setOctaveShift(octaveShift - 1)}
+                      disabled={octaveShift <= -MAX_OCTAVE_SHIFT}
+                      aria-label="Octave down (Z)"
                     >
-                      SAW
+                      Z −
                     </button>
+                    <span className={styles.octaveValue}>{octaveShift > 0 ? `+${octaveShift}` : octaveShift}</span>
                     <button
-                      className={`${styles.waveButton} ${waveform === 'triangle' ? styles.active : ''}`}
-                      onClick={() => setWaveform('triangle')}
+                      className={styles.waveButton}
+                      onClick={() => setOctaveShift(octaveShift + 1)}
+                      disabled={octaveShift >= MAX_OCTAVE_SHIFT}
+                      aria-label="Octave up (X)"
                     >
-                      TRI
+                      X +
                     </button>
                   </div>
+                  <div className={styles.midiRow}>
+                    <span className={styles.midiLabel}>RANGE</span>
+                    <Selector
+                      value={String(keyboardOctaves)}
+                      onChange={(value) => setKeyboardOctaves(Number(value))}
+                      options={[2, 3, 4, 5].map((octaves) => ({ value: String(octaves), label: `${octaves} OCT` }))}
+                    />
+                  </div>
+                  <div className={styles.midiRow}>
+                    <span className={styles.midiLabel}>TUNING</span>
+                    <select
+                      className={styles.midiSelect}
+                      value={tuning.name}
+                      onChange={(e) => {
+                        const preset = TUNING_PRESETS.find((t) => t.name === e.target.value);
+                        if (preset) handleTuningChange(preset, referencePitch);
+                        setTuningMessage('');
+                      }}
+                      aria-label="Tuning"
+                    >
+                      {TUNING_PRESETS.map((preset) => (
+                        <option key={preset.name} value={preset.name}>{preset.name}</option>
+                      ))}
+                      {!TUNING_PRESETS.some((preset) => preset.name === tuning.name) && (
+                        <option value={tuning.name}>{tuning.name}</option>
+                      )}
+                    </select>
+                    <button className={styles.waveButton} onClick={() => scalaInputRef.current?.click()}>
+                      .SCL
+                    </button>
+                    <input
+                      ref={scalaInputRef}
+                      type="file"
+                      accept=".scl,text/plain"
+                      className={styles.hiddenInput}
+                      onChange={(e) => {
+                        handleImportScala(e.target.files?.[0]);
+                        e.target.value = '';
+                      }}
+                    />
+                  </div>
+                  <Knob
+                    value={referencePitch}
+                    onChange={(value) => handleTuningChange(tuning, value)}
+                    min={MIN_REFERENCE_PITCH}
+                    max={MAX_REFERENCE_PITCH}
+                    step={0.1}
+                    defaultValue={DEFAULT_REFERENCE_PITCH}
+                    label="A4"
+                    unit="Hz"
+                    precision={1}
+                  />
+                </div>
+                {tuningMessage && <p className={styles.midiStatus}>{tuningMessage}</p>}
+                <Keyboard
+                  firstNote={BASE_NOTE + (octaveShift - Math.floor((keyboardOctaves - 1) / 2)) * 12}
+                  octaves={keyboardOctaves}
+                  computerKeysFrom={BASE_NOTE + octaveShift * 12}
+                  onKeyPress={handleKeyPress}
+                  onKeyRelease={handleKeyRelease}
+                  pressedKeys={new Set([...pressedKeys, ...sequencedKeys])}
+                />
+                <p className={styles.keyboardHint}>
+                  Press higher on a key to play softer · slide across the keys to glide · Z / X change octave
+                </p>
+              </section>
+            </div>
+
+            {/* Effects: drive, chorus, delay and reverb on everything the synth plays */}
+            <section className={styles.effectsPanel}>
+              <h2 className={styles.bottomTitle}>EFFECTS</h2>
+              <div className={styles.effectsGrid}>
+                <div className={styles.modBlock}>
+                  <h3 className={styles.modTitle}>DRIVE</h3>
+                  <div className={styles.topKnobs}>
+                    <Knob value={drive} onChange={setDrive} min={0} max={100} label="DRIVE" unit="%" />
+                  </div>
                 </div>
 
-                <div className={styles.topGroup}>
-                  <label className={styles.topLabel}>OSC 2</label>
+                <div className={styles.modBlock}>
+                  <h3 className={styles.modTitle}>CHORUS</h3>
                   <div className={styles.topKnobs}>
+                    <Knob value={chorus} onChange={setChorus} min={0} max={100} label="MIX" id="CHORUS MIX" unit="%" />
                     <Knob
-                      value={osc2Freq}
-                      onChange={setOsc2Freq}
-                      min={20}
-                      max={2000}
-                      label="FREQ"
+                      value={chorusRate}
+                      onChange={setChorusRate}
+                      min={0.1}
+                      max={5}
+                      label="RATE"
+                      id="CHORUS RATE"
                       unit="Hz"
+                      taper="log"
+                    />
+                    <Knob
+                      value={chorusDepth}
+                      onChange={setChorusDepth}
+                      min={0}
+                      max={100}
+                      label="DEPTH"
+                      id="CHORUS DEPTH"
+                      unit="%"
                     />
                   </div>
                 </div>
-              </div>
-            </section>
 
-            {/* Filter Section */}
-            <section className={styles.topSection}>
-              <h2 className={styles.topSectionTitle}>FILTER</h2>
-              <div className={styles.topSectionBody}>
-                <div className={styles.topKnobs}>
-                  <Knob
-                    value={filterCutoff}
-                    onChange={setFilterCutoff}
-                    min={20}
-                    max={5000}
-                    label="CUTOFF"
-                    unit="Hz"
-                  />
-                  <Knob
-                    value={filterResonance}
-                    onChange={setFilterResonance}
-                    min={0}
-                    max={100}
-                    label="RES"
-                    unit="%"
-                  />
-                  <Knob
-                    value={reverb}
-                    onChange={setReverb}
-                    min={0}
-                    max={100}
-                    label="REVERB"
-                    unit="%"
-                  />
-                  <Knob
-                    value={delay}
-                    onChange={setDelay}
-                    min={0}
-                    max={100}
-                    label="DELAY"
-                    unit="%"
-                  />
+                <div className={styles.modBlock}>
+                  <h3 className={styles.modTitle}>DELAY</h3>
+                  <div className={styles.topKnobs}>
+                    {delaySync ? (
+                      <select
+                        className={styles.midiSelect}
+                        value={delayDivision}
+                        onChange={(e) => setDelayDivision(e.target.value as SyncDivision)}
+                        aria-label="Delay sync division"
+                      >
+                        {Object.keys(SYNC_DIVISIONS).map((division) => (
+                          <option key={division} value={division}>{division}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <Knob
+                        value={delayTime}
+                        onChange={setDelayTime}
+                        min={0.01}
+                        max={MAX_DELAY_TIME}
+                        label="TIME"
+                        id="DELAY TIME"
+                        unit="s"
+                        taper="exp"
+                      />
+                    )}
+                    <Knob
+                      value={delayFeedback * 100}
+                      onChange={(v) => setDelayFeedback(v / 100)}
+                      min={0}
+                      max={95}
+                      label="FEEDBACK"
+                      id="DELAY FEEDBACK"
+                      unit="%"
+                    />
+                    <Knob
+                      value={delayTone}
+                      onChange={setDelayTone}
+                      min={200}
+                      max={20000}
+                      label="TONE"
+                      id="DELAY TONE"
+                      taper="log"
+                      unit="Hz"
+                    />
+                  </div>
+                  <div className={styles.midiRow}>
+                    <button
+                      className={`${styles.waveButton} ${delaySync ? styles.active : ''}`}
+                      onClick={() => setDelaySync(!delaySync)}
+                    >
+                      SYNC
+                    </button>
+                    {delaySync && (
+                      <span className={styles.midiLabel}>
+                        {Math.round(delaySeconds(currentPatch.effects, tempo) * 1000)} ms
+                      </span>
+                    )}
+                  </div>
                 </div>
-              </div>
-            </section>
 
-            {/* ADSR Envelope (now knobs) */}
-            <section className={styles.topSection}>
-              <h2 className={styles.topSectionTitle}>ENVELOPE</h2>
-              <div className={styles.topSectionBody}>
-                <div className={styles.topKnobs}>
-                  <Knob
-                    value={attack}
-                    onChange={setAttack}
-                    min={0}
-                    max={2}
-                    label="ATTACK"
-                    unit="s"
-                  />
-                  <Knob
-                    value={decay}
-                    onChange={setDecay}
-                    min={0}
-                    max={2}
-                    label="DECAY"
-                    unit="s"
-                  />
-                  <Knob
-                    value={sustain * 100}
-                    onChange={(v) => setSustain(v / 100)}
-                    min={0}
-                    max={100}
-                    label="SUSTAIN"
-                    unit="%"
-                  />
-                  <Knob
-                    value={release}
-                    onChange={setRelease}
-                    min={0}
-                    max={2}
-                    label="RELEASE"
-                    unit="s"
-                  />
+                <div className={styles.modBlock}>
+                  <h3 className={styles.modTitle}>REVERB</h3>
+                  <div className={styles.topKnobs}>
+                    <Knob
+                      value={reverbSize}
+                      onChange={setReverbSize}
+                      min={0.2}
+                      max={5}
+                      label="SIZE"
+                      id="REVERB SIZE"
+                      unit="s"
+                    />
+                    <Knob
+                      value={reverbDecay}
+                      onChange={setReverbDecay}
+                      min={0}
+                      max={100}
+                      label="DECAY"
+                      id="REVERB DECAY"
+                      unit="%"
+                    />
+                  </div>
+                </div>
+
+                <div className={styles.modBlock}>
+                  <h3 className={styles.modTitle}>LIMITER</h3>
+                  <button
+                    className={`${styles.waveButton} ${limiter ? styles.active : ''}`}
+                    onClick={() => setLimiter(!limiter)}
+                  >
+                    {limiter ? 'ON' : 'OFF'}
+                  </button>
                 </div>
               </div>
             </section>
-          </div>
 
-          {/* Lower panel: output + keyboard + master */}
-          <div className={styles.bottomPanel}>
-            <section className={styles.bottomLeft}>
-              <div className={styles.outputRow}>
-                <div className={styles.outputBlock}>
-                  <h2 className={styles.bottomTitle}>OUTPUT</h2>
-                  <div className={styles.waveformDisplay}>
-                    <canvas
-                      ref={canvasRef}
-                      width={600}
-                      height={180}
-                      className={styles.canvas}
+            <section className={styles.modulationPanel}>
+              <h2 className={styles.bottomTitle}>MODULATION</h2>
+              <div className={styles.modulationGrid}>
+                {lfos.map((lfo, index) => (
+                  <div key={index} className={styles.modBlock}>
+                    <h3 className={styles.modTitle}>LFO {index + 1}</h3>
+                    <Selector
+                      value={lfo.shape}
+                      onChange={(shape) => updateLfo(index, { shape })}
+                      options={LFO_SHAPES.map((shape) => ({ value: shape, label: shape.slice(0, 3).toUpperCase() }))}
                     />
+                    <div className={styles.midiRow}>
+                      {lfo.sync ? (
+                        <select
+                          className={styles.midiSelect}
+                          value={lfo.division}
+                          onChange={(e) => updateLfo(index, { division: e.target.value as SyncDivision })}
+                          aria-label={`LFO ${index + 1} sync division`}
+                        >
+                          {Object.keys(SYNC_DIVISIONS).map((division) => (
+                            <option key={division} value={division}>{division}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <Knob
+                          value={lfo.rate}
+                          onChange={(rate) => updateLfo(index, { rate })}
+                          min={0.05}
+                          max={20}
+                          label="RATE"
+                          id={`LFO ${index + 1} RATE`}
+                          unit="Hz"
+                          taper="log"
+                        />
+                      )}
+                      <button
+                        className={`${styles.waveButton} ${lfo.sync ? styles.active : ''}`}
+                        onClick={() => updateLfo(index, { sync: !lfo.sync })}
+                      >
+                        SYNC
+                      </button>
+                    </div>
                   </div>
-                </div>
+                ))}
 
-                <div className={styles.masterBlock}>
-                  <h2 className={styles.bottomTitle}>MASTER</h2>
-                  <div className={styles.masterControls}>
+                <div className={styles.modBlock}>
+                  <h3 className={styles.modTitle}>FILTER ENV</h3>
+                  <div className={styles.topKnobs}>
+                    <Knob
+                      value={filterEnvAttack}
+                      onChange={setFilterEnvAttack}
+                      min={0}
+                      max={2}
+                      label="ATTACK"
+                      id="FILTER ENV ATTACK"
+                      unit="s"
+                      taper="exp"
+                    />
                     <Knob
-                      value={volume * 100}
-                      onChange={(v) => setVolume(v / 100)}
+                      value={filterEnvDecay}
+                      onChange={setFilterEnvDecay}
                       min={0}
+                      max={2}
+                      label="DECAY"
+                      id="FILTER ENV DECAY"
+                      unit="s"
+                      taper="exp"
+                    />
+                    <Knob
+                      value={filterEnvSustain * 100}
+                      onChange={(v) => setFilterEnvSustain(v / 100)}
+                      min={0}
+                      max={100}
+                      label="SUSTAIN"
+                      id="FILTER ENV SUSTAIN"
+                      unit="%"
+                    />
+                    <Knob
+                      value={filterEnvRelease}
+                      onChange={setFilterEnvRelease}
+                      min={0}
+                      max={2}
+                      label="RELEASE"
+                      id="FILTER ENV RELEASE"
+                      unit="s"
+                      taper="exp"
+                    />
+                    <Knob
+                      value={filterEnvAmount * 100}
+                      onChange={(v) => setFilterEnvAmount(v / 100)}
+                      min={-100}
                       max={100}
-                      label="VOLUME"
+                      label="AMOUNT"
+                      id="FILTER ENV AMOUNT"
                       unit="%"
                     />
                   </div>
                 </div>
+
+                <div className={styles.modBlock}>
+                  <h3 className={styles.modTitle}>MATRIX</h3>
+                  {modRoutes.map((route, index) => (
+                    <div key={index} className={styles.modRoute}>
+                      <select
+                        className={styles.midiSelect}
+                        value={route.source}
+                        onChange={(e) => updateModRoute(index, { source: e.target.value as ModSource })}
+                        aria-label={`Mod ${index + 1} source`}
+                      >
+                        {MOD_SOURCES.map((source) => (
+                          <option key={source.value} value={source.value}>{source.label}</option>
+                        ))}
+                      </select>
+                      <span className={styles.midiLabel}>→</span>
+                      <select
+                        className={styles.midiSelect}
+                        value={route.destination}
+                        onChange={(e) => updateModRoute(index, { destination: e.target.value as ModDestination })}
+                        aria-label={`Mod ${index + 1} destination`}
+                      >
+                        {MOD_DESTINATIONS.map((destination) => (
+                          <option key={destination.value} value={destination.value}>{destination.label}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="range"
+                        className={styles.modAmount}
+                        min={-100}
+                        max={100}
+                        value={Math.round(route.amount * 100)}
+                        onChange={(e) => updateModRoute(index, { amount: Number(e.target.value) / 100 })}
+                        onDoubleClick={() => updateModRoute(index, { amount: 0 })}
+                        aria-label={`Mod ${index + 1} amount`}
+                      />
+                      <span className={styles.modAmountValue}>{Math.round(route.amount * 100)}%</span>
+                    </div>
+                  ))}
+                </div>
               </div>
             </section>
 
-            <section className={styles.bottomRight}>
-              <h2 className={styles.bottomTitle}>KEYBOARD</h2>
-              <Keyboard
-                onKeyPress={handleKeyPress}
-                onKeyRelease={handleKeyRelease}
-                pressedKeys={pressedKeys}
-              />
+            {/* Sequencer: play a 16-step pattern, or arpeggiate the keys you hold */}
+            <section className={styles.sequencerPanel}>
+              <h2 className={styles.bottomTitle}>SEQUENCER</h2>
+              <div className={styles.sequencerControls}>
+                <Selector
+                  value={playMode}
+                  onChange={setPlayMode}
+                  options={[
+                    { value: 'keys', label: 'OFF' },
+                    { value: 'sequencer', label: 'STEP SEQ' },
+                    { value: 'arpeggiator', label: 'ARP' },
+                  ]}
+                />
+                {playMode === 'sequencer' && (
+                  <button
+                    className={`${styles.waveButton} ${sequencerPlaying ? styles.active : ''}`}
+                    onClick={() => setSequencerPlaying(!sequencerPlaying)}
+                  >
+                    {sequencerPlaying ? 'STOP' : 'PLAY'}
+                  </button>
+                )}
+                <Knob
+                  value={tempo}
+                  onChange={setTempo}
+                  min={40}
+                  max={240}
+                  label="TEMPO"
+                  step={1}
+                  unit="bpm"
+                />
+                {playMode === 'arpeggiator' && (
+                  <>
+                    <Selector
+                      value={arpPattern}
+                      onChange={setArpPattern}
+                      options={[
+                        { value: 'up', label: 'UP' },
+                        { value: 'down', label: 'DOWN' },
+                        { value: 'updown', label: 'UP-DN' },
+                        { value: 'random', label: 'RANDOM' },
+                      ]}
+                    />
+                    <Knob
+                      value={arpOctaves}
+                      onChange={setArpOctaves}
+                      min={1}
+                      max={4}
+                      label="OCTAVES"
+                      step={1}
+                    />
+                    <Knob
+                      value={arpGate * 100}
+                      onChange={(v) => setArpGate(v / 100)}
+                      min={5}
+                      max={100}
+                      label="GATE"
+                      unit="%"
+                    />
+                  </>
+                )}
+              </div>
+
+              {playMode === 'arpeggiator' && (
+                <p className={styles.midiStatus}>Hold some keys to arpeggiate them</p>
+              )}
+
+              {playMode === 'sequencer' && (
+                <div className={styles.stepGrid}>
+                  {steps.map((step, index) => (
+                    <div
+                      key={index}
+                      className={`${styles.step} ${currentStep === index ? styles.stepCurrent : ''}`}
+                    >
+                      <button
+                        className={`${styles.stepButton} ${step.active ? styles.active : ''}`}
+                        onClick={() => updateStep(index, { active: !step.active })}
+                        aria-label={`Step ${index + 1} ${step.active ? 'on' : 'off'}`}
+                      >
+                        {index + 1}
+                      </button>
+                      <select
+                        className={styles.stepNote}
+                        value={step.note}
+                        onChange={(e) => updateStep(index, { note: Number(e.target.value) })}
+                        aria-label={`Step ${index + 1} note`}
+                      >
+                        {STEP_NOTES.map((note) => (
+                          <option key={note} value={note}>{midiNoteName(note)}</option>
+                        ))}
+                      </select>
+                      <button
+                        className={styles.stepOption}
+                        onClick={() => updateStep(index, {
+                          gate: GATE_LENGTHS[(GATE_LENGTHS.indexOf(step.gate) + 1) % GATE_LENGTHS.length],
+                        })}
+                        title="Gate length"
+                      >
+                        {Math.round(step.gate * 100)}%
+                      </button>
+                      <button
+                        className={`${styles.stepOption} ${step.accent ? styles.active : ''}`}
+                        onClick={() => updateStep(index, { accent: !step.accent })}
+                        title="Accent"
+                      >
+                        ACC
+                      </button>
+                      <button
+                        className={`${styles.stepOption} ${step.slide ? styles.active : ''}`}
+                        onClick={() => updateStep(index, { slide: !step.slide })}
+                        title="Slide into the next step"
+                      >
+                        SLD
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
             </section>
           </div>
-        </div>
-      </main>
-    </div>
+        </main>
+      </div>
+    </MidiLearnContext.Provider>
   );
 }
 
 // Knob Component
-function Knob({
-  value,
-  onChange,
-  min,
-  max,
-  label,
-  unit = '',
-}: {
-  value: number;
-  onChange: (value: number) => void;
-  min: number;
-  max: number;
-  label: string;
-  unit?: string;
+function Knob({ id, ...props }: KnobProps & {
+  /** Name used for MIDI learn and the mod wheel (defaults to the label) */
+  id?: string;
 }) {
-  const [isDragging, setIsDragging] = useState(false);
-  const [startY, setStartY] = useState(0);
-  const [startValue, setStartValue] = useState(0);
-  const knobRef = useRef<HTMLDivElement>(null);
-
-  const percentage = ((value - min) / (max - min)) * 100;
-  const rotation = (percentage / 100) * 270 - 135; // -135 to 135 degrees
-
-  const handleMouseDown = (e: React.MouseEvent) => {
-    setIsDragging(true);
-    setStartY(e.clientY);
-    setStartValue(value);
-  };
+  const { label, min, max, taper, step, onChange } = props;
+  const learn = useContext(MidiLearnContext);
+  const learnId = id ?? label;
+  const boundCc = learn?.bindings[learnId];
 
+  // Let MIDI controllers turn this knob
+  useEffect(() => {
+    learn?.controls.set(learnId, { min, max, taper, step, onChange });
+  });
   useEffect(() => {
-    const handleMouseMove = (e: MouseEvent) => {
-      if (!isDragging) return;
-      const deltaY = startY - e.clientY;
-      const range = max - min;
-      const change = (deltaY / 100) * range;
-      const newValue = Math.max(min, Math.min(max, startValue + change));
-      onChange(newValue);
-    };
-
-    const handleMouseUp = () => {
-      setIsDragging(false);
-    };
-
-    if (isDragging) {
-      document.addEventListener('mousemove', handleMouseMove);
-      document.addEventListener('mouseup', handleMouseUp);
-    }
-
     return () => {
-      document.removeEventListener('mousemove', handleMouseMove);
-      document.removeEventListener('mouseup', handleMouseUp);
+      learn?.controls.delete(learnId);
     };
-  }, [isDragging, startY, startValue, min, max, onChange]);
+  }, [learn?.controls, learnId]);
+
+  // In MIDI learn mode a click picks the knob instead of turning it
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!learn?.learning) return;
+    e.preventDefault();
+    e.stopPropagation();
+    learn.arm(learnId);
+  };
 
   return (
-    <div className={styles.knob} ref={knobRef}>
-      <div
-        className={styles.knobBody}
-        style={{ transform: `rotate(${rotation}deg)` }}
-        onMouseDown={handleMouseDown}
+    <div className={styles.knobWrapper} onPointerDownCapture={handlePointerDown}>
+      <ControlKnob
+        {...props}
+        className={`${learn?.learning ? styles.knobLearn : ''} ${learn?.armedId === learnId ? styles.knobArmed : ''}`}
       >
-        <div className={styles.knobIndicator}></div>
-      </div>
-      <div className={styles.knobLabel}>{label}</div>
-      <div className={styles.knobValue}>
-        {Math.round(value)}{unit}
-      </div>
+        {boundCc !== undefined && <span className={styles.knobCc}> CC{boundCc}</span>}
+      </ControlKnob>
     </div>
   );
 }
 
+function Selector<T extends string>({
+  value,
+  onChange,
+  options,
+}: {
+  value: T;
+  onChange: (value: T) => void;
+  options: { value: T; label: string }[];
+}) {
+  return (
+    <div className={styles.waveformSelector}>
+      {options.map((option) => (
+        <button
+          key={option.value}
+          className={`${styles.waveButton} ${value === option.value ? styles.active : ''}`}
+          onClick={() => onChange(option.value)}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Waveform Selector Component
+function WaveformSelector({
+  value,
+  onChange,
+}: {
+  value: Waveform;
+  onChange: (waveform: Waveform) => void;
+}) {
+  return (
+    <Selector
+      value={value}
+      onChange={onChange}
+      options={[
+        { value: 'sine', label: 'SINE' },
+        { value: 'square', label: 'SQ' },
+        { value: 'sawtooth', label: 'SAW' },
+        { value: 'triangle', label: 'TRI' },
+      ]}
+    />
+  );
+}
+
 // Keyboard Component
+// Keys come from MIDI note numbers, so it can show any number of octaves.
+// Every finger (or the mouse) is tracked on its own: sliding from key to key
+// moves the note along (glissando), and several fingers play a chord.
+const BLACK_KEY_STEPS = [1, 3, 6, 8, 10];
+// Pressing at the very top of a key plays this soft; at the bottom, full velocity
+const MIN_KEY_VELOCITY = 0.2;
+
 function Keyboard({
+  firstNote,
+  octaves,
+  computerKeysFrom,
   onKeyPress,
   onKeyRelease,
   pressedKeys,
 }: {
-  onKeyPress: (note: string, frequency: number) => void;
-  onKeyRelease: (note: string) => void;
+  /** MIDI note of the leftmost key (a C) */
+  firstNote: number;
+  octaves: number;
+  /** MIDI note the computer keyboard's A plays, for the key labels */
+  computerKeysFrom: number;
+  onKeyPress: (midiNote: number, velocity: number) => void;
+  onKeyRelease: (midiNote: number) => void;
   pressedKeys: Set<string>;
 }) {
-  const notes = [
-    { note: 'C4', freq: 261.63, key: 'A', isSharp: false },
-    { note: 'C#4', freq: 277.18, key: 'W', isSharp: true },
-    { note: 'D4', freq: 293.66, key: 'S', isSharp: false },
-    { note: 'D#4', freq: 311.13, key: 'E', isSharp: true },
-    { note: 'E4', freq: 329.63, key: 'D', isSharp: false },
-    { note: 'F4', freq: 349.23, key: 'F', isSharp: false },
-    { note: 'F#4', freq: 369.99, key: 'T', isSharp: true },
-    { note: 'G4', freq: 392.00, key: 'G', isSharp: false },
-    { note: 'G#4', freq: 415.30, key: 'Y', isSharp: true },
-    { note: 'A4', freq: 440.00, key: 'H', isSharp: false },
-    { note: 'A#4', freq: 466.16, key: 'U', isSharp: true },
-    { note: 'B4', freq: 493.88, key: 'J', isSharp: false },
-    { note: 'C5', freq: 523.25, key: 'K', isSharp: false },
-  ];
+  // Which note each pointer (mouse, pen or finger) is holding down
+  const pointerNotesRef = useRef<Map<number, number>>(new Map());
+
+  const notes = Array.from({ length: octaves * 12 + 1 }, (_, index) => {
+    const midiNote = firstNote + index;
+    const computerKey = COMPUTER_KEYS[midiNote - computerKeysFrom];
+    return {
+      midiNote,
+      name: midiNoteName(midiNote),
+      key: computerKey?.toUpperCase() ?? '',
+      isSharp: BLACK_KEY_STEPS.includes(((midiNote % 12) + 12) % 12),
+    };
+  });
 
   const whiteKeys = notes.filter((n) => !n.isSharp);
-  const blackKeys = notes.filter((n) => n.isSharp);
+  const whiteWidth = 100 / whiteKeys.length;
+  // A black key sits over the line between two white keys
+  const blackKeys = notes
+    .map((n, index) => ({ ...n, left: notes.slice(0, index).filter((m) => !m.isSharp).length * whiteWidth }))
+    .filter((n) => n.isSharp);
+
+  // The key under the pointer, and how hard it's pressed (from how far down the key)
+  const keyAt = (clientX: number, clientY: number) => {
+    const element = document.elementFromPoint(clientX, clientY)?.closest<HTMLElement>('[data-note]');
+    if (!element) return null;
+    const rect = element.getBoundingClientRect();
+    const depth = Math.max(0, Math.min(1, (clientY - rect.top) / rect.height));
+    return {
+      midiNote: Number(element.dataset.note),
+      velocity: MIN_KEY_VELOCITY + depth * (1 - MIN_KEY_VELOCITY),
+    };
+  };
+
+  const release = (pointerId: number) => {
+    const held = pointerNotesRef.current.get(pointerId);
+    if (held === undefined) return;
+    pointerNotesRef.current.delete(pointerId);
+    // Another finger may still be on the same key
+    if (![...pointerNotesRef.current.values()].includes(held)) onKeyRelease(held);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    if (event.button !== 0) return;
+    const hit = keyAt(event.clientX, event.clientY);
+    if (!hit) return;
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pointerNotesRef.current.set(event.pointerId, hit.midiNote);
+    onKeyPress(hit.midiNote, hit.velocity);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const held = pointerNotesRef.current.get(event.pointerId);
+    if (held === undefined) return;
+    const hit = keyAt(event.clientX, event.clientY);
+    if (hit?.midiNote === held) return;
+    release(event.pointerId);
+    if (!hit) return;
+    pointerNotesRef.current.set(event.pointerId, hit.midiNote);
+    onKeyPress(hit.midiNote, hit.velocity);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => release(event.pointerId);
 
   return (
-    <div className={styles.keyboard}>
+    <div
+      className={styles.keyboard}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
       <div className={styles.whiteKeys}>
         {whiteKeys.map((key) => (
           <button
-            key={key.note}
-            className={`${styles.whiteKey} ${pressedKeys.has(key.note) ? styles.pressed : ''}`}
-            onMouseDown={() => onKeyPress(key.note, key.freq)}
-            onMouseUp={() => onKeyRelease(key.note)}
-            onMouseLeave={() => onKeyRelease(key.note)}
+            key={key.name}
+            type="button"
+            tabIndex={-1}
+            data-note={key.midiNote}
+            aria-label={key.name}
+            className={`${styles.whiteKey} ${pressedKeys.has(key.name) ? styles.pressed : ''}`}
           >
             <span className={styles.keyLabel}>{key.key}</span>
-            <span className={styles.keyNote}>{key.note}</span>
+            {(octaves === MIN_KEYBOARD_OCTAVES || key.name.startsWith('C')) && (
+              <span className={styles.keyNote}>{key.name}</span>
+            )}
           </button>
         ))}
       </div>
       <div className={styles.blackKeys}>
         {blackKeys.map((key) => (
           <button
-            key={key.note}
-            className={`${styles.blackKey} ${pressedKeys.has(key.note) ? styles.pressed : ''}`}
-            onMouseDown={() => onKeyPress(key.note, key.freq)}
-            onMouseUp={() => onKeyRelease(key.note)}
-            onMouseLeave={() => onKeyRelease(key.note)}
+            key={key.name}
+            type="button"
+            tabIndex={-1}
+            data-note={key.midiNote}
+            aria-label={key.name}
+            className={`${styles.blackKey} ${pressedKeys.has(key.name) ? styles.pressed : ''}`}
+            style={{ left: `${key.left - whiteWidth * 0.3}%`, width: `${whiteWidth * 0.6}%` }}
           >
             <span className={styles.keyLabel}>{key.key}</span>
-            <span className={styles.keyNote}>{key.note}</span>
+            {octaves === MIN_KEYBOARD_OCTAVES && <span className={styles.keyNote}>{key.name}</span>}
           </button>
         ))}
       </div>
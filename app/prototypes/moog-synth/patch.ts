@@ -0,0 +1,359 @@
+// A patch is every setting that shapes the synth's sound, saved as plain JSON.
+//
+// Patches carry a `version`. When the synth gains new settings, bump
+// PATCH_VERSION and add a migration that upgrades the previous version, so
+// patches saved in localStorage, exported files and shared links keep working.
+
+import { downloadBlob } from '../../lib/download';
+import type { Waveform, VoiceParams } from './voice';
+import type { VoiceMode, StealMode } from './voice-allocator';
+import { EffectsSettings, DEFAULT_EFFECTS, MAX_DELAY_TIME } from './effects';
+import {
+  LfoSettings,
+  ModRoute,
+  ModSource,
+  ModDestination,
+  LfoShape,
+  SyncDivision,
+  DEFAULT_LFOS,
+  DEFAULT_MOD_ROUTES,
+  LFO_SHAPES,
+  SYNC_DIVISIONS,
+  MOD_SOURCES,
+  MOD_DESTINATIONS,
+} from './modulation';
+
+export const PATCH_VERSION = 4;
+
+export interface Patch {
+  version: typeof PATCH_VERSION;
+  name: string;
+  osc1: {
+    waveform: Waveform;
+    level: number;
+  };
+  osc2: {
+    waveform: Waveform;
+    octave: number;
+    semitone: number;
+    detune: number;
+    level: number;
+  };
+  filter: {
+    cutoff: number;
+    resonance: number;
+  };
+  effects: EffectsSettings;
+  envelope: {
+    attack: number;
+    decay: number;
+    sustain: number;
+    release: number;
+  };
+  filterEnvelope: {
+    attack: number;
+    decay: number;
+    sustain: number;
+    release: number;
+    /** -1..1 */
+    amount: number;
+  };
+  lfos: LfoSettings[];
+  modMatrix: ModRoute[];
+  voice: {
+    mode: VoiceMode;
+    polyphony: number;
+    stealMode: StealMode;
+    glide: number;
+  };
+  volume: number;
+}
+
+export const DEFAULT_PATCH: Patch = {
+  version: PATCH_VERSION,
+  name: 'Init',
+  osc1: { waveform: 'sawtooth', level: 0.8 },
+  osc2: { waveform: 'square', octave: -1, semitone: 0, detune: 7, level: 0.5 },
+  filter: { cutoff: 1000, resonance: 0 },
+  effects: DEFAULT_EFFECTS,
+  envelope: { attack: 0.1, decay: 0.3, sustain: 0.7, release: 0.5 },
+  filterEnvelope: { attack: 0.01, decay: 0.4, sustain: 0.3, release: 0.5, amount: 0 },
+  lfos: DEFAULT_LFOS,
+  modMatrix: DEFAULT_MOD_ROUTES,
+  voice: { mode: 'poly', polyphony: 8, stealMode: 'oldest', glide: 0 },
+  volume: 0.7,
+};
+
+/** The settings a single voice needs out of a patch */
+export const patchToVoiceParams = (patch: Patch): VoiceParams => ({
+  waveform: patch.osc1.waveform,
+  osc1Level: patch.osc1.level,
+  osc2Waveform: patch.osc2.waveform,
+  osc2Octave: patch.osc2.octave,
+  osc2Semitone: patch.osc2.semitone,
+  osc2Detune: patch.osc2.detune,
+  osc2Level: patch.osc2.level,
+  filterCutoff: patch.filter.cutoff,
+  filterResonance: patch.filter.resonance,
+  attack: patch.envelope.attack,
+  decay: patch.envelope.decay,
+  sustain: patch.envelope.sustain,
+  release: patch.envelope.release,
+  filterEnvAttack: patch.filterEnvelope.attack,
+  filterEnvDecay: patch.filterEnvelope.decay,
+  filterEnvSustain: patch.filterEnvelope.sustain,
+  filterEnvRelease: patch.filterEnvelope.release,
+  filterEnvAmount: patch.filterEnvelope.amount,
+  modRoutes: patch.modMatrix,
+  volume: patch.volume,
+});
+
+// Each migration upgrades a patch from version N to N + 1.
+// e.g. when PATCH_VERSION becomes 5, add: 4: (patch) => ({ ...patch, version: 5, newSetting: ... })
+type RawPatch = Record<string, unknown> & { version: number };
+const migrations: Record<number, (patch: RawPatch) => RawPatch> = {
+  // Version 2 added the modulation section. Older patches had none, so it starts switched off.
+  1: (patch) => ({
+    ...patch,
+    version: 2,
+    filterEnvelope: DEFAULT_PATCH.filterEnvelope,
+    lfos: DEFAULT_LFOS,
+    modMatrix: DEFAULT_MOD_ROUTES,
+  }),
+  // Version 3 added the full effects bus. The delay feedback used to follow the
+  // delay amount (up to 40%), so work it out the same way to keep the old sound.
+  2: (patch) => {
+    const effects = isObject(patch.effects) ? patch.effects : {};
+    const delay = typeof effects.delay === 'number' ? effects.delay : 0;
+    return {
+      ...patch,
+      version: 3,
+      effects: { ...DEFAULT_EFFECTS, ...effects, delayFeedback: (delay / 100) * 0.4, delayTone: 20000 },
+    };
+  },
+  // Version 4 dropped OSC 1's frequency: the keys have always set the pitch, so it did nothing
+  3: (patch) => {
+    const osc1 = isObject(patch.osc1) ? { ...patch.osc1 } : {};
+    delete osc1.frequency;
+    return { ...patch, version: 4, osc1 };
+  },
+};
+
+const WAVEFORMS: Waveform[] = ['sine', 'square', 'sawtooth', 'triangle'];
+const VOICE_MODES: VoiceMode[] = ['poly', 'mono', 'legato'];
+const STEAL_MODES: StealMode[] = ['oldest', 'quietest'];
+const DIVISIONS = Object.keys(SYNC_DIVISIONS) as SyncDivision[];
+const SOURCES = MOD_SOURCES.map((source) => source.value);
+const DESTINATIONS = MOD_DESTINATIONS.map((destination) => destination.value);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Reads a number, falling back to the default when it is missing or out of range
+const readNumber = (value: unknown, fallback: number, min: number, max: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const readOption = <T extends string>(value: unknown, options: T[], fallback: T) =>
+  options.includes(value as T) ? (value as T) : fallback;
+
+const readSection = (patch: Record<string, unknown>, key: string) =>
+  isObject(patch[key]) ? (patch[key] as Record<string, unknown>) : {};
+
+// Reads a fixed-length list, using the default for each missing or broken item
+const readList = <T>(value: unknown, defaults: T[], read: (item: Record<string, unknown>, fallback: T) => T) =>
+  defaults.map((fallback, index) => {
+    const item = Array.isArray(value) ? value[index] : undefined;
+    return isObject(item) ? read(item, fallback) : fallback;
+  });
+
+/**
+ * Turns anything (parsed JSON, an old saved patch...) into a valid Patch.
+ * Old versions are migrated; missing or broken settings get their default.
+ * Throws when the data isn't a patch at all, or is from a newer version.
+ */
+export function parsePatch(data: unknown): Patch {
+  if (!isObject(data) || typeof data.version !== 'number') {
+    throw new Error("This file isn't a synth patch");
+  }
+  if (data.version > PATCH_VERSION) {
+    throw new Error('This patch was made with a newer version of the synth');
+  }
+
+  let raw = data as RawPatch;
+  while (raw.version < PATCH_VERSION) {
+    const migrate = migrations[raw.version];
+    if (!migrate) throw new Error(`Can't upgrade patches from version ${raw.version}`);
+    raw = migrate(raw);
+  }
+
+  const d = DEFAULT_PATCH;
+  const osc1 = readSection(raw, 'osc1');
+  const osc2 = readSection(raw, 'osc2');
+  const filter = readSection(raw, 'filter');
+  const effects = readSection(raw, 'effects');
+  const envelope = readSection(raw, 'envelope');
+  const filterEnvelope = readSection(raw, 'filterEnvelope');
+  const voice = readSection(raw, 'voice');
+
+  return {
+    version: PATCH_VERSION,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim().slice(0, 40) : d.name,
+    osc1: {
+      waveform: readOption(osc1.waveform, WAVEFORMS, d.osc1.waveform),
+      level: readNumber(osc1.level, d.osc1.level, 0, 1),
+    },
+    osc2: {
+      waveform: readOption(osc2.waveform, WAVEFORMS, d.osc2.waveform),
+      octave: Math.round(readNumber(osc2.octave, d.osc2.octave, -2, 2)),
+      semitone: Math.round(readNumber(osc2.semitone, d.osc2.semitone, -12, 12)),
+      detune: readNumber(osc2.detune, d.osc2.detune, -100, 100),
+      level: readNumber(osc2.level, d.osc2.level, 0, 1),
+    },
+    filter: {
+      cutoff: readNumber(filter.cutoff, d.filter.cutoff, 20, 5000),
+      resonance: readNumber(filter.resonance, d.filter.resonance, 0, 100),
+    },
+    effects: {
+      reverb: readNumber(effects.reverb, d.effects.reverb, 0, 100),
+      reverbSize: readNumber(effects.reverbSize, d.effects.reverbSize, 0.2, 5),
+      reverbDecay: readNumber(effects.reverbDecay, d.effects.reverbDecay, 0, 100),
+      delay: readNumber(effects.delay, d.effects.delay, 0, 100),
+      delayTime: readNumber(effects.delayTime, d.effects.delayTime, 0.01, MAX_DELAY_TIME),
+      delaySync: typeof effects.delaySync === 'boolean' ? effects.delaySync : d.effects.delaySync,
+      delayDivision: readOption(effects.delayDivision, DIVISIONS, d.effects.delayDivision),
+      delayFeedback: readNumber(effects.delayFeedback, d.effects.delayFeedback, 0, 0.95),
+      delayTone: readNumber(effects.delayTone, d.effects.delayTone, 200, 20000),
+      chorus: readNumber(effects.chorus, d.effects.chorus, 0, 100),
+      chorusRate: readNumber(effects.chorusRate, d.effects.chorusRate, 0.1, 5),
+      chorusDepth: readNumber(effects.chorusDepth, d.effects.chorusDepth, 0, 100),
+      drive: readNumber(effects.drive, d.effects.drive, 0, 100),
+      limiter: typeof effects.limiter === 'boolean' ? effects.limiter : d.effects.limiter,
+    },
+    envelope: {
+      attack: readNumber(envelope.attack, d.envelope.attack, 0, 2),
+      decay: readNumber(envelope.decay, d.envelope.decay, 0, 2),
+      sustain: readNumber(envelope.sustain, d.envelope.sustain, 0, 1),
+      release: readNumber(envelope.release, d.envelope.release, 0, 2),
+    },
+    filterEnvelope: {
+      attack: readNumber(filterEnvelope.attack, d.filterEnvelope.attack, 0, 2),
+      decay: readNumber(filterEnvelope.decay, d.filterEnvelope.decay, 0, 2),
+      sustain: readNumber(filterEnvelope.sustain, d.filterEnvelope.sustain, 0, 1),
+      release: readNumber(filterEnvelope.release, d.filterEnvelope.release, 0, 2),
+      amount: readNumber(filterEnvelope.amount, d.filterEnvelope.amount, -1, 1),
+    },
+    lfos: readList(raw.lfos, d.lfos, (lfo, fallback) => ({
+      shape: readOption<LfoShape>(lfo.shape, LFO_SHAPES, fallback.shape),
+      rate: readNumber(lfo.rate, fallback.rate, 0.05, 20),
+      sync: typeof lfo.sync === 'boolean' ? lfo.sync : fallback.sync,
+      division: readOption(lfo.division, DIVISIONS, fallback.division),
+    })),
+    modMatrix: readList(raw.modMatrix, d.modMatrix, (route, fallback) => ({
+      source: readOption<ModSource>(route.source, SOURCES, fallback.source),
+      destination: readOption<ModDestination>(route.destination, DESTINATIONS, fallback.destination),
+      amount: readNumber(route.amount, fallback.amount, -1, 1),
+    })),
+    voice: {
+      mode: readOption(voice.mode, VOICE_MODES, d.voice.mode),
+      polyphony: Math.round(readNumber(voice.polyphony, d.voice.polyphony, 1, 16)),
+      stealMode: readOption(voice.stealMode, STEAL_MODES, d.voice.stealMode),
+      glide: readNumber(voice.glide, d.voice.glide, 0, 1),
+    },
+    volume: readNumber(raw.volume, d.volume, 0, 1),
+  };
+}
+
+// ----- localStorage -----
+
+const CURRENT_PATCH_KEY = 'moog-synth:patch';
+const USER_PATCHES_KEY = 'moog-synth:user-patches';
+
+/** The patch that was on the synth last time, or null */
+export function loadCurrentPatch(): Patch | null {
+  try {
+    const saved = localStorage.getItem(CURRENT_PATCH_KEY);
+    return saved ? parsePatch(JSON.parse(saved)) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveCurrentPatch(patch: Patch) {
+  try {
+    localStorage.setItem(CURRENT_PATCH_KEY, JSON.stringify(patch));
+  } catch {
+    // Storage can be blocked (private browsing) or full; the synth keeps playing
+  }
+}
+
+/** Patches the user saved, skipping any that can no longer be read */
+export function loadUserPatches(): Patch[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(USER_PATCHES_KEY) ?? '[]');
+    if (!Array.isArray(saved)) return [];
+    return saved.flatMap((item) => {
+      try {
+        return [parsePatch(item)];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function saveUserPatches(patches: Patch[]) {
+  try {
+    localStorage.setItem(USER_PATCHES_KEY, JSON.stringify(patches));
+  } catch {
+    // Blocked or full storage: the saved patches last until the page reloads
+  }
+}
+
+// ----- Files and links -----
+
+/** A patch name turned into something safe to use as a file name */
+export const patchFileName = (patch: Patch) =>
+  patch.name.replace(/[^\w-]+/g, '-').toLowerCase() || 'patch';
+
+/** Downloads the patch as a .json file */
+export function exportPatchFile(patch: Patch) {
+  const blob = new Blob([JSON.stringify(patch, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `${patchFileName(patch)}.json`);
+}
+
+/** Reads a patch from a .json file the user picked */
+export async function importPatchFile(file: File): Promise<Patch> {
+  const text = await file.text();
+  try {
+    return parsePatch(JSON.parse(text));
+  } catch (error) {
+    if (error instanceof SyntaxError) throw new Error("This file isn't valid JSON");
+    throw error;
+  }
+}
+
+/** The query string parameter that holds a shared patch */
+export const PATCH_URL_PARAM = 'patch';
+
+// base64url, so the patch survives being pasted into a URL
+export function encodePatch(patch: Patch) {
+  const bytes = new TextEncoder().encode(JSON.stringify(patch));
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function decodePatch(encoded: string): Patch {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return parsePatch(JSON.parse(new TextDecoder().decode(bytes)));
+}
+
+/** A link to this page that loads the patch when opened */
+export function patchShareUrl(patch: Patch) {
+  const url = new URL(window.location.href);
+  url.searchParams.set(PATCH_URL_PARAM, encodePatch(patch));
+  return url.toString();
+}
@@ -0,0 +1,86 @@
+// Factory presets that ship with the synth. They can't be deleted or
+// overwritten; saving over one stores a user copy instead.
+
+import { DEFAULT_PATCH, Patch } from './patch';
+
+export const FACTORY_PRESETS: Patch[] = [
+  {
+    ...DEFAULT_PATCH,
+    name: 'Fat Bass',
+    osc1: { waveform: 'sawtooth', level: 0.9 },
+    osc2: { waveform: 'square', octave: -1, semitone: 0, detune: -6, level: 0.7 },
+    filter: { cutoff: 420, resonance: 35 },
+    effects: { ...DEFAULT_PATCH.effects, drive: 35 },
+    envelope: { attack: 0.005, decay: 0.25, sustain: 0.6, release: 0.12 },
+    filterEnvelope: { attack: 0.005, decay: 0.18, sustain: 0.1, release: 0.1, amount: 0.45 },
+    voice: { mode: 'mono', polyphony: 1, stealMode: 'oldest', glide: 0.04 },
+    volume: 0.8,
+  },
+  {
+    ...DEFAULT_PATCH,
+    name: 'Solo Lead',
+    osc1: { waveform: 'sawtooth', level: 0.8 },
+    osc2: { waveform: 'sawtooth', octave: 0, semitone: 7, detune: 12, level: 0.45 },
+    filter: { cutoff: 2600, resonance: 45 },
+    effects: {
+      ...DEFAULT_PATCH.effects,
+      reverb: 20,
+      delay: 30,
+      delaySync: true,
+      delayDivision: '1/8',
+      delayFeedback: 0.35,
+      delayTone: 3500,
+    },
+    envelope: { attack: 0.01, decay: 0.2, sustain: 0.8, release: 0.25 },
+    // A touch of vibrato from LFO 1, and playing harder opens the filter
+    modMatrix: [
+      { source: 'lfo1', destination: 'pitch', amount: 0.01 },
+      { source: 'lfo2', destination: 'cutoff', amount: 0 },
+      { source: 'velocity', destination: 'cutoff', amount: 0.2 },
+      { source: 'modWheel', destination: 'pitch', amount: 0 },
+    ],
+    voice: { mode: 'legato', polyphony: 1, stealMode: 'oldest', glide: 0.12 },
+    volume: 0.65,
+  },
+  {
+    ...DEFAULT_PATCH,
+    name: 'Warm Pad',
+    osc1: { waveform: 'triangle', level: 0.7 },
+    osc2: { waveform: 'sawtooth', octave: 0, semitone: 0, detune: 18, level: 0.6 },
+    filter: { cutoff: 1400, resonance: 10 },
+    effects: {
+      ...DEFAULT_PATCH.effects,
+      reverb: 70,
+      reverbSize: 4,
+      reverbDecay: 95,
+      delay: 15,
+      chorus: 60,
+    },
+    envelope: { attack: 1.2, decay: 0.8, sustain: 0.85, release: 1.8 },
+    // A slow LFO opens and closes the filter and drifts the sound across the stereo field
+    lfos: [
+      { shape: 'sine', rate: 0.3, sync: false, division: '1/1' },
+      { shape: 'triangle', rate: 0.12, sync: false, division: '1/1' },
+    ],
+    modMatrix: [
+      { source: 'lfo1', destination: 'pan', amount: 0.4 },
+      { source: 'lfo2', destination: 'cutoff', amount: 0.25 },
+      { source: 'velocity', destination: 'cutoff', amount: 0 },
+      { source: 'modWheel', destination: 'cutoff', amount: 0.5 },
+    ],
+    voice: { mode: 'poly', polyphony: 8, stealMode: 'quietest', glide: 0 },
+    volume: 0.6,
+  },
+  {
+    ...DEFAULT_PATCH,
+    name: 'Glass Pluck',
+    osc1: { waveform: 'square', level: 0.8 },
+    osc2: { waveform: 'sine', octave: 1, semitone: 0, detune: 3, level: 0.5 },
+    filter: { cutoff: 3200, resonance: 20 },
+    effects: { ...DEFAULT_PATCH.effects, reverb: 35, delay: 40, delayTime: 0.375, delayFeedback: 0.45 },
+    envelope: { attack: 0.002, decay: 0.35, sustain: 0, release: 0.3 },
+    filterEnvelope: { attack: 0.002, decay: 0.3, sustain: 0, release: 0.3, amount: 0.35 },
+    voice: { mode: 'poly', polyphony: 12, stealMode: 'oldest', glide: 0 },
+    volume: 0.7,
+  },
+];
@@ -0,0 +1,217 @@
+// Recording takes, and turning them into audio or MIDI files.
+//
+// A take is just the notes that were played and when, plus the patch they were
+// played with. Rendering replays it through an OfflineAudioContext, which runs
+// the same VoiceAllocator and effects as the live synth but as fast as the CPU
+// allows, with no speakers involved. The result can be saved as a WAV file, or
+// the notes themselves saved as a standard MIDI file.
+
+import { VoiceAllocator } from './voice-allocator';
+import { createEffectsChain } from './effects';
+import { Patch, patchToVoiceParams } from './patch';
+import { noteNameToMidi } from './midi';
+
+export interface RecordedEvent {
+  type: 'on' | 'off';
+  /** Seconds from the start of the take */
+  time: number;
+  /** Note name, e.g. 'C4' */
+  note: string;
+  frequency: number;
+  /** 0..1, only used by note on */
+  velocity: number;
+}
+
+export interface Take {
+  events: RecordedEvent[];
+  /** Seconds from pressing record to pressing stop */
+  duration: number;
+  /** The sound the take was played with */
+  patch: Patch;
+  /** Beats per minute, written into the MIDI file */
+  tempo: number;
+}
+
+export type BitDepth = 16 | 24;
+
+export interface RenderOptions {
+  sampleRate?: number;
+  /** Extra seconds after the take so releases, reverb and delay can ring out */
+  tail?: number;
+}
+
+/**
+ * Closes any note still held when recording stopped, and sorts the events.
+ * At the same time, note offs come first so a repeated note retriggers cleanly.
+ */
+export function finishTake(events: RecordedEvent[], duration: number, patch: Patch, tempo: number): Take {
+  const held = new Map<string, RecordedEvent>();
+  const sorted = events
+    .map((event) => ({ ...event, time: Math.min(duration, Math.max(0, event.time)) }))
+    .sort((a, b) => a.time - b.time || (a.type === 'off' ? -1 : 1) - (b.type === 'off' ? -1 : 1));
+
+  sorted.forEach((event) => {
+    if (event.type === 'on') held.set(event.note, event);
+    else held.delete(event.note);
+  });
+  held.forEach((event) => sorted.push({ ...event, type: 'off', time: duration, velocity: 0 }));
+
+  return { events: sorted, duration, patch, tempo };
+}
+
+/** Plays the take into an OfflineAudioContext and returns the stereo audio */
+export async function renderTake(take: Take, { sampleRate = 44100, tail = 2 }: RenderOptions = {}) {
+  const length = Math.max(1, Math.ceil((take.duration + tail) * sampleRate));
+  const context = new OfflineAudioContext(2, length, sampleRate);
+
+  const allocator = new VoiceAllocator(context, patchToVoiceParams(take.patch), take.patch.voice);
+  allocator.setLfos(take.patch.lfos, take.tempo, 0);
+  const effects = createEffectsChain(context, allocator.output, context.destination);
+  effects.update(take.patch.effects, take.tempo);
+
+  take.events.forEach((event) => {
+    if (event.type === 'on') {
+      allocator.noteOn(event.note, event.frequency, event.velocity, event.time);
+    } else {
+      allocator.noteOff(event.note, event.time);
+    }
+  });
+
+  return context.startRendering();
+}
+
+/**
+ * Loudest sample and average loudness (RMS) of a render, both 0..1.
+ * A render that came out silent has a peak of 0.
+ */
+export function analyzeRender(buffer: AudioBuffer) {
+  let peak = 0;
+  let sumOfSquares = 0;
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      peak = Math.max(peak, Math.abs(data[i]));
+      sumOfSquares += data[i] * data[i];
+    }
+  }
+  const samples = buffer.length * buffer.numberOfChannels;
+  return {
+    duration: buffer.duration,
+    peak,
+    rms: samples > 0 ? Math.sqrt(sumOfSquares / samples) : 0,
+  };
+}
+
+// ----- WAV -----
+
+/** Audio → a PCM .wav file (16 or 24 bits per sample) */
+export function encodeWav(buffer: AudioBuffer, bitDepth: BitDepth = 16): Blob {
+  const channels = buffer.numberOfChannels;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = channels * bytesPerSample;
+  const dataSize = buffer.length * blockAlign;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  // The 44 byte header: what's in the file and how it's laid out
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true); // size of this chunk
+  view.setUint16(20, 1, true); // 1 = plain PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * blockAlign, true); // bytes per second
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeText(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  // Samples are interleaved: left, right, left, right...
+  const channelData = Array.from({ length: channels }, (_, channel) => buffer.getChannelData(channel));
+  const maxValue = 2 ** (bitDepth - 1) - 1;
+  let offset = 44;
+  for (let i = 0; i < buffer.length; i++) {
+    for (let channel = 0; channel < channels; channel++) {
+      const sample = Math.max(-1, Math.min(1, channelData[channel][i]));
+      const value = Math.round(sample * maxValue);
+      if (bitDepth === 16) {
+        view.setInt16(offset, value, true);
+      } else {
+        // There is no setInt24, so write the three bytes one at a time (little-endian)
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([view.buffer], { type: 'audio/wav' });
+}
+
+// ----- Standard MIDI File -----
+
+// Ticks per quarter note; plenty of resolution for played-in timing
+const TICKS_PER_BEAT = 480;
+
+// MIDI files store times as "variable length quantities": 7 bits per byte,
+// with the top bit set on every byte except the last
+const variableLength = (value: number) => {
+  const bytes = [value & 0x7f];
+  let rest = value >> 7;
+  while (rest > 0) {
+    bytes.unshift((rest & 0x7f) | 0x80);
+    rest >>= 7;
+  }
+  return bytes;
+};
+
+const uint32 = (value: number) => [(value >> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+
+/** The notes of a take as a type 0 (single track) .mid file */
+export function encodeMidiFile(take: Take): Blob {
+  const secondsToTicks = (seconds: number) => Math.round((seconds * take.tempo * TICKS_PER_BEAT) / 60);
+  const microsecondsPerBeat = Math.round(60_000_000 / take.tempo);
+
+  // Tempo meta event first, at time 0
+  const track: number[] = [
+    0x00, 0xff, 0x51, 0x03,
+    (microsecondsPerBeat >> 16) & 0xff, (microsecondsPerBeat >> 8) & 0xff, microsecondsPerBeat & 0xff,
+  ];
+
+  let lastTick = 0;
+  take.events.forEach((event) => {
+    const note = noteNameToMidi(event.note);
+    if (note === null || note < 0 || note > 127) return;
+
+    const tick = secondsToTicks(event.time);
+    track.push(...variableLength(tick - lastTick));
+    lastTick = tick;
+
+    if (event.type === 'on') {
+      const velocity = Math.max(1, Math.min(127, Math.round(event.velocity * 127)));
+      track.push(0x90, note, velocity);
+    } else {
+      track.push(0x80, note, 0);
+    }
+  });
+
+  // End of track, when the take ends
+  track.push(...variableLength(Math.max(0, secondsToTicks(take.duration) - lastTick)), 0xff, 0x2f, 0x00);
+
+  const header = [
+    ...Array.from('MThd', (char) => char.charCodeAt(0)),
+    ...uint32(6),
+    0x00, 0x00, // format 0
+    0x00, 0x01, // one track
+    (TICKS_PER_BEAT >> 8) & 0xff, TICKS_PER_BEAT & 0xff,
+  ];
+  const trackHeader = [...Array.from('MTrk', (char) => char.charCodeAt(0)), ...uint32(track.length)];
+
+  return new Blob([new Uint8Array([...header, ...trackHeader, ...track])], { type: 'audio/midi' });
+}
@@ -0,0 +1,135 @@
+// Drawing the synth's real output: an oscilloscope, a spectrum and a level meter.
+//
+// An AnalyserNode sits on the master bus and lets us peek at the audio without
+// changing it. Every animation frame we copy out its latest samples (for the
+// scope and meter) or its FFT (for the spectrum) and draw them on a canvas.
+
+export type ScopeView = 'scope' | 'spectrum';
+
+// 2048 samples is about 46 ms at 44.1 kHz: enough for a couple of cycles of a low bass note
+const FFT_SIZE = 2048;
+
+// Spectrum range, in dB and Hz
+const MIN_DB = -100;
+const MAX_DB = -10;
+const MIN_FREQUENCY = 20;
+const MAX_FREQUENCY = 20000;
+
+/** Level meter range: anything below this shows as an empty meter */
+export const METER_FLOOR_DB = -60;
+
+/** A sample this loud (or louder) is clipping */
+export const CLIP_LEVEL = 0.999;
+
+/** Taps `input` with an analyser. The analyser has no output to connect; it only listens. */
+export function createAnalyser(context: BaseAudioContext, input: AudioNode) {
+  const analyser = context.createAnalyser();
+  analyser.fftSize = FFT_SIZE;
+  analyser.minDecibels = MIN_DB;
+  analyser.maxDecibels = MAX_DB;
+  analyser.smoothingTimeConstant = 0.75;
+  input.connect(analyser);
+  return analyser;
+}
+
+/** 0..1 → decibels (0 dB = full scale) */
+export const toDecibels = (level: number) => (level > 0 ? 20 * Math.log10(level) : -Infinity);
+
+/** Loudest sample and average loudness (RMS), both 0..1 */
+export function measureLevel(samples: Float32Array) {
+  let peak = 0;
+  let sumOfSquares = 0;
+  for (let i = 0; i < samples.length; i++) {
+    peak = Math.max(peak, Math.abs(samples[i]));
+    sumOfSquares += samples[i] * samples[i];
+  }
+  return { peak, rms: Math.sqrt(sumOfSquares / Math.max(1, samples.length)) };
+}
+
+/**
+ * Where the wave crosses zero going up, searching the first `searchLength` samples.
+ * Starting the drawing there every frame makes a steady note stand still on
+ * the scope instead of scrolling, like the trigger on a real oscilloscope.
+ */
+export function findTrigger(samples: Float32Array, searchLength: number) {
+  for (let i = 1; i < searchLength; i++) {
+    if (samples[i - 1] < 0 && samples[i] >= 0) return i;
+  }
+  return 0;
+}
+
+function drawGrid(ctx: CanvasRenderingContext2D, width: number, height: number) {
+  ctx.fillStyle = '#1a1a1a';
+  ctx.fillRect(0, 0, width, height);
+  ctx.strokeStyle = '#333';
+  ctx.lineWidth = 1;
+  for (let i = 0; i <= 10; i++) {
+    const y = (height / 10) * i;
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(width, y);
+    ctx.stroke();
+  }
+}
+
+/** Draws `samples` as a triggered oscilloscope trace */
+export function drawScope(ctx: CanvasRenderingContext2D, width: number, height: number, samples: Float32Array) {
+  drawGrid(ctx, width, height);
+
+  // Show half the buffer, starting from a trigger point in the other half
+  const visible = Math.floor(samples.length / 2);
+  const start = findTrigger(samples, samples.length - visible);
+
+  ctx.strokeStyle = '#00ff88';
+  ctx.lineWidth = 2;
+  ctx.lineJoin = 'round';
+  ctx.beginPath();
+  for (let i = 0; i < visible; i++) {
+    const x = (i / (visible - 1)) * width;
+    const y = height / 2 - samples[start + i] * (height / 2) * 0.9;
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  }
+  ctx.stroke();
+}
+
+/** Draws FFT bins (in dB) as a spectrum with a logarithmic frequency axis */
+export function drawSpectrum(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  bins: Float32Array,
+  sampleRate: number
+) {
+  drawGrid(ctx, width, height);
+
+  // Faint lines at 100 Hz, 1 kHz and 10 kHz
+  const logRange = Math.log10(MAX_FREQUENCY / MIN_FREQUENCY);
+  const frequencyToX = (frequency: number) => (Math.log10(frequency / MIN_FREQUENCY) / logRange) * width;
+  ctx.strokeStyle = '#444';
+  [100, 1000, 10000].forEach((frequency) => {
+    const x = frequencyToX(frequency);
+    ctx.beginPath();
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, height);
+    ctx.stroke();
+  });
+
+  const binWidth = sampleRate / 2 / bins.length;
+  ctx.fillStyle = 'rgba(0, 255, 136, 0.25)';
+  ctx.strokeStyle = '#00ff88';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(0, height);
+  for (let i = 1; i < bins.length; i++) {
+    const frequency = i * binWidth;
+    if (frequency < MIN_FREQUENCY) continue;
+    if (frequency > MAX_FREQUENCY) break;
+    const level = Math.min(1, Math.max(0, (bins[i] - MIN_DB) / (MAX_DB - MIN_DB)));
+    ctx.lineTo(frequencyToX(frequency), height - level * height);
+  }
+  ctx.lineTo(width, height);
+  ctx.closePath();
+  ctx.fill();
+  ctx.stroke();
+}
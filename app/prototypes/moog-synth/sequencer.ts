@@ -0,0 +1,125 @@
+// Step sequencer and arpeggiator timing.
+//
+// JavaScript timers drift by several milliseconds, which you can hear in a
+// rhythm. So the StepClock uses the "look-ahead" trick: a timer wakes up every
+// 25 ms, and schedules every step that falls within the next 100 ms at its
+// exact time on the AudioContext clock. The timer only decides *when to
+// schedule*; the sound itself always lands on the audio clock.
+
+export interface Step {
+  /** Does this step play a note? */
+  active: boolean;
+  /** MIDI note number, e.g. 60 = C4 */
+  note: number;
+  /** How long the note lasts, as a fraction of the step (0..1) */
+  gate: number;
+  /** Accented steps play louder */
+  accent: boolean;
+  /** Hold this note into the next one, so it slides (glides in legato mode) */
+  slide: boolean;
+}
+
+export const STEP_COUNT = 16;
+
+export const ACCENT_VELOCITY = 1;
+export const NORMAL_VELOCITY = 0.7;
+
+// A bassline to start from: C minor, with a few accents and slides
+const STARTER_NOTES = [36, 36, 48, 36, 39, 36, 43, 46, 36, 36, 48, 36, 41, 43, 39, 34];
+export const DEFAULT_STEPS: Step[] = STARTER_NOTES.map((note, index) => ({
+  active: index !== 5 && index !== 13,
+  note,
+  gate: 0.5,
+  accent: index % 4 === 0,
+  slide: index === 6 || index === 14,
+}));
+
+export type ArpPattern = 'up' | 'down' | 'updown' | 'random';
+
+/**
+ * The order an arpeggiator plays the held notes in, spread over `octaves`.
+ * e.g. held [60, 64, 67], 'updown', 2 octaves →
+ *   60 64 67 72 76 79 76 72 67 64
+ * 'random' returns the notes in 'up' order; pick from them at random.
+ */
+export function arpeggioSequence(held: number[], pattern: ArpPattern, octaves: number): number[] {
+  const sorted = [...new Set(held)].sort((a, b) => a - b);
+  const up: number[] = [];
+  for (let octave = 0; octave < octaves; octave++) {
+    sorted.forEach((note) => up.push(note + octave * 12));
+  }
+
+  switch (pattern) {
+    case 'down':
+      return [...up].reverse();
+    case 'updown':
+      // Don't repeat the top and bottom notes when turning around
+      return up.length > 2 ? [...up, ...up.slice(1, -1).reverse()] : up;
+    case 'up':
+    case 'random':
+    default:
+      return up;
+  }
+}
+
+export class StepClock {
+  /** Beats per minute */
+  tempo = 120;
+  /** 4 = sixteenth notes */
+  stepsPerBeat = 4;
+
+  private readonly context: BaseAudioContext;
+  private readonly onStep: (step: number, time: number, duration: number) => void;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private step = 0;
+  private nextTime = 0;
+
+  // How often the timer wakes up, and how far ahead it schedules (seconds)
+  private static readonly INTERVAL = 0.025;
+  private static readonly LOOKAHEAD = 0.1;
+
+  constructor(
+    context: BaseAudioContext,
+    onStep: (step: number, time: number, duration: number) => void
+  ) {
+    this.context = context;
+    this.onStep = onStep;
+  }
+
+  get running() {
+    return this.timer !== null;
+  }
+
+  /** Seconds per step at the current tempo */
+  get stepDuration() {
+    return 60 / this.tempo / this.stepsPerBeat;
+  }
+
+  /** Audio time of the next step that hasn't been scheduled yet */
+  get nextStepTime() {
+    return this.nextTime;
+  }
+
+  start() {
+    if (this.timer) return;
+    this.step = 0;
+    // A small head start so the first step isn't already late
+    this.nextTime = this.context.currentTime + 0.05;
+    this.tick();
+    this.timer = setInterval(() => this.tick(), StepClock.INTERVAL * 1000);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private tick() {
+    while (this.nextTime < this.context.currentTime + StepClock.LOOKAHEAD) {
+      const duration = this.stepDuration;
+      this.onStep(this.step, this.nextTime, duration);
+      this.nextTime += duration;
+      this.step++;
+    }
+  }
+}
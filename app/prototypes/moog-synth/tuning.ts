@@ -0,0 +1,149 @@
+// Tunings: which frequency each key plays.
+//
+// Every note in the synth is a MIDI note number (60 = C4). noteFrequency turns
+// it into Hz using a tuning and a reference pitch for A4 (usually 440 Hz).
+//
+// A tuning is a list of steps above a root key, the same way Scala .scl files
+// describe scales: each step is a number of cents (100 cents = one piano
+// semitone) and the last step is the interval the scale repeats at, usually
+// the octave (1200 cents). Keys go up the steps one by one from the root, so a
+// 19-step tuning fits 19 keys into each octave of the keyboard.
+
+export interface Tuning {
+  name: string;
+  /** Cents above the root for steps 1..N; the last one is where the scale repeats */
+  steps: number[];
+}
+
+/** The key the scale starts on (C4); it keeps its normal pitch in every tuning */
+export const TUNING_ROOT = 60;
+
+export const DEFAULT_REFERENCE_PITCH = 440;
+export const MIN_REFERENCE_PITCH = 400;
+export const MAX_REFERENCE_PITCH = 480;
+
+const OCTAVE_CENTS = 1200;
+
+/** A ratio between two frequencies (e.g. 3/2 for a fifth) in cents */
+export const ratioToCents = (ratio: number) => OCTAVE_CENTS * Math.log2(ratio);
+
+/** The octave split into `divisions` equal steps (12 is the normal piano tuning) */
+export const equalTemperament = (divisions: number): Tuning => ({
+  name: divisions === 12 ? 'Equal temperament' : `${divisions}-EDO`,
+  steps: Array.from({ length: divisions }, (_, step) => ((step + 1) * OCTAVE_CENTS) / divisions),
+});
+
+/** 5-limit just intonation on C: pure thirds and fifths, so chords in C ring without beating */
+export const JUST_INTONATION: Tuning = {
+  name: 'Just intonation',
+  steps: [16 / 15, 9 / 8, 6 / 5, 5 / 4, 4 / 3, 45 / 32, 3 / 2, 8 / 5, 5 / 3, 9 / 5, 15 / 8, 2].map(ratioToCents),
+};
+
+export const DEFAULT_TUNING = equalTemperament(12);
+
+export const TUNING_PRESETS: Tuning[] = [
+  DEFAULT_TUNING,
+  JUST_INTONATION,
+  equalTemperament(19),
+  equalTemperament(22),
+  equalTemperament(24),
+  equalTemperament(31),
+];
+
+/**
+ * MIDI note number → frequency in Hz.
+ * With the default tuning this is the usual 12-tone piano tuning, A4 = referencePitch.
+ */
+export function noteFrequency(note: number, tuning: Tuning = DEFAULT_TUNING, referencePitch = DEFAULT_REFERENCE_PITCH) {
+  const rootFrequency = referencePitch * Math.pow(2, (TUNING_ROOT - 69) / 12);
+  const size = tuning.steps.length;
+  const period = tuning.steps[size - 1];
+
+  // How many whole repeats of the scale, and which step inside it
+  const offset = note - TUNING_ROOT;
+  const repeats = Math.floor(offset / size);
+  const step = offset - repeats * size;
+  const cents = repeats * period + (step === 0 ? 0 : tuning.steps[step - 1]);
+
+  return rootFrequency * Math.pow(2, cents / OCTAVE_CENTS);
+}
+
+// ----- Scala files -----
+
+// Reads one pitch line: cents if it has a dot ("701.955"), otherwise a ratio ("3/2") or whole number ("2")
+function parseScalaPitch(line: string): number | null {
+  const value = line.trim().split(/\s+/)[0];
+  if (value.includes('.')) {
+    const cents = Number(value);
+    return Number.isFinite(cents) ? cents : null;
+  }
+  const match = value.match(/^(\d+)(?:\/(\d+))?$/);
+  if (!match) return null;
+  const ratio = Number(match[1]) / Number(match[2] ?? 1);
+  return ratio > 0 && Number.isFinite(ratio) ? ratioToCents(ratio) : null;
+}
+
+/**
+ * Reads the text of a Scala .scl file: a description line, the number of
+ * notes, then one pitch per line. Lines starting with "!" are comments.
+ * Throws an Error with a readable message if the file isn't a scale.
+ */
+export function parseScala(text: string, fallbackName = 'Scala scale'): Tuning {
+  const lines = text.split(/\r?\n/).filter((line) => !line.startsWith('!'));
+  if (lines.length < 2) throw new Error("This file isn't a Scala scale");
+
+  const description = lines[0].trim();
+  const count = Number(lines[1].trim().split(/\s+/)[0]);
+  if (!Number.isInteger(count) || count < 1) throw new Error("This scale doesn't say how many notes it has");
+
+  const pitchLines = lines.slice(2).filter((line) => line.trim() !== '');
+  if (pitchLines.length < count) throw new Error(`This scale should have ${count} notes but has ${pitchLines.length}`);
+
+  const steps: number[] = [];
+  for (const line of pitchLines.slice(0, count)) {
+    const cents = parseScalaPitch(line);
+    if (cents === null) throw new Error(`Can't read the pitch "${line.trim()}"`);
+    steps.push(cents);
+  }
+  if (steps[steps.length - 1] <= 0) throw new Error('The last note of the scale must be above the first');
+
+  return { name: description || fallbackName, steps };
+}
+
+/** Reads a tuning from a .scl file the user picked */
+export async function importScalaFile(file: File): Promise<Tuning> {
+  return parseScala(await file.text(), file.name.replace(/\.scl$/i, ''));
+}
+
+// ----- Saving -----
+
+const TUNING_STORAGE_KEY = 'moog-synth:tuning';
+
+export interface TuningSettings {
+  tuning: Tuning;
+  referencePitch: number;
+}
+
+export function loadTuningSettings(): TuningSettings | null {
+  try {
+    const saved = JSON.parse(localStorage.getItem(TUNING_STORAGE_KEY) ?? 'null');
+    const steps = saved?.tuning?.steps;
+    const valid =
+      typeof saved?.tuning?.name === 'string' &&
+      Array.isArray(steps) &&
+      steps.length > 0 &&
+      steps.every((step: unknown) => typeof step === 'number' && Number.isFinite(step)) &&
+      typeof saved.referencePitch === 'number';
+    return valid ? saved : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveTuningSettings(settings: TuningSettings) {
+  try {
+    localStorage.setItem(TUNING_STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage can be blocked or full; the tuning still applies until the page reloads
+  }
+}
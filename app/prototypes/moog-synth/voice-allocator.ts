@@ -0,0 +1,210 @@
+// Decides which voice plays which note.
+//
+// - poly: every key gets its own voice, up to `polyphony` voices. When they are
+//   all busy, a voice is stolen: either the one that started first ('oldest')
+//   or the one whose envelope is lowest right now ('quietest').
+// - mono: one voice. Every new key restarts the envelope.
+// - legato: one voice. Keys played while another is held just change pitch,
+//   so the envelope keeps flowing.
+//
+// In mono and legato modes the allocator remembers every held key, so letting
+// go of the newest one falls back to the key still held underneath it.
+
+import { Voice, VoiceParams } from './voice';
+import { SharedModulators, LfoSettings } from './modulation';
+
+export type VoiceMode = 'poly' | 'mono' | 'legato';
+export type StealMode = 'oldest' | 'quietest';
+
+export interface VoiceSettings {
+  mode: VoiceMode;
+  polyphony: number;
+  stealMode: StealMode;
+  /** Seconds to slide between notes in mono and legato modes */
+  glide: number;
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  mode: 'poly',
+  polyphony: 8,
+  stealMode: 'oldest',
+  glide: 0,
+};
+
+interface HeldNote {
+  note: string;
+  frequency: number;
+  velocity: number;
+}
+
+export class VoiceAllocator {
+  /** Every voice plays into this node */
+  readonly output: GainNode;
+
+  private readonly context: BaseAudioContext;
+  private readonly modulators: SharedModulators;
+  private voices: Voice[] = [];
+  private params: VoiceParams;
+  private settings: VoiceSettings;
+  // Keys held in mono/legato mode, oldest first
+  private heldNotes: HeldNote[] = [];
+  private bendCents = 0;
+
+  constructor(context: BaseAudioContext, params: VoiceParams, settings: Partial<VoiceSettings> = {}) {
+    this.context = context;
+    this.params = params;
+    this.settings = { ...DEFAULT_VOICE_SETTINGS, ...settings };
+    this.output = context.createGain();
+    this.modulators = new SharedModulators(context);
+  }
+
+  /** New sound settings, for the next notes and the ones sounding now */
+  setParams(params: VoiceParams, time = this.context.currentTime) {
+    this.params = params;
+    this.voices.forEach((voice) => voice.update(params, time));
+  }
+
+  /** LFO shapes and rates; synced LFOs follow `tempo` (beats per minute) */
+  setLfos(lfos: LfoSettings[], tempo: number, time = this.context.currentTime) {
+    this.modulators.setLfos(lfos, tempo, time);
+  }
+
+  /** Mod wheel position, 0..1 */
+  setModWheel(value: number, time = this.context.currentTime) {
+    this.modulators.setModWheel(value, time);
+  }
+
+  configure(settings: Partial<VoiceSettings>) {
+    const previous = this.settings;
+    this.settings = { ...previous, ...settings };
+
+    // Switching between poly and mono/legato starts from a clean slate
+    const wasPoly = previous.mode === 'poly';
+    const isPoly = this.settings.mode === 'poly';
+    if (wasPoly !== isPoly) {
+      this.allNotesOff();
+      this.heldNotes = [];
+    }
+
+    // Fewer voices allowed: retire the extras (their notes fade out quickly)
+    const limit = isPoly ? this.settings.polyphony : 1;
+    if (this.voices.length > limit) {
+      const time = this.context.currentTime;
+      this.voices.splice(limit).forEach((voice) => voice.dispose(time));
+    }
+  }
+
+  noteOn(note: string, frequency: number, velocity = 1, time = this.context.currentTime) {
+    if (this.settings.mode === 'poly') {
+      this.polyNoteOn({ note, frequency, velocity }, time);
+    } else {
+      this.monoNoteOn({ note, frequency, velocity }, time);
+    }
+  }
+
+  noteOff(note: string, time = this.context.currentTime) {
+    if (this.settings.mode === 'poly') {
+      this.voices
+        .filter((voice) => voice.note === note && voice.isHeld())
+        .forEach((voice) => voice.noteOff(time));
+      return;
+    }
+
+    const wasNewest = this.heldNotes[this.heldNotes.length - 1]?.note === note;
+    this.heldNotes = this.heldNotes.filter((held) => held.note !== note);
+    const voice = this.voices[0];
+    if (!voice || !wasNewest) return;
+
+    // Fall back to the key still held underneath, or let the voice go
+    const previous = this.heldNotes[this.heldNotes.length - 1];
+    if (previous) {
+      this.playMono(voice, previous, time);
+    } else {
+      voice.noteOff(time);
+    }
+  }
+
+  allNotesOff(time = this.context.currentTime) {
+    this.heldNotes = [];
+    this.voices.forEach((voice) => voice.noteOff(time));
+  }
+
+  /** Bends every voice, including ones started later, by this many cents */
+  setPitchBend(cents: number, time = this.context.currentTime) {
+    this.bendCents = cents;
+    this.voices.forEach((voice) => voice.setBend(cents, time));
+  }
+
+  /** Notes that are currently sounding (held, or still in their release) */
+  activeVoices(time = this.context.currentTime) {
+    return this.voices.filter((voice) => !voice.isIdle(time));
+  }
+
+  dispose() {
+    const time = this.context.currentTime;
+    this.voices.forEach((voice) => voice.dispose(time));
+    this.voices = [];
+    this.heldNotes = [];
+    this.modulators.dispose(time);
+  }
+
+  private polyNoteOn(held: HeldNote, time: number) {
+    // Same key again: retrigger the voice that has it (even if it's releasing)
+    const sameNote = this.voices.find((voice) => voice.note === held.note && !voice.isIdle(time));
+    if (sameNote) {
+      sameNote.noteOn(held.note, held.frequency, held.velocity, time, this.params);
+      return;
+    }
+
+    const idle = this.voices.find((voice) => voice.isIdle(time));
+    if (idle) {
+      idle.noteOn(held.note, held.frequency, held.velocity, time, this.params);
+      return;
+    }
+
+    if (this.voices.length < this.settings.polyphony) {
+      const voice = this.createVoice();
+      voice.noteOn(held.note, held.frequency, held.velocity, time, this.params);
+      return;
+    }
+
+    const victim = this.pickVoiceToSteal(time);
+    victim.noteOn(held.note, held.frequency, held.velocity, time, this.params, { steal: true });
+  }
+
+  private monoNoteOn(held: HeldNote, time: number) {
+    this.heldNotes = [...this.heldNotes.filter((existing) => existing.note !== held.note), held];
+    const voice = this.voices[0] ?? this.createVoice();
+    this.playMono(voice, held, time);
+  }
+
+  private playMono(voice: Voice, held: HeldNote, time: number) {
+    const { mode, glide } = this.settings;
+    const slide = voice.isIdle(time) ? 0 : glide;
+    voice.noteOn(held.note, held.frequency, held.velocity, time, this.params, {
+      glide: slide,
+      retrigger: mode === 'mono',
+    });
+  }
+
+  private pickVoiceToSteal(time: number) {
+    // Prefer notes that have already been let go, they're on their way out anyway
+    const released = this.voices.filter((voice) => !voice.isHeld());
+    const candidates = released.length > 0 ? released : this.voices;
+
+    if (this.settings.stealMode === 'quietest') {
+      return candidates.reduce((quietest, voice) =>
+        voice.levelAt(time) < quietest.levelAt(time) ? voice : quietest
+      );
+    }
+    return candidates.reduce((oldest, voice) => (voice.startedAt < oldest.startedAt ? voice : oldest));
+  }
+
+  private createVoice() {
+    const voice = new Voice(this.context, this.params, this.modulators);
+    voice.setBend(this.bendCents, this.context.currentTime);
+    voice.output.connect(this.output);
+    this.voices.push(voice);
+    return voice;
+  }
+}
@@ -0,0 +1,508 @@
+// A single synth voice: two oscillators → mixer → lowpass filter → amp envelope → pan.
+//
+// Voices are long-lived. The oscillators start once and keep running; a note is
+// just the amp envelope opening (note on) and closing (note off). That makes it
+// cheap to retrigger a key, glide between notes, or hand the voice to a new note
+// when the allocator runs out of voices.
+//
+// Each voice also has its own filter envelope and velocity, which (along with
+// the LFOs and mod wheel shared by every voice) can modulate the voice through
+// the mod matrix. See modulation.ts.
+
+import {
+  ModRoute,
+  ModSource,
+  ModDestination,
+  SharedModulators,
+  DESTINATION_RANGE,
+  FILTER_ENV_RANGE,
+} from './modulation';
+
+export type Waveform = 'sine' | 'square' | 'sawtooth' | 'triangle';
+
+// Everything a voice needs to know to sound like the current patch
+export interface VoiceParams {
+  waveform: Waveform;
+  osc1Level: number;
+  osc2Waveform: Waveform;
+  osc2Octave: number;
+  osc2Semitone: number;
+  osc2Detune: number;
+  osc2Level: number;
+  filterCutoff: number;
+  filterResonance: number;
+  attack: number;
+  decay: number;
+  sustain: number;
+  release: number;
+  filterEnvAttack: number;
+  filterEnvDecay: number;
+  filterEnvSustain: number;
+  filterEnvRelease: number;
+  /** -1..1, how far the filter envelope opens (or closes) the cutoff */
+  filterEnvAmount: number;
+  modRoutes: ModRoute[];
+  volume: number;
+}
+
+// How far OSC 2 sits from the played key, as a frequency multiplier.
+// e.g. octave -1 → 0.5, semitone +7 → a fifth above, detune +10 → 10 cents sharp
+export const osc2Ratio = (octave: number, semitone: number, detuneCents: number) =>
+  Math.pow(2, octave + semitone / 12 + detuneCents / 1200);
+
+// Ramps of exactly 0 s can click, so every envelope stage lasts at least this long
+const MIN_STAGE_TIME = 0.005;
+
+// How quickly knob changes reach a sounding voice (time constant, seconds)
+const LIVE_SMOOTHING = 0.01;
+
+// An envelope as it was last scheduled, so we can work out its level at any time
+interface EnvelopeState {
+  start: number;
+  startLevel: number;
+  peak: number;
+  attack: number;
+  decay: number;
+  sustainLevel: number;
+  releaseStart: number | null;
+  releaseLevel: number;
+  release: number;
+}
+
+// An attack-decay-sustain-release envelope driving one AudioParam. It remembers
+// what it scheduled, so every new stage can start from the exact current level.
+class Envelope {
+  private readonly param: AudioParam;
+  private state: EnvelopeState = {
+    start: 0,
+    startLevel: 0,
+    peak: 0,
+    attack: MIN_STAGE_TIME,
+    decay: MIN_STAGE_TIME,
+    sustainLevel: 0,
+    releaseStart: 0,
+    releaseLevel: 0,
+    release: MIN_STAGE_TIME,
+  };
+
+  constructor(param: AudioParam) {
+    this.param = param;
+    this.param.value = 0;
+  }
+
+  isIdle(time: number) {
+    const { releaseStart, release } = this.state;
+    return releaseStart !== null && time >= releaseStart + release;
+  }
+
+  isReleased() {
+    return this.state.releaseStart !== null;
+  }
+
+  levelAt(time: number) {
+    const env = this.state;
+
+    if (env.releaseStart !== null && time >= env.releaseStart) {
+      const progress = (time - env.releaseStart) / env.release;
+      return progress >= 1 ? 0 : env.releaseLevel * (1 - progress);
+    }
+    if (time <= env.start) return env.startLevel;
+    if (time < env.start + env.attack) {
+      const progress = (time - env.start) / env.attack;
+      return env.startLevel + (env.peak - env.startLevel) * progress;
+    }
+    if (time < env.start + env.attack + env.decay) {
+      const progress = (time - env.start - env.attack) / env.decay;
+      return env.peak + (env.sustainLevel - env.peak) * progress;
+    }
+    return env.sustainLevel;
+  }
+
+  // Freezes the envelope at its current level so new ramps start from there
+  hold(time: number, level = this.levelAt(time)) {
+    this.param.cancelScheduledValues(time);
+    this.param.setValueAtTime(level, time);
+  }
+
+  /** Fades to silence quickly (a very short release); returns when the fade is done */
+  duck(time: number) {
+    const level = this.levelAt(time);
+    this.hold(time, level);
+    this.param.linearRampToValueAtTime(0, time + MIN_STAGE_TIME);
+    this.state = { ...this.state, releaseStart: time, releaseLevel: level, release: MIN_STAGE_TIME };
+    return time + MIN_STAGE_TIME;
+  }
+
+  /** Attack from the current level up to `peak`, then decay to `sustainLevel` and stay there */
+  trigger(time: number, peak: number, sustainLevel: number, attack: number, decay: number) {
+    const startLevel = this.levelAt(time);
+    if (this.isIdle(time)) {
+      // Already silent: start from 0 without cancelling a fade that ends right now
+      this.param.setValueAtTime(0, time);
+    } else {
+      this.hold(time, startLevel);
+    }
+    this.schedule({
+      start: time,
+      startLevel,
+      peak,
+      attack: Math.max(MIN_STAGE_TIME, attack),
+      decay: Math.max(MIN_STAGE_TIME, decay),
+      sustainLevel,
+      releaseStart: null,
+      releaseLevel: 0,
+      release: MIN_STAGE_TIME,
+    });
+  }
+
+  /**
+   * Moves the peak and sustain of a held note (a knob was turned while it plays).
+   * The rest of the note is rescheduled as a new envelope starting now, from
+   * the current level, so the level never jumps.
+   */
+  retarget(time: number, peak: number, sustainLevel: number) {
+    const env = this.state;
+    if (env.releaseStart !== null || time < env.start) return;
+
+    const level = this.levelAt(time);
+    const attackEnd = env.start + env.attack;
+    const decayEnd = attackEnd + env.decay;
+    this.hold(time, level);
+
+    if (time < attackEnd) {
+      this.schedule({ ...env, start: time, startLevel: level, peak, attack: attackEnd - time, sustainLevel });
+    } else {
+      const decay = Math.max(MIN_STAGE_TIME, decayEnd - time, LIVE_SMOOTHING * 2);
+      this.schedule({ ...env, start: time, startLevel: level, peak: level, attack: MIN_STAGE_TIME, decay, sustainLevel });
+    }
+  }
+
+  /** Starts the release stage from whatever level the envelope is at */
+  release(time: number, release: number) {
+    if (this.state.releaseStart !== null) return;
+
+    const level = this.levelAt(time);
+    const length = Math.max(MIN_STAGE_TIME, release);
+    this.hold(time, level);
+    this.param.linearRampToValueAtTime(0, time + length);
+    this.state = { ...this.state, releaseStart: time, releaseLevel: level, release: length };
+  }
+
+  private schedule(state: EnvelopeState) {
+    this.param.linearRampToValueAtTime(state.peak, state.start + state.attack);
+    this.param.linearRampToValueAtTime(state.sustainLevel, state.start + state.attack + state.decay);
+    // No more events: the level now holds at sustain until release
+    this.state = state;
+  }
+}
+
+export class Voice {
+  /** Final output; connect this to wherever voices should go */
+  readonly output: GainNode;
+
+  /** The note this voice is playing (or last played), e.g. 'C4' */
+  note: string | null = null;
+  frequency = 0;
+  velocity = 0;
+  /** Context time of the last note on, used to find the oldest voice */
+  startedAt = -Infinity;
+
+  private readonly context: BaseAudioContext;
+  private readonly shared: SharedModulators;
+  private readonly osc1: OscillatorNode;
+  private readonly osc2: OscillatorNode;
+  private readonly osc1Gain: GainNode;
+  private readonly osc2Gain: GainNode;
+  private readonly mixer: GainNode;
+  private readonly filter: BiquadFilterNode;
+  private readonly amp: GainNode;
+  private readonly ampMod: GainNode;
+  private readonly panner: StereoPannerNode;
+  private readonly ampEnvelope: Envelope;
+  // Modulation sources that belong to this voice
+  private readonly filterEnvSource: ConstantSourceNode;
+  private readonly filterEnvelope: Envelope;
+  private readonly velocitySource: ConstantSourceNode;
+  private readonly filterEnvGain: GainNode;
+  // One GainNode per mod matrix row (with the source feeding it), rebuilt only when the routing changes
+  private routes: { source: AudioNode; gain: GainNode }[] = [];
+  private routingKey = '';
+  private params: VoiceParams;
+  // Pitch bend applied on top of both oscillators, in cents
+  private bendCents = 0;
+
+  constructor(context: BaseAudioContext, params: VoiceParams, shared: SharedModulators) {
+    this.context = context;
+    this.shared = shared;
+    this.params = params;
+
+    this.osc1 = context.createOscillator();
+    this.osc2 = context.createOscillator();
+    this.osc1Gain = context.createGain();
+    this.osc2Gain = context.createGain();
+    this.mixer = context.createGain();
+    this.filter = context.createBiquadFilter();
+    this.amp = context.createGain();
+    this.ampMod = context.createGain();
+    this.panner = context.createStereoPanner();
+    this.output = context.createGain();
+
+    this.filter.type = 'lowpass';
+    this.ampEnvelope = new Envelope(this.amp.gain);
+
+    // Mixer: each oscillator gets its own level, then both are summed before the filter
+    this.osc1.connect(this.osc1Gain);
+    this.osc2.connect(this.osc2Gain);
+    this.osc1Gain.connect(this.mixer);
+    this.osc2Gain.connect(this.mixer);
+    this.mixer.connect(this.filter);
+    // The envelope shapes the note; ampMod and the panner are only there to be modulated
+    this.filter.connect(this.amp);
+    this.amp.connect(this.ampMod);
+    this.ampMod.connect(this.panner);
+    this.panner.connect(this.output);
+
+    // The filter envelope is a signal (0..1) that opens the cutoff through filter.detune
+    this.filterEnvSource = context.createConstantSource();
+    this.filterEnvelope = new Envelope(this.filterEnvSource.offset);
+    this.filterEnvGain = context.createGain();
+    this.filterEnvSource.connect(this.filterEnvGain);
+    this.filterEnvGain.connect(this.filter.detune);
+
+    this.velocitySource = context.createConstantSource();
+    this.velocitySource.offset.value = 0;
+
+    this.applyParams(params, context.currentTime);
+    this.osc1.start();
+    this.osc2.start();
+    this.filterEnvSource.start();
+    this.velocitySource.start();
+  }
+
+  /** True once the note has been released and the release has finished */
+  isIdle(time: number) {
+    return this.ampEnvelope.isIdle(time);
+  }
+
+  /** True while the key for this voice is held down */
+  isHeld() {
+    return this.note !== null && !this.ampEnvelope.isReleased();
+  }
+
+  /** Amp envelope level at `time` (0 to volume × velocity) */
+  levelAt(time: number) {
+    return this.ampEnvelope.levelAt(time);
+  }
+
+  /**
+   * Starts (or restarts) a note. The envelopes always continue from wherever
+   * they currently are, so retriggering a sounding voice doesn't click.
+   *
+   * - glide: seconds to slide from the previous pitch (0 jumps straight there)
+   * - retrigger: false keeps the envelopes where they are (legato)
+   * - steal: fade the old note out quickly first, because it is a different note
+   */
+  noteOn(
+    note: string,
+    frequency: number,
+    velocity: number,
+    time: number,
+    params: VoiceParams,
+    { glide = 0, retrigger = true, steal = false }: { glide?: number; retrigger?: boolean; steal?: boolean } = {}
+  ) {
+    this.params = params;
+
+    if (!retrigger && this.isHeld()) {
+      this.applyParams(params, time);
+      this.glideTo(note, frequency, time, glide);
+      this.setVelocity(velocity, time);
+      return;
+    }
+
+    let start = time;
+    if (steal && this.levelAt(time) > 0) {
+      // Duck the old note to silence first, then start the new one from zero
+      start = this.ampEnvelope.duck(time);
+      this.filterEnvelope.duck(time);
+    }
+
+    this.applyParams(params, start);
+    this.setPitch(frequency, start, steal ? 0 : glide);
+    this.setVelocity(velocity, start);
+    this.note = note;
+    this.frequency = frequency;
+    this.startedAt = time;
+
+    const peak = params.volume * velocity;
+    this.ampEnvelope.trigger(start, peak, peak * params.sustain, params.attack, params.decay);
+    this.filterEnvelope.trigger(start, 1, params.filterEnvSustain, params.filterEnvAttack, params.filterEnvDecay);
+  }
+
+  /** Slides to a new pitch without touching the envelopes (legato / mono note changes) */
+  glideTo(note: string, frequency: number, time: number, glide: number) {
+    this.setPitch(frequency, time, glide);
+    this.note = note;
+    this.frequency = frequency;
+  }
+
+  /** Starts the release stage of both envelopes */
+  noteOff(time: number) {
+    if (this.ampEnvelope.isReleased()) return;
+    this.ampEnvelope.release(time, this.params.release);
+    this.filterEnvelope.release(time, this.params.filterEnvRelease);
+  }
+
+  /**
+   * New settings for a voice that may be sounding right now. Levels, filter
+   * and modulation follow the knobs smoothly; a held note also moves to the new
+   * sustain and volume. Attack, decay and release times apply from the next stage.
+   */
+  update(params: VoiceParams, time: number) {
+    const previous = this.params;
+    this.params = params;
+    this.applyParams(params, time, LIVE_SMOOTHING);
+
+    // OSC 2 octave / semitone changed: retune it around the note that's playing
+    if (
+      this.frequency > 0 &&
+      (params.osc2Octave !== previous.osc2Octave || params.osc2Semitone !== previous.osc2Semitone)
+    ) {
+      const offset = Math.pow(2, params.osc2Octave + params.osc2Semitone / 12);
+      this.osc2.frequency.setTargetAtTime(this.frequency * offset, time, LIVE_SMOOTHING);
+    }
+
+    if (this.isHeld()) {
+      const peak = params.volume * this.velocity;
+      this.ampEnvelope.retarget(time, peak, peak * params.sustain);
+      this.filterEnvelope.retarget(time, 1, params.filterEnvSustain);
+    }
+  }
+
+  /** Bends both oscillators up or down (in cents), e.g. from a MIDI pitch wheel */
+  setBend(cents: number, time: number) {
+    this.bendCents = cents;
+    this.osc1.detune.setTargetAtTime(cents, time, 0.01);
+    this.osc2.detune.setTargetAtTime(this.params.osc2Detune + cents, time, 0.01);
+  }
+
+  /** Stops the oscillators and unplugs the voice. It can't be used afterwards. */
+  dispose(time = this.context.currentTime) {
+    const end = this.ampEnvelope.duck(time);
+    this.osc1.stop(end);
+    this.osc2.stop(end);
+    this.filterEnvSource.stop(end);
+    this.velocitySource.stop(end);
+    this.osc1.onended = () => {
+      this.disconnectRoutes();
+      this.output.disconnect();
+    };
+  }
+
+  private setVelocity(velocity: number, time: number) {
+    this.velocity = velocity;
+    this.velocitySource.offset.setValueAtTime(velocity, time);
+  }
+
+  private setPitch(frequency: number, time: number, glide: number) {
+    const offset = Math.pow(2, this.params.osc2Octave + this.params.osc2Semitone / 12);
+    const targets: [AudioParam, number, number][] = [
+      [this.osc1.frequency, this.frequency, frequency],
+      [this.osc2.frequency, this.frequency * offset, frequency * offset],
+    ];
+
+    for (const [param, from, to] of targets) {
+      param.cancelScheduledValues(time);
+      if (glide > 0 && from > 0) {
+        // Glide from the previous pitch. Exponential ramps sound even across octaves.
+        param.setValueAtTime(from, time);
+        param.exponentialRampToValueAtTime(to, time + glide);
+      } else {
+        param.setValueAtTime(to, time);
+      }
+    }
+  }
+
+  // smoothing 0 jumps straight to the new values (a note is starting);
+  // otherwise they glide there, so turning a knob doesn't crackle
+  private applyParams(params: VoiceParams, time: number, smoothing = 0) {
+    const set = (param: AudioParam, value: number) => {
+      if (smoothing > 0) param.setTargetAtTime(value, time, smoothing);
+      else param.setValueAtTime(value, time);
+    };
+
+    this.osc1.type = params.waveform;
+    this.osc2.type = params.osc2Waveform;
+    set(this.osc2.detune, params.osc2Detune + this.bendCents);
+    set(this.osc1Gain.gain, params.osc1Level);
+    set(this.osc2Gain.gain, params.osc2Level);
+    // Keep two oscillators at full level from being twice as loud as one
+    set(this.mixer.gain, 1 / Math.max(1, params.osc1Level + params.osc2Level));
+    set(this.filter.frequency, params.filterCutoff);
+    set(this.filter.Q, params.filterResonance / 10);
+    set(this.filterEnvGain.gain, params.filterEnvAmount * FILTER_ENV_RANGE);
+
+    this.applyRoutes(params.modRoutes);
+    params.modRoutes.forEach((route, index) => {
+      set(this.routes[index].gain.gain, route.amount * DESTINATION_RANGE[route.destination]);
+    });
+  }
+
+  // Wires up one GainNode per mod matrix row: source → amount → destination
+  private applyRoutes(routes: ModRoute[]) {
+    const key = routes.map((route) => `${route.source}>${route.destination}`).join(',');
+    if (key === this.routingKey) return;
+    this.routingKey = key;
+
+    this.disconnectRoutes();
+    this.routes = routes.map((route) => {
+      const source = this.sourceNode(route.source);
+      const gain = this.context.createGain();
+      gain.gain.value = 0;
+      source.connect(gain);
+      this.destinationParams(route.destination).forEach((param) => gain.connect(param));
+      return { source, gain };
+    });
+  }
+
+  // The shared LFOs and mod wheel outlive every voice, so they're unplugged
+  // from this voice's gains too; otherwise the old gains could never be freed
+  private disconnectRoutes() {
+    this.routes.forEach(({ source, gain }) => {
+      source.disconnect(gain);
+      gain.disconnect();
+    });
+    this.routes = [];
+  }
+
+  private sourceNode(source: ModSource): AudioNode {
+    switch (source) {
+      case 'lfo1':
+        return this.shared.lfo1;
+      case 'lfo2':
+        return this.shared.lfo2;
+      case 'modWheel':
+        return this.shared.modWheel;
+      case 'filterEnv':
+        return this.filterEnvSource;
+      case 'velocity':
+      default:
+        return this.velocitySource;
+    }
+  }
+
+  private destinationParams(destination: ModDestination): AudioParam[] {
+    switch (destination) {
+      case 'pitch':
+        return [this.osc1.detune, this.osc2.detune];
+      case 'cutoff':
+        return [this.filter.detune];
+      case 'amp':
+        return [this.ampMod.gain];
+      case 'pan':
+        return [this.panner.pan];
+      case 'osc2Detune':
+      default:
+        return [this.osc2.detune];
+    }
+  }
+}
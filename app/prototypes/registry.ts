@@ -0,0 +1,15 @@
+// This file is generated by scripts/generate-registry.mjs. Don't edit it by hand:
+// add a meta.ts to your prototype folder and run `npm run registry` instead.
+
+import type { PrototypeEntry } from '../lib/prototypes';
+import example from './example/meta';
+import confettiButton from './confetti-button/meta';
+import chromeReflective from './chrome-reflective/meta';
+import moogSynth from './moog-synth/meta';
+
+export const prototypes: PrototypeEntry[] = [
+  { ...example, slug: 'example', path: '/prototypes/example' },
+  { ...confettiButton, slug: 'confetti-button', path: '/prototypes/confetti-button' },
+  { ...chromeReflective, slug: 'chrome-reflective', path: '/prototypes/chrome-reflective' },
+  { ...moogSynth, slug: 'moog-synth', path: '/prototypes/moog-synth' },
+];
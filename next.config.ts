@@ -3,6 +3,10 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   devIndicators: {
     buildActivity: false
+  },
+  // The README image route reads these at request time, so they have to ship with it
+  outputFileTracingIncludes: {
+    '/prototypes/[slug]/images/[...file]': ['./app/prototypes/*/images/**/*']
   }
 };
 
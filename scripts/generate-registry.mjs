@@ -0,0 +1,139 @@
+/**
+ * Builds app/prototypes/registry.ts from the folders in app/prototypes.
+ *
+ * Each prototype folder must contain a `meta.ts` file that default-exports its
+ * metadata (see app/lib/prototypes.ts). The script fails with a clear message
+ * when a folder has no metadata or the metadata points to a file that doesn't
+ * exist, so a forgotten prototype breaks the build instead of silently going
+ * missing from the home page.
+ *
+ * Runs automatically before `npm run dev` and `npm run build`.
+ * Run it by hand with: npm run registry
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const prototypesDir = path.join(root, 'app', 'prototypes');
+const publicDir = path.join(root, 'public');
+const outputFile = path.join(prototypesDir, 'registry.ts');
+
+export const SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Turns 'chrome-reflective' into 'chromeReflective' for import names
+const toIdentifier = (slug) =>
+  slug.replace(/-([a-z0-9])/g, (_, char) => char.toUpperCase()).replace(/^(\d)/, '_$1');
+
+// Reads a simple `key: 'value'` string field out of a meta.ts file
+const readStringField = (source, key) => {
+  const match = source.match(new RegExp(`\\b${key}\\s*:\\s*(['"\`])(.*?)\\1`));
+  return match ? match[2] : undefined;
+};
+
+export function collectPrototypes() {
+  const errors = [];
+  const entries = [];
+
+  const folders = fs
+    .readdirSync(prototypesDir, { withFileTypes: true })
+    // _template is a starter, and [slug] folders are shared pages (like /prototypes/<slug>/about)
+    .filter((entry) => entry.isDirectory() && !entry.name.startsWith('_') && !entry.name.startsWith('['))
+    .map((entry) => entry.name)
+    .sort();
+
+  for (const slug of folders) {
+    const folder = path.join('app', 'prototypes', slug);
+    const metaFile = path.join(prototypesDir, slug, 'meta.ts');
+
+    if (!SLUG_PATTERN.test(slug)) {
+      errors.push(`${folder}: folder names must be lowercase words joined by dashes (e.g. my-prototype)`);
+      continue;
+    }
+    if (!fs.existsSync(path.join(prototypesDir, slug, 'page.tsx'))) {
+      errors.push(`${folder}: missing page.tsx`);
+      continue;
+    }
+    if (!fs.existsSync(metaFile)) {
+      errors.push(`${folder}: missing meta.ts (copy app/prototypes/_template/meta.ts and fill it in)`);
+      continue;
+    }
+
+    const source = fs.readFileSync(metaFile, 'utf8');
+    if (!/export\s+default\b/.test(source)) {
+      errors.push(`${folder}/meta.ts: must \`export default\` the prototype's metadata`);
+      continue;
+    }
+
+    const created = readStringField(source, 'created');
+    if (!created || !DATE_PATTERN.test(created)) {
+      errors.push(`${folder}/meta.ts: \`created\` must be a date written as YYYY-MM-DD`);
+    }
+
+    const thumbnail = readStringField(source, 'thumbnail');
+    if (thumbnail !== undefined) {
+      if (!thumbnail.startsWith('/')) {
+        errors.push(`${folder}/meta.ts: \`thumbnail\` must start with / (it is a path inside /public)`);
+      } else if (!fs.existsSync(path.join(publicDir, thumbnail))) {
+        errors.push(`${folder}/meta.ts: thumbnail "${thumbnail}" was not found in /public`);
+      }
+    }
+
+    entries.push({ slug, created: created ?? '' });
+  }
+
+  // Oldest first, so the home page reads in the order prototypes were made
+  entries.sort((a, b) => a.created.localeCompare(b.created) || a.slug.localeCompare(b.slug));
+
+  return { entries, errors };
+}
+
+export function renderRegistry(entries) {
+  const imports = entries
+    .map(({ slug }) => `import ${toIdentifier(slug)} from './${slug}/meta';`)
+    .join('\n');
+  const items = entries
+    .map(({ slug }) => `  { ...${toIdentifier(slug)}, slug: '${slug}', path: '/prototypes/${slug}' },`)
+    .join('\n');
+
+  return `// This file is generated by scripts/generate-registry.mjs. Don't edit it by hand:
+// add a meta.ts to your prototype folder and run \`npm run registry\` instead.
+
+import type { PrototypeEntry } from '../lib/prototypes';
+${imports}
+
+export const prototypes: PrototypeEntry[] = [
+${items}
+];
+`;
+}
+
+// Collects every prototype and rewrites registry.ts. Returns the errors, if any.
+export function generateRegistry() {
+  const { entries, errors } = collectPrototypes();
+  if (errors.length > 0) return { entries, errors };
+
+  const output = renderRegistry(entries);
+  const current = fs.existsSync(outputFile) ? fs.readFileSync(outputFile, 'utf8') : '';
+  if (output !== current) {
+    fs.writeFileSync(outputFile, output);
+  }
+  return { entries, errors };
+}
+
+const isMain = process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url);
+
+if (isMain) {
+  const { entries, errors } = generateRegistry();
+
+  if (errors.length > 0) {
+    console.error('Could not build the prototype registry:\n');
+    errors.forEach((error) => console.error(`  ✗ ${error}`));
+    console.error('');
+    process.exit(1);
+  }
+
+  console.log(`Prototype registry: ${entries.length} prototypes`);
+}
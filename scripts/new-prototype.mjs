@@ -0,0 +1,154 @@
+/**
+ * Creates a new prototype folder from a starter template.
+ *
+ * Usage:
+ *   npm run new-prototype <slug> [-- --variant window] [-- --title "My title"]
+ *
+ * Options:
+ *   --variant      blank (default), window, canvas or audio
+ *   --title        Card title on the home page (defaults to the slug in Title Case)
+ *   --description  Card description on the home page
+ *   --author       Defaults to your git user.name
+ *
+ * It copies the starter into app/prototypes/<slug>, renames the component,
+ * creates an images folder and a README, writes meta.ts and refreshes the
+ * prototype registry so the new prototype shows up on the home page.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { execSync } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { SLUG_PATTERN, generateRegistry } from './generate-registry.mjs';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const prototypesDir = path.join(root, 'app', 'prototypes');
+
+// Where each starter's page.tsx and styles.module.css live
+const VARIANTS = {
+  blank: { dir: path.join(prototypesDir, '_template'), summary: 'an empty page' },
+  window: { dir: path.join(root, 'scripts', 'templates', 'window'), summary: 'a draggable retro window' },
+  canvas: { dir: path.join(root, 'scripts', 'templates', 'canvas'), summary: 'a full-screen canvas animation loop' },
+  audio: { dir: path.join(root, 'scripts', 'templates', 'audio'), summary: 'a Web Audio tone you can play' },
+};
+
+// 'my-cool-thing' → 'MyCoolThing'
+const toPascalCase = (slug) =>
+  slug.split('-').map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+
+// 'my-cool-thing' → 'My cool thing'
+const toTitle = (slug) => {
+  const words = slug.split('-').join(' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const quote = (value) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+const gitUserName = () => {
+  try {
+    return execSync('git config user.name', { cwd: root, encoding: 'utf8' }).trim();
+  } catch {
+    return '';
+  }
+};
+
+const fail = (message) => {
+  console.error(`✗ ${message}`);
+  process.exit(1);
+};
+
+const renderMeta = ({ title, description, author, created }) => `import type { PrototypeMeta } from '../../lib/prototypes';
+
+const meta: PrototypeMeta = {
+  title: ${quote(title)},
+  description: ${quote(description)},
+  tags: [],
+  author: ${quote(author)},
+  created: '${created}',
+};
+
+export default meta;
+`;
+
+const renderReadme = ({ slug, title, description, variant }) => `# ${title}
+
+${description}
+
+Started from the \`${variant}\` starter (${VARIANTS[variant].summary}).
+
+## Running it
+
+1. From the project folder, run \`npm run dev\`
+2. Open [http://localhost:3000/prototypes/${slug}](http://localhost:3000/prototypes/${slug})
+
+## Files
+
+- \`page.tsx\` - The prototype itself
+- \`styles.module.css\` - Its styles
+- \`meta.ts\` - Title, description and tags shown on the home page
+- \`images/\` - Images used by this prototype
+`;
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    variant: { type: 'string', default: 'blank' },
+    title: { type: 'string' },
+    description: { type: 'string' },
+    author: { type: 'string' },
+  },
+});
+
+const slug = positionals[0];
+if (!slug) {
+  fail(`Give your prototype a name, e.g. npm run new-prototype my-prototype\n  Starters: ${Object.keys(VARIANTS).join(', ')}`);
+}
+if (!SLUG_PATTERN.test(slug)) {
+  fail(`"${slug}" isn't a valid name. Use lowercase words joined by dashes, e.g. my-prototype`);
+}
+
+const variant = values.variant;
+if (!Object.hasOwn(VARIANTS, variant)) {
+  fail(`Unknown starter "${variant}". Pick one of: ${Object.keys(VARIANTS).join(', ')}`);
+}
+
+const targetDir = path.join(prototypesDir, slug);
+if (fs.existsSync(targetDir)) {
+  fail(`app/prototypes/${slug} already exists`);
+}
+
+const title = values.title ?? toTitle(slug);
+const description = values.description ?? 'A short description of what this prototype does';
+const author = values.author ?? (gitUserName() || 'Your name');
+const created = new Date().toISOString().slice(0, 10);
+// Names can't start with a digit, so '3d-thing' becomes _3dThingPrototype (like the registry does)
+const componentName = (toPascalCase(slug).replace(/Prototype$/, '') + 'Prototype').replace(/^(\d)/, '_$1');
+
+const sourceDir = VARIANTS[variant].dir;
+const page = fs
+  .readFileSync(path.join(sourceDir, 'page.tsx'), 'utf8')
+  .replace(/\bPrototypeTemplate\b/g, componentName)
+  // The title goes in as a string literal, so { } < > in it can't break the JSX
+  .replace(/'__TITLE__'/g, () => quote(title))
+  .replace(/__SLUG__/g, slug);
+
+fs.mkdirSync(path.join(targetDir, 'images'), { recursive: true });
+// Git doesn't keep empty folders, so leave a placeholder file in images/
+fs.writeFileSync(path.join(targetDir, 'images', '.gitkeep'), '');
+fs.writeFileSync(path.join(targetDir, 'page.tsx'), page);
+fs.copyFileSync(path.join(sourceDir, 'styles.module.css'), path.join(targetDir, 'styles.module.css'));
+fs.writeFileSync(path.join(targetDir, 'meta.ts'), renderMeta({ title, description, author, created }));
+fs.writeFileSync(path.join(targetDir, 'README.md'), renderReadme({ slug, title, description, variant }));
+
+const { errors } = generateRegistry();
+if (errors.length > 0) {
+  console.error('Created the prototype, but the registry could not be rebuilt:\n');
+  errors.forEach((error) => console.error(`  ✗ ${error}`));
+  process.exit(1);
+}
+
+console.log(`✓ Created app/prototypes/${slug} (${variant} starter)`);
+console.log(`  Component: ${componentName}`);
+console.log(`  Edit meta.ts to change how it appears on the home page`);
+console.log(`  Open http://localhost:3000/prototypes/${slug} after running npm run dev`);
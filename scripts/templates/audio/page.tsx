@@ -0,0 +1,83 @@
+"use client";
+
+// Starter: a Web Audio playground.
+// Browsers only allow sound after a click, so the AudioContext is created on the first press.
+
+import styles from './styles.module.css';
+import { useState, useRef, useEffect } from 'react';
+
+export default function PrototypeTemplate() {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [frequency, setFrequency] = useState(440);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const oscillatorRef = useRef<OscillatorNode | null>(null);
+  const gainRef = useRef<GainNode | null>(null);
+
+  const start = () => {
+    if (!audioContextRef.current) {
+      audioContextRef.current = new AudioContext();
+    }
+    const audioContext = audioContextRef.current;
+
+    // Sound path: oscillator (makes the tone) → gain (volume) → speakers
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0, audioContext.currentTime);
+    gain.gain.linearRampToValueAtTime(0.3, audioContext.currentTime + 0.05);
+    oscillator.connect(gain);
+    gain.connect(audioContext.destination);
+    oscillator.start();
+
+    oscillatorRef.current = oscillator;
+    gainRef.current = gain;
+    setIsPlaying(true);
+  };
+
+  const stop = () => {
+    const audioContext = audioContextRef.current;
+    const oscillator = oscillatorRef.current;
+    if (audioContext && oscillator && gainRef.current) {
+      // Fade out quickly instead of cutting off, which would click
+      gainRef.current.gain.linearRampToValueAtTime(0, audioContext.currentTime + 0.05);
+      oscillator.stop(audioContext.currentTime + 0.05);
+    }
+    oscillatorRef.current = null;
+    setIsPlaying(false);
+  };
+
+  // Change the pitch while the tone is playing
+  useEffect(() => {
+    if (oscillatorRef.current && audioContextRef.current) {
+      oscillatorRef.current.frequency.setTargetAtTime(frequency, audioContextRef.current.currentTime, 0.01);
+    }
+  }, [frequency]);
+
+  // Close the AudioContext when you leave the page
+  useEffect(() => {
+    return () => {
+      audioContextRef.current?.close();
+    };
+  }, []);
+
+  return (
+    <div className={styles.container}>
+      <main className={styles.main}>
+        <h1 className={styles.title}>{'__TITLE__'}</h1>
+        <button className={styles.playButton} onClick={isPlaying ? stop : start}>
+          {isPlaying ? 'STOP' : 'PLAY'}
+        </button>
+        <label className={styles.control}>
+          <span className={styles.controlLabel}>FREQUENCY {frequency} Hz</span>
+          <input
+            type="range"
+            min={55}
+            max={1760}
+            value={frequency}
+            onChange={(e) => setFrequency(Number(e.target.value))}
+          />
+        </label>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+// Starter: a full-screen canvas with an animation loop.
+// Everything you draw goes inside the `draw` function, which runs about 60 times a second.
+
+import styles from './styles.module.css';
+import { useRef, useEffect } from 'react';
+
+export default function PrototypeTemplate() {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pointerRef = useRef({ x: 0, y: 0 });
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    // Keep the canvas the same size as the window (sharp on retina screens too)
+    const resize = () => {
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = window.innerWidth * ratio;
+      canvas.height = window.innerHeight * ratio;
+      ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      pointerRef.current = { x: e.clientX, y: e.clientY };
+    };
+
+    let frame = 0;
+    const draw = (time: number) => {
+      const width = window.innerWidth;
+      const height = window.innerHeight;
+      ctx.clearRect(0, 0, width, height);
+
+      // Replace this with your own drawing: a circle that follows the pointer
+      const radius = 40 + Math.sin(time / 300) * 10;
+      ctx.fillStyle = '#00ff88';
+      ctx.beginPath();
+      ctx.arc(pointerRef.current.x, pointerRef.current.y, radius, 0, Math.PI * 2);
+      ctx.fill();
+
+      frame = requestAnimationFrame(draw);
+    };
+
+    resize();
+    window.addEventListener('resize', resize);
+    window.addEventListener('pointermove', handlePointerMove);
+    frame = requestAnimationFrame(draw);
+
+    // Stop the loop when you leave the page
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('resize', resize);
+      window.removeEventListener('pointermove', handlePointerMove);
+    };
+  }, []);
+
+  return (
+    <div className={styles.container}>
+      <canvas ref={canvasRef} className={styles.canvas} />
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+"use client";
+
+// Starter: a draggable retro window, like the example prototype.
+// Drag the title bar to move the window (mouse or touch), resize it from any
+// edge, and it remembers where you left it.
+
+import styles from './styles.module.css';
+// "@/" is the project root, so this import works both here and in the copy in app/prototypes
+import { DraggableWindow } from '@/app/components/window';
+
+export default function PrototypeTemplate() {
+  return (
+    <div className={styles.container}>
+      <DraggableWindow
+        storageKey="__SLUG__"
+        className={styles.window}
+        barClassName={styles.windowBar}
+        title={<span className={styles.windowTitle}>{'__TITLE__'}</span>}
+      >
+        <div className={styles.windowContent}>
+          {/* Add your prototype content here */}
+        </div>
+      </DraggableWindow>
+    </div>
+  );
+}